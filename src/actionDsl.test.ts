@@ -52,6 +52,19 @@ describe('validateActionPlan', () => {
     assert.equal(result.valid, false);
   });
 
+  it('accepts type and extractText with a locator', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'type', locator: { label: 'Email' }, value: 'a@b.c' },
+          { action: 'extractText', locator: { role: 'heading', name: 'Total' } },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, []);
+  });
+
   it('rejects type without value', () => {
     const result = validateActionPlan(
       { steps: [{ action: 'type', selector: '#input' }] },
@@ -130,4 +143,701 @@ describe('validateActionPlan', () => {
     assert.equal(result.valid, true);
     assert.equal(result.plan!.steps.length, 4);
   });
+
+  it('accepts click with a role locator', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'click', locator: { role: 'button', name: 'Checkout' } }] },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('accepts click with label, placeholder, testId and text locators', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'click', locator: { label: 'Email' } },
+          { action: 'click', locator: { placeholder: 'Search', exact: true } },
+          { action: 'click', locator: { testId: 'submit' } },
+          { action: 'click', locator: { text: 'Sign in' } },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('accepts click with a CSS selector', () => {
+    const result = validateActionPlan({ steps: [{ action: 'click', selector: '#buy' }] }, allTools);
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects click without a target', () => {
+    const result = validateActionPlan({ steps: [{ action: 'click' }] }, allTools);
+    assert.equal(result.valid, false);
+  });
+
+  it('rejects click with both selector and locator', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'click', selector: '#buy', locator: { text: 'Buy' } }] },
+      allTools
+    );
+    assert.equal(result.valid, false);
+  });
+
+  it('rejects a locator with several strategies', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'click', locator: { label: 'Email', testId: 'email' } }] },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes('exactly one')));
+  });
+
+  it('rejects an unknown ARIA role', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'click', locator: { role: 'widget' } }] },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes('ARIA role')));
+  });
+
+  it('accepts ref locators from observe and rejects malformed refs', () => {
+    const valid = validateActionPlan(
+      { steps: [{ action: 'observe', maxTokens: 800 }, { action: 'click', locator: { ref: 'e12' } }] },
+      allTools
+    );
+    assert.deepEqual(valid.errors, []);
+
+    const invalid = validateActionPlan(
+      {
+        steps: [
+          { action: 'click', locator: { ref: '12' } },
+          { action: 'click', locator: { ref: 'e0' } },
+          { action: 'observe', maxTokens: 50 },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(
+      invalid.errors.map((e) => e.split(':')[0]),
+      ['Step 0', 'Step 1', 'Step 2']
+    );
+  });
+
+  it('rejects a locator name without a role', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'click', locator: { text: 'Buy', name: 'Buy' } }] },
+      allTools
+    );
+    assert.equal(result.valid, false);
+  });
+
+  it('accepts selectOption with value or values', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'selectOption', selector: '#country', value: 'NZ' },
+          { action: 'selectOption', locator: { label: 'Toppings' }, values: ['ham', 'cheese'] },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects selectOption without value', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'selectOption', selector: '#country' }] },
+      allTools
+    );
+    assert.equal(result.valid, false);
+  });
+
+  it('accepts check, uncheck, hover and scrollIntoView with a target', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'check', locator: { label: 'I agree' } },
+          { action: 'uncheck', locator: { role: 'checkbox', name: 'Newsletter' } },
+          { action: 'hover', selector: 'nav .menu' },
+          { action: 'scrollIntoView', locator: { text: 'Footer' } },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('accepts press with or without a target', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'press', key: 'Enter', locator: { placeholder: 'Search' } },
+          { action: 'press', key: 'Control+A' },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects press without key', () => {
+    const result = validateActionPlan({ steps: [{ action: 'press' }] }, allTools);
+    assert.equal(result.valid, false);
+  });
+
+  it('accepts setInputFiles with workspace-relative files', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'setInputFiles', selector: 'input[type=file]', files: ['fixtures/avatar.png'] }] },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects setInputFiles with paths outside the workspace', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'setInputFiles', selector: 'input', files: ['/etc/passwd'] },
+          { action: 'setInputFiles', selector: 'input', files: ['../secret.txt'] },
+          { action: 'setInputFiles', selector: 'input', files: [] },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.equal(result.errors.length, 3);
+  });
+
+  it('accepts all assertion actions', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'expectText', text: '3 items', selector: '.cart-count' },
+          { action: 'expectText', text: 'Welcome' },
+          { action: 'expectVisible', locator: { role: 'button', name: 'Checkout' } },
+          { action: 'expectVisible', selector: '.spinner', visible: false },
+          { action: 'expectUrl', url: '/cart' },
+          { action: 'expectTitle', text: 'Cart' },
+          { action: 'expectCount', selector: '.cart-item', count: 3 },
+          { action: 'expectAttribute', locator: { testId: 'agree' }, attribute: 'aria-checked', value: 'true' },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects assertions missing their expected value', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'expectText', selector: '.cart-count' },
+          { action: 'expectUrl' },
+          { action: 'expectTitle' },
+          { action: 'expectAttribute', selector: '#agree', attribute: 'checked' },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.equal(result.errors.length, 4);
+  });
+
+  it('rejects expectCount with a negative or fractional count', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'expectCount', selector: '.item', count: -1 },
+          { action: 'expectCount', selector: '.item', count: 1.5 },
+          { action: 'expectCount', selector: '.item' },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.errors.length, 3);
+  });
+
+  it('rejects expectVisible without a target', () => {
+    const result = validateActionPlan({ steps: [{ action: 'expectVisible' }] }, allTools);
+    assert.equal(result.valid, false);
+  });
+
+  it('rejects malformed placeholders', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'type', selector: '#user', value: '${{vars.USER}}' },
+          { action: 'type', selector: '#password', value: '${{ secret.PASSWORD }}' },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0], /^Step 1: /);
+  });
+
+  it('accepts extractList and extractTable field definitions', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          {
+            action: 'extractList',
+            rowSelector: '.product',
+            fields: { title: 'h2', link: { selector: 'a', attribute: 'href' }, price: { selector: '.price', type: 'number' } },
+            pagination: { nextSelector: 'a.next', maxPages: 3 },
+            maxRows: 50,
+          },
+          { action: 'extractTable', selector: 'table#users' },
+          { action: 'extractTable', locator: { role: 'table' }, fields: { name: 'Name', age: { column: 1, type: 'number' }, id: 0 } },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('rejects invalid extraction fields and limits', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'extractList', fields: { title: 'h2' } },
+          { action: 'extractList', rowSelector: '.row', fields: {} },
+          { action: 'extractList', rowSelector: '.row', fields: { a: { column: 1 }, b: { selector: '.b', type: 'date' } } },
+          { action: 'extractTable', selector: 'table', fields: { a: { type: 'number' } } },
+          { action: 'extractTable', selector: 'table', pagination: { maxPages: 100 }, maxRows: 0 },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.deepEqual(
+      result.errors.map((e) => e.split(':')[0]),
+      ['Step 0', 'Step 1', 'Step 2', 'Step 2', 'Step 3', 'Step 4', 'Step 4', 'Step 4']
+    );
+  });
+});
+
+describe('validateActionPlan control flow', () => {
+  const allTools = [...AVAILABLE_TOOLS];
+
+  it('accepts nested if, forEach, retry and call blocks with variables', () => {
+    const plan = {
+      steps: [
+        { action: 'extractText', selector: '.user', saveAs: 'user' },
+        {
+          action: 'if',
+          condition: { locator: { role: 'button', name: 'Accept cookies' }, waitMs: 1000 },
+          then: [{ action: 'click', locator: { role: 'button', name: 'Accept cookies' } }],
+          else: [{ action: 'expectText', text: 'Welcome ${user}' }],
+        },
+        {
+          action: 'forEach',
+          selector: '.product a',
+          attribute: 'href',
+          as: 'link',
+          maxItems: 5,
+          steps: [{ action: 'goto', url: '${link}' }, { action: 'call', subPlan: 'addToCart', with: { source: '${link}' } }],
+        },
+        { action: 'retry', attempts: 3, delayMs: 500, steps: [{ action: 'click', selector: '#checkout' }] },
+      ],
+      subPlans: { addToCart: [{ action: 'click', locator: { role: 'button', name: 'Add to cart' } }] },
+    };
+    const result = validateActionPlan(plan, allTools);
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.plan?.subPlans, plan.subPlans);
+  });
+
+  it('labels errors in nested steps with their position', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'goto', url: 'https://example.com' },
+          { action: 'if', condition: { text: 'Sign in' }, then: [{ action: 'click' }], else: [] },
+        ],
+        subPlans: { login: [{ action: 'type', selector: '#user' }] },
+      },
+      allTools
+    );
+    assert.deepEqual(
+      result.errors.map((e) => e.split(':')[0]),
+      ['Step 1.then.0', 'Step 1.else must be a non-empty array of steps', 'Sub-plan "login" step 0']
+    );
+  });
+
+  it('rejects invalid conditions', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'if', then: [{ action: 'snapshotText' }] },
+          { action: 'if', condition: { text: 'a', url: 'b' }, then: [{ action: 'snapshotText' }] },
+          { action: 'if', condition: { url: '' }, then: [{ action: 'snapshotText' }] },
+          { action: 'if', condition: { text: 'a', not: 'yes', waitMs: 60000 }, then: [{ action: 'snapshotText' }] },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "if" requires a "condition" object',
+      'Step 1: "condition" must set exactly one of text, selector, locator, url',
+      'Step 2: "condition.url" must be a non-empty string',
+      'Step 3: "condition.not" must be a boolean',
+      'Step 3: "condition.waitMs" must be an integer from 0 to 30000',
+    ]);
+  });
+
+  it('enforces forEach and retry limits', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'forEach', items: ['a'], selector: '.a', steps: [{ action: 'snapshotText' }] },
+          { action: 'forEach', items: [], steps: [{ action: 'snapshotText' }] },
+          { action: 'forEach', selector: '.row', maxItems: 500, steps: [{ action: 'snapshotText' }] },
+          { action: 'retry', attempts: 1, steps: [{ action: 'snapshotText' }] },
+          { action: 'retry', attempts: 3, delayMs: 60000, steps: [{ action: 'snapshotText' }] },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "forEach" takes either "items" or a "selector"/"locator", not both',
+      'Step 1: "forEach" "items" must be an array of 1 to 100 strings',
+      'Step 2: "forEach" "maxItems" must be an integer from 1 to 100',
+      'Step 3: "retry" requires an integer "attempts" from 2 to 5',
+      'Step 4: "retry" "delayMs" must be an integer from 0 to 30000',
+    ]);
+  });
+
+  it('rejects invalid and reserved variable names', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'extractText', selector: 'h1', saveAs: 'first-title' },
+          { action: 'forEach', items: ['a'], as: 'page', steps: [{ action: 'snapshotText' }] },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "saveAs" must be a name of letters, digits and underscores, e.g. "price"',
+      'Step 1: "as" cannot be the reserved name "page"',
+    ]);
+  });
+
+  it('checks "saveAs" on every step and rejects it on actions without a value', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'click', selector: 'x', saveAs: 'clicked' },
+          { action: 'goto', url: 'https://a', saveAs: 'bad name' },
+          { action: 'snapshotText', saveAs: 'page' },
+          { action: 'waitForResponse', url: '**/api', saveAs: 'body' },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "click" has no value to store; "saveAs" only works on "extractText", "snapshotText", "waitForResponse"',
+      'Step 1: "goto" has no value to store; "saveAs" only works on "extractText", "snapshotText", "waitForResponse"',
+      'Step 2: "saveAs" cannot be the reserved name "page"',
+    ]);
+  });
+
+  it('rejects blocks nested too deeply', () => {
+    let step: Record<string, unknown> = { action: 'snapshotText' };
+    for (let i = 0; i < 6; i++) {
+      step = { action: 'retry', attempts: 2, steps: [step] };
+    }
+    const result = validateActionPlan({ steps: [step] }, allTools);
+    assert.equal(result.valid, false);
+    assert.ok(result.errors[0].includes('nested more than 5 levels deep'), result.errors[0]);
+  });
+
+  it('counts nesting through sub-plan calls', () => {
+    const nested = (inner: unknown) => ({ action: 'retry', attempts: 2, steps: [inner] });
+    const result = validateActionPlan(
+      {
+        steps: [nested(nested(nested({ action: 'call', subPlan: 'deep' })))],
+        subPlans: { deep: [nested(nested({ action: 'snapshotText' }))] },
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, ['Blocks are nested 6 levels deep counting sub-plan calls; the limit is 5']);
+  });
+
+  it('caps the total number of step runs', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          {
+            action: 'forEach',
+            items: Array.from({ length: 100 }, (_, i) => String(i)),
+            steps: [{ action: 'forEach', selector: '.row', steps: [{ action: 'snapshotText' }] }],
+          },
+        ],
+      },
+      allTools
+    );
+    assert.equal(result.valid, false);
+    assert.match(result.errors[0], /could run up to 2101 steps/);
+  });
+
+  it('counts step retries towards the step runs', () => {
+    const items = Array.from({ length: 100 }, (_, i) => String(i));
+    const clicks = [{ action: 'click', selector: '#a' }, { action: 'click', selector: '#b' }];
+    assert.equal(validateActionPlan({ steps: [{ action: 'forEach', items, steps: clicks }] }, allTools).valid, true);
+
+    const withRetries = validateActionPlan(
+      { steps: [{ action: 'forEach', items, steps: clicks.map((click) => ({ ...click, retries: 5 })) }] },
+      allTools
+    );
+    assert.match(withRetries.errors[0], /could run up to 1201 steps/);
+
+    const withDefaults = validateActionPlan({ defaults: { retries: 5 }, steps: [{ action: 'forEach', items, steps: clicks }] }, allTools);
+    assert.match(withDefaults.errors[0], /could run up to 1201 steps/);
+  });
+
+  it('rejects unknown sub-plans and sub-plan cycles', () => {
+    const unknown = validateActionPlan({ steps: [{ action: 'call', subPlan: 'missing' }] }, allTools);
+    assert.deepEqual(unknown.errors, ['Step 0: "call" requires a "subPlan" defined in the plan\'s "subPlans"']);
+
+    const cycle = validateActionPlan(
+      {
+        steps: [{ action: 'call', subPlan: 'a' }],
+        subPlans: { a: [{ action: 'call', subPlan: 'b' }], b: [{ action: 'call', subPlan: 'a' }] },
+      },
+      allTools
+    );
+    assert.deepEqual(cycle.errors, ['Sub-plan "a" calls itself through "a" -> "b" -> "a"']);
+  });
+
+  it('checks "with" values and sub-plan names', () => {
+    const result = validateActionPlan(
+      {
+        steps: [{ action: 'call', subPlan: 'login', with: { user: 1 } }],
+        subPlans: { login: [{ action: 'snapshotText' }], 'log-out': [{ action: 'snapshotText' }] },
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "with.user" must be a string',
+      'Sub-plan "log-out": its name must be a name of letters, digits and underscores, e.g. "price"',
+    ]);
+  });
+});
+
+describe('validateActionPlan timing', () => {
+  const allTools = [...AVAILABLE_TOOLS];
+
+  it('accepts step timing and plan-level defaults, deadline and failure policy', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'goto', url: 'https://example.com', timeout: 60000, waitUntil: 'networkidle' },
+          { action: 'click', selector: '#flaky', retries: 3, backoffMs: 250, waitUntil: 'load' },
+        ],
+        defaults: { timeout: 5000, retries: 1 },
+        deadlineMs: 120000,
+        onFailure: 'continue',
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.plan?.defaults, { timeout: 5000, retries: 1 });
+    assert.equal(result.plan?.deadlineMs, 120000);
+    assert.equal(result.plan?.onFailure, 'continue');
+  });
+
+  it('rejects out-of-range step timing', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'click', selector: '#a', timeout: 50 },
+          { action: 'click', selector: '#a', retries: 9, backoffMs: -1 },
+          { action: 'goto', url: 'https://example.com', waitUntil: 'commit' },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "timeout" must be an integer from 100 to 300000 milliseconds',
+      'Step 1: "retries" must be an integer from 0 to 5',
+      'Step 1: "backoffMs" must be an integer from 0 to 30000',
+      'Step 2: "waitUntil" must be one of load, domcontentloaded, networkidle',
+    ]);
+  });
+
+  it('keeps timing off control-flow blocks', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'retry', attempts: 2, timeout: 1000, steps: [{ action: 'click', selector: '#a', timeout: 1000 }] }] },
+      allTools
+    );
+    assert.deepEqual(result.errors, ['Step 0: "retry" blocks do not take "timeout"; set them on the steps inside']);
+  });
+
+  it('rejects invalid plan-level settings', () => {
+    const result = validateActionPlan(
+      {
+        steps: [{ action: 'snapshotText' }],
+        defaults: { timeout: 1000000, delay: 5 },
+        deadlineMs: 10,
+        onFailure: 'ignore',
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      '"defaults" only takes timeout, retries, backoffMs, waitUntil; got delay',
+      'Plan defaults: "timeout" must be an integer from 100 to 300000 milliseconds',
+      '"deadlineMs" must be an integer from 1000 to 3600000',
+      '"onFailure" must be one of stop, continue',
+    ]);
+  });
+});
+
+describe('validateActionPlan network', () => {
+  const allTools = [...AVAILABLE_TOOLS];
+
+  it('accepts plan routes and network steps', () => {
+    const routes = [
+      { url: '**/api/orders*', method: 'GET', fulfill: { status: 500, json: { error: 'down' } }, delayMs: 2000 },
+      { url: '**/*', resourceTypes: ['image', 'font'], abort: true },
+      { url: '**/api/**', headers: { 'x-test-run': '1' } },
+      { url: '**/api/user', fulfill: { file: 'fixtures/user.json' } },
+    ];
+    const result = validateActionPlan(
+      {
+        routes,
+        steps: [
+          { action: 'route', rule: { url: '**/analytics/**', abort: true } },
+          { action: 'click', selector: '#save' },
+          { action: 'waitForResponse', url: '**/api/orders', method: 'POST', status: 201, saveAs: 'order' },
+          { action: 'unroute', url: '**/analytics/**' },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.plan?.routes, routes);
+  });
+
+  it('rejects routes that do nothing or do conflicting things', () => {
+    const result = validateActionPlan(
+      {
+        routes: [
+          { url: '**/a' },
+          { url: '**/b', abort: true, fulfill: { body: 'x' } },
+          { url: '**/c', fulfill: { status: 200 }, headers: { a: 'b' } },
+          { url: '', abort: true, method: 'FETCH' },
+        ],
+        steps: [{ action: 'snapshotText' }],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Route 0: route must set "fulfill", "abort", "delayMs" or "headers"',
+      'Route 1: a route with "abort" cannot also set "fulfill" or "headers"',
+      'Route 2: route "headers" change the request sent on; use "fulfill.headers" for a fake response',
+      'Route 3: route requires a non-empty "url" glob, e.g. "**/api/orders*"',
+      'Route 3: "method" must be one of GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS',
+    ]);
+  });
+
+  it('checks fulfillments, fixture paths and resource types', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          {
+            action: 'route',
+            rule: { url: '**/a', resourceTypes: ['images'], fulfill: { status: 700, json: {}, file: '../secret.json', extra: 1 } },
+          },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "resourceTypes" must be a non-empty array of document, stylesheet, image, media, font, script, texttrack, xhr, fetch, eventsource, websocket, manifest, other',
+      'Step 0: "fulfill" has unknown property "extra"; it takes status, json, body, file, contentType, headers',
+      'Step 0: "fulfill" takes only one of json, body and file',
+      'Step 0: "fulfill.status" must be an HTTP status from 100 to 599',
+      'Step 0: "fulfill.file" must be a path relative to the workspace',
+    ]);
+  });
+
+  it('requires the route tool for plan routes', () => {
+    const result = validateActionPlan(
+      { routes: [{ url: '**/a', abort: true }], steps: [{ action: 'goto', url: 'https://example.com' }] },
+      ['goto']
+    );
+    assert.deepEqual(result.errors, ['"routes" requires the "route" tool to be enabled']);
+  });
+
+  it('rejects waitForResponse without a URL or with a bad status', () => {
+    const result = validateActionPlan({ steps: [{ action: 'waitForResponse', status: 42 }] }, allTools);
+    assert.deepEqual(result.errors, [
+      'Step 0: "waitForResponse" requires a non-empty "url" glob',
+      'Step 0: "waitForResponse" "status" must be an HTTP status from 100 to 599',
+    ]);
+  });
+});
+
+describe('validateActionPlan tabs and dialogs', () => {
+  const allTools = [...AVAILABLE_TOOLS];
+
+  it('accepts tab and frame steps and a dialog policy', () => {
+    const result = validateActionPlan(
+      {
+        dialogs: { action: 'accept', promptText: 'Ann' },
+        steps: [
+          { action: 'click', locator: { role: 'link', name: 'Help' } },
+          { action: 'waitForPopup', waitUntil: 'domcontentloaded' },
+          { action: 'listTabs' },
+          { action: 'switchFrame', selector: 'iframe#chat' },
+          { action: 'type', locator: { label: 'Message' }, value: 'hi' },
+          { action: 'switchFrame' },
+          { action: 'switchTab', url: 'example.com/docs' },
+          { action: 'switchTab', tab: 0 },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.plan?.dialogs, { action: 'accept', promptText: 'Ann' });
+  });
+
+  it('rejects ambiguous tab switches and frame locators', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'switchTab' },
+          { action: 'switchTab', tab: 1, url: 'docs' },
+          { action: 'switchTab', tab: -1 },
+          { action: 'switchFrame', locator: { testId: 'chat' } },
+        ],
+      },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      'Step 0: "switchTab" requires either a "tab" index or a "url" substring',
+      'Step 1: "switchTab" requires either a "tab" index or a "url" substring',
+      'Step 2: "switchTab" "tab" must be a non-negative integer',
+      'Step 3: "switchFrame" takes the CSS "selector" of an iframe, not a "locator"',
+    ]);
+  });
+
+  it('checks the dialog policy', () => {
+    const result = validateActionPlan(
+      { dialogs: { action: 'dismiss', promptText: 'x', timeout: 5 }, steps: [{ action: 'listTabs' }] },
+      allTools
+    );
+    assert.deepEqual(result.errors, [
+      '"dialogs" has unknown property "timeout"; it takes action, promptText',
+      '"dialogs.promptText" is only used when "dialogs.action" is "accept"',
+    ]);
+    assert.deepEqual(validateActionPlan({ dialogs: { action: 'ignore' }, steps: [] }, allTools).errors, [
+      '"dialogs.action" must be one of accept, dismiss',
+    ]);
+  });
 });
@@ -1,3 +1,6 @@
+import { ExecutionPolicy, checkStepPolicy } from './policy';
+import { findMalformedPlaceholders } from './templating';
+
 export const AVAILABLE_TOOLS = [
   'goto',
   'clickText',
@@ -7,64 +10,745 @@ export const AVAILABLE_TOOLS = [
   'snapshotText',
   'screenshot',
   'closeBrowser',
+  'click',
+  'selectOption',
+  'check',
+  'uncheck',
+  'press',
+  'hover',
+  'scrollIntoView',
+  'setInputFiles',
+  'expectText',
+  'expectVisible',
+  'expectUrl',
+  'expectTitle',
+  'expectCount',
+  'expectAttribute',
+  'extractList',
+  'extractTable',
+  'observe',
+  'route',
+  'unroute',
+  'waitForResponse',
+  'listTabs',
+  'switchTab',
+  'waitForPopup',
+  'switchFrame',
+  'if',
+  'forEach',
+  'retry',
+  'call',
 ] as const;
 
-export interface ActionStep {
+/** Actions that run nested steps instead of acting on the page themselves. */
+export const CONTROL_ACTIONS: readonly string[] = ['if', 'forEach', 'retry', 'call'];
+
+/** Actions whose result `saveAs` can store in a variable. */
+export const SAVE_AS_ACTIONS: readonly string[] = ['extractText', 'snapshotText', 'waitForResponse'];
+
+/** Step fields that hold nested steps. */
+export const CHILD_STEP_KEYS = ['then', 'else', 'steps'] as const;
+
+export const ASSERTION_ACTIONS: readonly string[] = [
+  'expectText',
+  'expectVisible',
+  'expectUrl',
+  'expectTitle',
+  'expectCount',
+  'expectAttribute',
+];
+
+export const ARIA_ROLES = [
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption',
+  'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo',
+  'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure',
+  'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion', 'link', 'list',
+  'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'meter', 'menu', 'menubar', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'navigation', 'none', 'note', 'option', 'paragraph',
+  'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader',
+  'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status', 'strong',
+  'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+  'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem',
+] as const;
+
+export const LOCATOR_STRATEGIES = ['role', 'label', 'placeholder', 'testId', 'text', 'ref'] as const;
+
+/** Ref IDs as assigned by `observe`, e.g. "e12". */
+const REF_PATTERN = /^e[1-9]\d*$/;
+
+/** Targets an element by what the user sees rather than by CSS. Exactly one strategy must be set. */
+export interface LocatorSpec {
+  role?: string;
+  /** Accessible name, only used together with `role`. */
+  name?: string;
+  label?: string;
+  placeholder?: string;
+  testId?: string;
+  text?: string;
+  /** Ref ID of an element listed by a previous `observe` step in the same browser session. */
+  ref?: string;
+  /** Match `name`, `label`, `placeholder` or `text` exactly instead of as a substring. */
+  exact?: boolean;
+}
+
+export const FIELD_TYPES = ['string', 'number', 'boolean'] as const;
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+/**
+ * How one field of an extracted record is read. In `extractList` a plain
+ * string is shorthand for `{ selector }`; in `extractTable` a string or number
+ * is shorthand for `{ column }`.
+ */
+export interface FieldSpec {
+  /** `extractList`: CSS selector relative to the row. Omit to read the row itself. */
+  selector?: string;
+  /** `extractList`: read this attribute, e.g. "href", instead of the text. */
+  attribute?: string;
+  /** `extractTable`: column header text or zero-based column index. */
+  column?: string | number;
+  /** Defaults to "string". Values that cannot be converted become null. */
+  type?: FieldType;
+}
+
+export interface PaginationSpec {
+  /** CSS selector of the "next page" control. Extraction stops when it is missing or disabled. */
+  nextSelector: string;
+  /** Upper bound on pages read, including the first. Defaults to 5. */
+  maxPages?: number;
+}
+
+/** Hard limit on `pagination.maxPages`. */
+export const MAX_PAGES = 20;
+
+/** Bounds for `observe` `maxTokens`. */
+export const MIN_OBSERVE_TOKENS = 200;
+export const MAX_OBSERVE_TOKENS = 8000;
+
+/** Deepest nesting of `if`, `forEach`, `retry` and `call` blocks, counting through sub-plans. */
+export const MAX_NESTING_DEPTH = 5;
+/** Items a `forEach` visits when `maxItems` is not set. */
+export const DEFAULT_FOREACH_ITEMS = 20;
+export const MAX_FOREACH_ITEMS = 100;
+export const MAX_RETRY_ATTEMPTS = 5;
+export const MAX_RETRY_DELAY_MS = 30000;
+export const MAX_CONDITION_WAIT_MS = 30000;
+/** Upper bound on step runs in one plan, counting every loop iteration and retry attempt. */
+export const MAX_STEP_EXECUTIONS = 1000;
+
+/** Load states a step can wait for, as in Playwright's `waitUntil`. */
+export const WAIT_UNTIL_STATES = ['load', 'domcontentloaded', 'networkidle'] as const;
+export type WaitUntil = (typeof WAIT_UNTIL_STATES)[number];
+
+/** What happens to the remaining steps after one fails. */
+export const FAILURE_POLICIES = ['stop', 'continue'] as const;
+export type FailurePolicy = (typeof FAILURE_POLICIES)[number];
+
+/** Bounds for step `timeout`, `retries` and `backoffMs`. */
+export const MIN_STEP_TIMEOUT_MS = 100;
+export const MAX_STEP_TIMEOUT_MS = 300000;
+export const MAX_STEP_RETRIES = 5;
+export const MAX_RETRY_BACKOFF_MS = 30000;
+/** Bounds for a plan's `deadlineMs`. */
+export const MIN_RUN_DEADLINE_MS = 1000;
+export const MAX_RUN_DEADLINE_MS = 3600000;
+
+/** Upper bound on a route's `delayMs`. */
+export const MAX_ROUTE_DELAY_MS = 60000;
+/** Most routes a plan may set up front. */
+export const MAX_PLAN_ROUTES = 50;
+/** Request types a route can be limited to, as reported by Playwright's `request.resourceType()`. */
+export const RESOURCE_TYPES = [
+  'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch',
+  'eventsource', 'websocket', 'manifest', 'other',
+] as const;
+export const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] as const;
+
+/** What happens to `alert`, `confirm`, `prompt` and `beforeunload` dialogs. */
+export const DIALOG_ACTIONS = ['accept', 'dismiss'] as const;
+export type DialogAction = (typeof DIALOG_ACTIONS)[number];
+
+/** Variable names, as used in `saveAs`, `forEach` `as` and `${name}` references. */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+/** Names generated specs already use, so they cannot be variable or sub-plan names. */
+const RESERVED_NAMES = [
+  'page', 'frame', 'expect', 'test', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+  'delete', 'do', 'else', 'export', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'let',
+  'new', 'null', 'return', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while',
+];
+
+/** Checks for `if`. Set exactly one of `text`, `selector`, `locator` and `url`. */
+export interface Condition {
+  /** Text visible somewhere on the page. */
+  text?: string;
+  /** A visible element matching this CSS selector. */
+  selector?: string;
+  /** A visible element matching this locator. */
+  locator?: LocatorSpec;
+  /** The current URL contains this string. */
+  url?: string;
+  /** Negates the check. */
+  not?: boolean;
+  /** Wait up to this long for the check to hold before deciding. Defaults to 0. */
+  waitMs?: number;
+}
+
+export const CONDITION_KINDS = ['text', 'selector', 'locator', 'url'] as const;
+
+/** A fake response for a route. Set at most one of `json`, `body` and `file`; none gives an empty body. */
+export interface RouteFulfillment {
+  /** HTTP status. Defaults to 200. */
+  status?: number;
+  /** Sent as JSON, with a JSON content type unless `contentType` says otherwise. */
+  json?: unknown;
+  body?: string;
+  /** Fixture file, relative to the workspace root. */
+  file?: string;
+  contentType?: string;
+  /** Response headers. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Intercepts requests whose URL matches a glob, e.g. "**\/api/orders*". A
+ * route fulfills them with a fake response, aborts them, or lets them through
+ * after `delayMs` and with changed request `headers`.
+ */
+export interface RouteRule {
+  url: string;
+  /** Only intercept requests with this HTTP method. */
+  method?: string;
+  /** Only intercept these request types, e.g. ["image", "font"]. */
+  resourceTypes?: string[];
+  fulfill?: RouteFulfillment;
+  /** Fail matching requests as if the network had blocked them. */
+  abort?: boolean;
+  /** Hold matching requests this long before answering or sending them on. */
+  delayMs?: number;
+  /** Request headers to add or replace before the request is sent on. */
+  headers?: Record<string, string>;
+}
+
+export const ROUTE_RULE_KEYS = ['url', 'method', 'resourceTypes', 'fulfill', 'abort', 'delayMs', 'headers'] as const;
+const FULFILLMENT_KEYS = ['status', 'json', 'body', 'file', 'contentType', 'headers'];
+
+/** How a run answers dialogs, in every tab. Without one, dialogs are dismissed. */
+export interface DialogPolicy {
+  action: DialogAction;
+  /** Text entered into `prompt` dialogs before accepting them. */
+  promptText?: string;
+}
+
+const DIALOG_POLICY_KEYS = ['action', 'promptText'];
+
+/**
+ * Timing a step sets for itself, or a plan or the workspace sets for all
+ * steps. The step's own value wins, then the plan's, then the workspace's.
+ */
+export interface StepTiming {
+  /** How long the step may wait for its element or navigation. Defaults to 10s, or 30s for `goto`. */
+  timeout?: number;
+  /** Runs a failed step again up to this many times. Defaults to 0. */
+  retries?: number;
+  /** Pause before the first retry; it doubles for each further retry. Defaults to 1000. */
+  backoffMs?: number;
+  /**
+   * Load state `goto` waits for. On other steps it is only used when set on
+   * the step itself, and waits for that state after the step, e.g. after a
+   * click that navigates.
+   */
+  waitUntil?: WaitUntil;
+}
+
+export const STEP_TIMING_KEYS = ['timeout', 'retries', 'backoffMs', 'waitUntil'] as const;
+
+export interface ActionStep extends StepTiming {
   action: string;
   url?: string;
   text?: string;
   selector?: string;
+  locator?: LocatorSpec;
   value?: string;
+  values?: string[];
+  key?: string;
+  files?: string[];
   name?: string;
+  /** `expectVisible`: assert the element is hidden when false. Defaults to true. */
+  visible?: boolean;
+  count?: number;
+  attribute?: string;
+  /** `extractList`: CSS selector matching one element per record. */
+  rowSelector?: string;
+  fields?: Record<string, string | number | FieldSpec>;
+  pagination?: PaginationSpec;
+  /** Stop extracting after this many records. */
+  maxRows?: number;
+  /** `observe`: token budget for the page outline. */
+  maxTokens?: number;
+  /** `extractText`, `snapshotText`, `waitForResponse`: store the text or response body in a variable that later steps use as `${name}`. */
+  saveAs?: string;
+  /** `if`: the check that picks the branch. */
+  condition?: Condition;
+  /** `if`: steps run when the condition holds. */
+  then?: ActionStep[];
+  /** `if`: steps run when it does not. */
+  else?: ActionStep[];
+  /** `forEach` and `retry`: the steps to repeat. */
+  steps?: ActionStep[];
+  /** `forEach`: values to visit instead of the matches of `selector` or `locator`. */
+  items?: string[];
+  /** `forEach`: variable holding the current item. Defaults to "item". */
+  as?: string;
+  /** `forEach`: visit at most this many items. Defaults to 20. */
+  maxItems?: number;
+  /** `retry`: how often the steps run before the block fails. */
+  attempts?: number;
+  /** `retry`: pause between attempts. */
+  delayMs?: number;
+  /** `call`: name of the sub-plan to run. */
+  subPlan?: string;
+  /** `call`: variables set while the sub-plan runs; variables of the same name get their values back afterwards. */
+  with?: Record<string, string>;
+  /** `route`: the rule to add for the rest of the run. */
+  rule?: RouteRule;
+  /** `waitForResponse`: only match requests with this HTTP method. */
+  method?: string;
+  /** `waitForResponse`: the status the response must have. */
+  status?: number;
+  /** `switchTab`: zero-based index of the tab, in the order the tabs opened. */
+  tab?: number;
 }
 
 export interface ActionPlan {
   steps: ActionStep[];
+  /** Named step lists that `call` steps run. */
+  subPlans?: Record<string, ActionStep[]>;
+  /** Timing for every step that does not set its own. */
+  defaults?: StepTiming;
+  /** Stops the run, failing the current step, once it has taken this long. */
+  deadlineMs?: number;
+  /** Whether a failed step stops the rest of the plan. Defaults to the workspace setting. */
+  onFailure?: FailurePolicy;
+  /** Network routes set up before the first step and removed when the run ends. */
+  routes?: RouteRule[];
+  /** How dialogs are answered. Defaults to dismissing them. */
+  dialogs?: DialogPolicy;
+}
+
+/** The step without its nested steps, e.g. for resolving or checking only its own fields. */
+export function stepOwnFields(step: ActionStep): ActionStep {
+  const own: Record<string, unknown> = { ...step };
+  for (const key of CHILD_STEP_KEYS) {
+    delete own[key];
+  }
+  return own as unknown as ActionStep;
+}
+
+export interface ValidationOptions {
+  /** Rejects steps that the workspace policy blocks outright. */
+  policy?: ExecutionPolicy;
+}
+
+function validateLocator(locator: unknown, prefix: string): string[] {
+  if (typeof locator !== 'object' || locator === null || Array.isArray(locator)) {
+    return [`${prefix} "locator" must be an object`];
+  }
+  const l = locator as Record<string, unknown>;
+  const errors: string[] = [];
+  const strategies = LOCATOR_STRATEGIES.filter((key) => l[key] !== undefined);
+  if (strategies.length !== 1) {
+    errors.push(`${prefix} "locator" must set exactly one of ${LOCATOR_STRATEGIES.join(', ')}`);
+  }
+  for (const key of strategies) {
+    if (typeof l[key] !== 'string' || !l[key]) {
+      errors.push(`${prefix} "locator.${key}" must be a non-empty string`);
+    }
+  }
+  if (typeof l.role === 'string' && !(ARIA_ROLES as readonly string[]).includes(l.role)) {
+    errors.push(`${prefix} "locator.role" must be a valid ARIA role, got "${l.role}"`);
+  }
+  if (l.name !== undefined && (typeof l.name !== 'string' || l.role === undefined)) {
+    errors.push(`${prefix} "locator.name" must be a string and requires "locator.role"`);
+  }
+  if (typeof l.ref === 'string' && l.ref && !REF_PATTERN.test(l.ref)) {
+    errors.push(`${prefix} "locator.ref" must be a ref ID from an observe step, e.g. "e12"`);
+  }
+  if (l.exact !== undefined && typeof l.exact !== 'boolean') {
+    errors.push(`${prefix} "locator.exact" must be a boolean`);
+  }
+  return errors;
+}
+
+/** Element actions take either a CSS `selector` or a `locator`, but not both. */
+function validateTarget(s: Record<string, unknown>, prefix: string, action: string): string[] {
+  if (s.selector !== undefined && s.locator !== undefined) {
+    return [`${prefix} "${action}" takes either "selector" or "locator", not both`];
+  }
+  if (s.locator !== undefined) {
+    return validateLocator(s.locator, prefix);
+  }
+  if (typeof s.selector !== 'string' || !s.selector) {
+    return [`${prefix} "${action}" requires a non-empty "selector" string or a "locator" object`];
+  }
+  return [];
+}
+
+function validateFields(fields: unknown, prefix: string, action: 'extractList' | 'extractTable'): string[] {
+  if (typeof fields !== 'object' || fields === null || Array.isArray(fields) || Object.keys(fields).length === 0) {
+    return [`${prefix} "fields" must be an object mapping field names to definitions`];
+  }
+  const errors: string[] = [];
+  for (const [name, spec] of Object.entries(fields as Record<string, unknown>)) {
+    const field = `${prefix} field "${name}"`;
+    if (!name.trim()) {
+      errors.push(`${prefix} field names must not be empty`);
+      continue;
+    }
+    if (typeof spec === 'string') {
+      if (!spec) {
+        errors.push(`${field} must not be an empty string`);
+      }
+      continue;
+    }
+    if (typeof spec === 'number' && action === 'extractTable') {
+      if (!Number.isInteger(spec) || spec < 0) {
+        errors.push(`${field} column index must be a non-negative integer`);
+      }
+      continue;
+    }
+    if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+      errors.push(`${field} must be a string or an object`);
+      continue;
+    }
+    const f = spec as Record<string, unknown>;
+    const allowed = action === 'extractList' ? ['selector', 'attribute', 'type'] : ['column', 'type'];
+    for (const key of Object.keys(f).filter((k) => !allowed.includes(k))) {
+      errors.push(`${field} has unknown property "${key}"; "${action}" fields take ${allowed.join(', ')}`);
+    }
+    for (const key of ['selector', 'attribute'] as const) {
+      if (f[key] !== undefined && (typeof f[key] !== 'string' || !f[key])) {
+        errors.push(`${field} "${key}" must be a non-empty string`);
+      }
+    }
+    if (action === 'extractTable') {
+      const column = f.column;
+      const validColumn =
+        (typeof column === 'string' && column.length > 0) ||
+        (typeof column === 'number' && Number.isInteger(column) && column >= 0);
+      if (!validColumn) {
+        errors.push(`${field} requires a "column" header name or zero-based index`);
+      }
+    }
+    if (f.type !== undefined && !(FIELD_TYPES as readonly unknown[]).includes(f.type)) {
+      errors.push(`${field} "type" must be one of ${FIELD_TYPES.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+function validateExtraction(s: Record<string, unknown>, prefix: string): string[] {
+  const errors: string[] = [];
+  if (s.pagination !== undefined) {
+    const p = s.pagination as Record<string, unknown>;
+    if (typeof p !== 'object' || p === null || Array.isArray(p)) {
+      errors.push(`${prefix} "pagination" must be an object`);
+    } else {
+      if (typeof p.nextSelector !== 'string' || !p.nextSelector) {
+        errors.push(`${prefix} "pagination" requires a non-empty "nextSelector" string`);
+      }
+      if (
+        p.maxPages !== undefined &&
+        (typeof p.maxPages !== 'number' || !Number.isInteger(p.maxPages) || p.maxPages < 1 || p.maxPages > MAX_PAGES)
+      ) {
+        errors.push(`${prefix} "pagination.maxPages" must be an integer from 1 to ${MAX_PAGES}`);
+      }
+    }
+  }
+  if (s.maxRows !== undefined && (typeof s.maxRows !== 'number' || !Number.isInteger(s.maxRows) || s.maxRows < 1)) {
+    errors.push(`${prefix} "maxRows" must be a positive integer`);
+  }
+  return errors;
+}
+
+function isWorkspaceRelativePath(file: string): boolean {
+  if (!file || file.startsWith('/') || file.startsWith('\\') || /^[a-zA-Z]:/.test(file)) {
+    return false;
+  }
+  return !file.split(/[\\/]/).includes('..');
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/** Checks `timeout`, `retries`, `backoffMs` and `waitUntil` on a step or a set of defaults. */
+export function validateStepTiming(timing: Record<string, unknown>, prefix: string): string[] {
+  const errors: string[] = [];
+  if (timing.timeout !== undefined && !isIntegerInRange(timing.timeout, MIN_STEP_TIMEOUT_MS, MAX_STEP_TIMEOUT_MS)) {
+    errors.push(`${prefix} "timeout" must be an integer from ${MIN_STEP_TIMEOUT_MS} to ${MAX_STEP_TIMEOUT_MS} milliseconds`);
+  }
+  if (timing.retries !== undefined && !isIntegerInRange(timing.retries, 0, MAX_STEP_RETRIES)) {
+    errors.push(`${prefix} "retries" must be an integer from 0 to ${MAX_STEP_RETRIES}`);
+  }
+  if (timing.backoffMs !== undefined && !isIntegerInRange(timing.backoffMs, 0, MAX_RETRY_BACKOFF_MS)) {
+    errors.push(`${prefix} "backoffMs" must be an integer from 0 to ${MAX_RETRY_BACKOFF_MS}`);
+  }
+  if (timing.waitUntil !== undefined && !(WAIT_UNTIL_STATES as readonly unknown[]).includes(timing.waitUntil)) {
+    errors.push(`${prefix} "waitUntil" must be one of ${WAIT_UNTIL_STATES.join(', ')}`);
+  }
+  return errors;
+}
+
+function validateVariableName(name: unknown, prefix: string, field: string): string[] {
+  if (typeof name !== 'string' || !VARIABLE_NAME_PATTERN.test(name)) {
+    return [`${prefix} "${field}" must be a name of letters, digits and underscores, e.g. "price"`];
+  }
+  if (RESERVED_NAMES.includes(name)) {
+    return [`${prefix} "${field}" cannot be the reserved name "${name}"`];
+  }
+  return [];
+}
+
+function validateCondition(condition: unknown, prefix: string): string[] {
+  if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+    return [`${prefix} "if" requires a "condition" object`];
+  }
+  const c = condition as Record<string, unknown>;
+  const errors: string[] = [];
+  const kinds = CONDITION_KINDS.filter((key) => c[key] !== undefined);
+  if (kinds.length !== 1) {
+    return [`${prefix} "condition" must set exactly one of ${CONDITION_KINDS.join(', ')}`];
+  }
+  if (c.locator !== undefined) {
+    errors.push(...validateLocator(c.locator, prefix));
+  } else if (typeof c[kinds[0]] !== 'string' || !c[kinds[0]]) {
+    errors.push(`${prefix} "condition.${kinds[0]}" must be a non-empty string`);
+  }
+  if (c.not !== undefined && typeof c.not !== 'boolean') {
+    errors.push(`${prefix} "condition.not" must be a boolean`);
+  }
+  if (c.waitMs !== undefined && !isIntegerInRange(c.waitMs, 0, MAX_CONDITION_WAIT_MS)) {
+    errors.push(`${prefix} "condition.waitMs" must be an integer from 0 to ${MAX_CONDITION_WAIT_MS}`);
+  }
+  return errors;
+}
+
+function validateHeaders(headers: unknown, prefix: string, field: string): string[] {
+  if (
+    typeof headers !== 'object' ||
+    headers === null ||
+    Array.isArray(headers) ||
+    !Object.entries(headers).every(([name, value]) => name.length > 0 && typeof value === 'string')
+  ) {
+    return [`${prefix} "${field}" must map header names to strings`];
+  }
+  return [];
+}
+
+function validateMethod(method: unknown, prefix: string, field: string): string[] {
+  if (!(HTTP_METHODS as readonly unknown[]).includes(method)) {
+    return [`${prefix} "${field}" must be one of ${HTTP_METHODS.join(', ')}`];
+  }
+  return [];
+}
+
+function validateFulfillment(fulfill: unknown, prefix: string): string[] {
+  if (typeof fulfill !== 'object' || fulfill === null || Array.isArray(fulfill)) {
+    return [`${prefix} "fulfill" must be an object`];
+  }
+  const f = fulfill as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(f).filter((k) => !FULFILLMENT_KEYS.includes(k))) {
+    errors.push(`${prefix} "fulfill" has unknown property "${key}"; it takes ${FULFILLMENT_KEYS.join(', ')}`);
+  }
+  const sources = ['json', 'body', 'file'].filter((key) => f[key] !== undefined);
+  if (sources.length > 1) {
+    errors.push(`${prefix} "fulfill" takes only one of json, body and file`);
+  }
+  if (f.status !== undefined && !isIntegerInRange(f.status, 100, 599)) {
+    errors.push(`${prefix} "fulfill.status" must be an HTTP status from 100 to 599`);
+  }
+  if (f.body !== undefined && typeof f.body !== 'string') {
+    errors.push(`${prefix} "fulfill.body" must be a string`);
+  }
+  if (f.file !== undefined && (typeof f.file !== 'string' || !isWorkspaceRelativePath(f.file))) {
+    errors.push(`${prefix} "fulfill.file" must be a path relative to the workspace`);
+  }
+  if (f.contentType !== undefined && (typeof f.contentType !== 'string' || !f.contentType)) {
+    errors.push(`${prefix} "fulfill.contentType" must be a non-empty string`);
+  }
+  if (f.headers !== undefined) {
+    errors.push(...validateHeaders(f.headers, prefix, 'fulfill.headers'));
+  }
+  return errors;
+}
+
+/** Checks a plan route or the `rule` of a `route` step. */
+function validateRouteRule(rule: unknown, prefix: string): string[] {
+  if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+    return [`${prefix} route must be an object`];
+  }
+  const r = rule as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(r).filter((k) => !(ROUTE_RULE_KEYS as readonly string[]).includes(k))) {
+    errors.push(`${prefix} route has unknown property "${key}"; it takes ${ROUTE_RULE_KEYS.join(', ')}`);
+  }
+  if (typeof r.url !== 'string' || !r.url) {
+    errors.push(`${prefix} route requires a non-empty "url" glob, e.g. "**/api/orders*"`);
+  }
+  if (r.method !== undefined) {
+    errors.push(...validateMethod(r.method, prefix, 'method'));
+  }
+  if (r.resourceTypes !== undefined) {
+    if (
+      !Array.isArray(r.resourceTypes) ||
+      r.resourceTypes.length === 0 ||
+      !r.resourceTypes.every((type) => (RESOURCE_TYPES as readonly unknown[]).includes(type))
+    ) {
+      errors.push(`${prefix} "resourceTypes" must be a non-empty array of ${RESOURCE_TYPES.join(', ')}`);
+    }
+  }
+  if (r.abort !== undefined && typeof r.abort !== 'boolean') {
+    errors.push(`${prefix} "abort" must be a boolean`);
+  }
+  if (r.delayMs !== undefined && !isIntegerInRange(r.delayMs, 0, MAX_ROUTE_DELAY_MS)) {
+    errors.push(`${prefix} "delayMs" must be an integer from 0 to ${MAX_ROUTE_DELAY_MS}`);
+  }
+  if (r.headers !== undefined) {
+    errors.push(...validateHeaders(r.headers, prefix, 'headers'));
+  }
+  if (r.fulfill !== undefined) {
+    errors.push(...validateFulfillment(r.fulfill, prefix));
+  }
+  // A request is either answered here, dropped, or sent on; changed headers only matter when it is sent on
+  if (r.abort === true && (r.fulfill !== undefined || r.headers !== undefined)) {
+    errors.push(`${prefix} a route with "abort" cannot also set "fulfill" or "headers"`);
+  } else if (r.fulfill !== undefined && r.headers !== undefined) {
+    errors.push(`${prefix} route "headers" change the request sent on; use "fulfill.headers" for a fake response`);
+  }
+  if (r.fulfill === undefined && r.abort !== true && r.delayMs === undefined && r.headers === undefined) {
+    errors.push(`${prefix} route must set "fulfill", "abort", "delayMs" or "headers"`);
+  }
+  return errors;
+}
+
+function validateDialogPolicy(policy: unknown): string[] {
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+    return ['"dialogs" must be an object'];
+  }
+  const d = policy as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(d).filter((k) => !DIALOG_POLICY_KEYS.includes(k))) {
+    errors.push(`"dialogs" has unknown property "${key}"; it takes ${DIALOG_POLICY_KEYS.join(', ')}`);
+  }
+  if (!(DIALOG_ACTIONS as readonly unknown[]).includes(d.action)) {
+    errors.push(`"dialogs.action" must be one of ${DIALOG_ACTIONS.join(', ')}`);
+  }
+  if (d.promptText !== undefined) {
+    if (typeof d.promptText !== 'string') {
+      errors.push('"dialogs.promptText" must be a string');
+    } else if (d.action !== 'accept') {
+      errors.push('"dialogs.promptText" is only used when "dialogs.action" is "accept"');
+    }
+  }
+  return errors;
+}
+
+interface StepValidationContext {
+  enabledTools: string[];
+  subPlanNames: string[];
+  policy?: ExecutionPolicy;
+  /** Nesting depth of the list being validated; top-level steps are at 0. */
+  depth: number;
+}
+
+/**
+ * Validates a list of steps, including the nested steps of control-flow
+ * blocks. Labels show where a step sits, e.g. "Step 2.then.0".
+ */
+function validateStepList(steps: unknown, label: string, context: StepValidationContext): string[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return [`${label} must be a non-empty array of steps`];
+  }
+  const errors: string[] = [];
+  steps.forEach((step, i) => {
+    const stepLabel = `${label}.${i}`;
+    const stepErrors = validateStep(step, stepLabel, context);
+    const own = typeof step === 'object' && step !== null ? stepOwnFields(step as ActionStep) : step;
+    for (const placeholder of findMalformedPlaceholders(own)) {
+      stepErrors.push(`${stepLabel}: "${placeholder}" is not a valid placeholder; use \${{secrets.NAME}} or \${{vars.NAME}}`);
+    }
+    errors.push(...stepErrors);
+    if (stepErrors.length === 0 && context.policy) {
+      const check = checkStepPolicy(own as ActionStep, context.policy);
+      errors.push(...check.blocked.map((reason) => `${stepLabel}: policy violation: ${reason}`));
+    }
+  });
+  return errors;
+}
+
+function validateChildSteps(steps: unknown, label: string, context: StepValidationContext): string[] {
+  if (context.depth + 1 > MAX_NESTING_DEPTH) {
+    return [`${label}: blocks are nested more than ${MAX_NESTING_DEPTH} levels deep`];
+  }
+  return validateStepList(steps, label, { ...context, depth: context.depth + 1 });
 }
 
-function validateStep(step: unknown, index: number, enabledTools: string[]): string[] {
+function validateStep(step: unknown, label: string, context: StepValidationContext): string[] {
+  const prefix = `${label}:`;
+  const enabledTools = context.enabledTools;
   const errors: string[] = [];
   if (typeof step !== 'object' || step === null) {
-    return [`Step ${index}: must be an object`];
+    return [`${prefix} must be an object`];
   }
   const s = step as Record<string, unknown>;
   if (typeof s.action !== 'string') {
-    errors.push(`Step ${index}: "action" must be a string`);
+    errors.push(`${prefix} "action" must be a string`);
     return errors;
   }
   const action = s.action;
   if (!enabledTools.includes(action)) {
-    errors.push(`Step ${index}: action "${action}" is not in the enabled tools list`);
+    errors.push(`${prefix} action "${action}" is not in the enabled tools list`);
     return errors;
   }
+  if (CONTROL_ACTIONS.includes(action)) {
+    const timingKeys = STEP_TIMING_KEYS.filter((key) => s[key] !== undefined);
+    if (timingKeys.length > 0) {
+      errors.push(`${prefix} "${action}" blocks do not take ${timingKeys.map((k) => `"${k}"`).join(', ')}; set them on the steps inside`);
+    }
+  } else {
+    errors.push(...validateStepTiming(s, prefix));
+  }
+  if (s.saveAs !== undefined) {
+    errors.push(
+      ...(SAVE_AS_ACTIONS.includes(action)
+        ? validateVariableName(s.saveAs, prefix, 'saveAs')
+        : [`${prefix} "${action}" has no value to store; "saveAs" only works on ${SAVE_AS_ACTIONS.map((a) => `"${a}"`).join(', ')}`])
+    );
+  }
   switch (action) {
     case 'goto':
       if (typeof s.url !== 'string' || !s.url) {
-        errors.push(`Step ${index}: "goto" requires a non-empty "url" string`);
+        errors.push(`${prefix} "goto" requires a non-empty "url" string`);
       }
       break;
     case 'clickText':
       if (typeof s.text !== 'string' || !s.text) {
-        errors.push(`Step ${index}: "clickText" requires a non-empty "text" string`);
+        errors.push(`${prefix} "clickText" requires a non-empty "text" string`);
       }
       break;
     case 'type':
-      if (typeof s.selector !== 'string' || !s.selector) {
-        errors.push(`Step ${index}: "type" requires a non-empty "selector" string`);
-      }
+      errors.push(...validateTarget(s, prefix, action));
       if (typeof s.value !== 'string') {
-        errors.push(`Step ${index}: "type" requires a "value" string`);
+        errors.push(`${prefix} "type" requires a "value" string`);
       }
       break;
     case 'waitForText':
       if (typeof s.text !== 'string' || !s.text) {
-        errors.push(`Step ${index}: "waitForText" requires a non-empty "text" string`);
+        errors.push(`${prefix} "waitForText" requires a non-empty "text" string`);
       }
       break;
     case 'extractText':
-      if (typeof s.selector !== 'string' || !s.selector) {
-        errors.push(`Step ${index}: "extractText" requires a non-empty "selector" string`);
-      }
+      errors.push(...validateTarget(s, prefix, action));
       break;
     case 'snapshotText':
     case 'closeBrowser':
@@ -72,18 +756,224 @@ function validateStep(step: unknown, index: number, enabledTools: string[]): str
       break;
     case 'screenshot':
       if (typeof s.name !== 'string' || !s.name) {
-        errors.push(`Step ${index}: "screenshot" requires a non-empty "name" string`);
+        errors.push(`${prefix} "screenshot" requires a non-empty "name" string`);
+      }
+      break;
+    case 'click':
+    case 'check':
+    case 'uncheck':
+    case 'hover':
+    case 'scrollIntoView':
+      errors.push(...validateTarget(s, prefix, action));
+      break;
+    case 'selectOption':
+      errors.push(...validateTarget(s, prefix, action));
+      if (s.value !== undefined && s.values !== undefined) {
+        errors.push(`${prefix} "selectOption" takes either "value" or "values", not both`);
+      } else if (s.values !== undefined) {
+        if (!Array.isArray(s.values) || s.values.length === 0 || !s.values.every((v) => typeof v === 'string')) {
+          errors.push(`${prefix} "selectOption" "values" must be a non-empty array of strings`);
+        }
+      } else if (typeof s.value !== 'string') {
+        errors.push(`${prefix} "selectOption" requires a "value" string or a "values" array`);
+      }
+      break;
+    case 'press':
+      if (typeof s.key !== 'string' || !s.key) {
+        errors.push(`${prefix} "press" requires a non-empty "key" string`);
+      }
+      // The target is optional: without one the key goes to the focused element
+      if (s.selector !== undefined || s.locator !== undefined) {
+        errors.push(...validateTarget(s, prefix, action));
+      }
+      break;
+    case 'setInputFiles':
+      errors.push(...validateTarget(s, prefix, action));
+      if (!Array.isArray(s.files) || s.files.length === 0) {
+        errors.push(`${prefix} "setInputFiles" requires a non-empty "files" array`);
+      } else {
+        for (const file of s.files) {
+          if (typeof file !== 'string' || !isWorkspaceRelativePath(file)) {
+            errors.push(`${prefix} "setInputFiles" file ${JSON.stringify(file)} must be a path relative to the workspace`);
+          }
+        }
+      }
+      break;
+    case 'expectText':
+      if (typeof s.text !== 'string' || !s.text) {
+        errors.push(`${prefix} "expectText" requires a non-empty "text" string`);
+      }
+      // Without a target the whole page body is checked
+      if (s.selector !== undefined || s.locator !== undefined) {
+        errors.push(...validateTarget(s, prefix, action));
+      }
+      break;
+    case 'expectVisible':
+      errors.push(...validateTarget(s, prefix, action));
+      if (s.visible !== undefined && typeof s.visible !== 'boolean') {
+        errors.push(`${prefix} "expectVisible" "visible" must be a boolean`);
+      }
+      break;
+    case 'expectUrl':
+      if (typeof s.url !== 'string' || !s.url) {
+        errors.push(`${prefix} "expectUrl" requires a non-empty "url" string`);
+      }
+      break;
+    case 'expectTitle':
+      if (typeof s.text !== 'string' || !s.text) {
+        errors.push(`${prefix} "expectTitle" requires a non-empty "text" string`);
+      }
+      break;
+    case 'expectCount':
+      errors.push(...validateTarget(s, prefix, action));
+      if (typeof s.count !== 'number' || !Number.isInteger(s.count) || s.count < 0) {
+        errors.push(`${prefix} "expectCount" requires a non-negative integer "count"`);
+      }
+      break;
+    case 'expectAttribute':
+      errors.push(...validateTarget(s, prefix, action));
+      if (typeof s.attribute !== 'string' || !s.attribute) {
+        errors.push(`${prefix} "expectAttribute" requires a non-empty "attribute" string`);
+      }
+      if (typeof s.value !== 'string') {
+        errors.push(`${prefix} "expectAttribute" requires a "value" string`);
+      }
+      break;
+    case 'extractList':
+      if (typeof s.rowSelector !== 'string' || !s.rowSelector) {
+        errors.push(`${prefix} "extractList" requires a non-empty "rowSelector" string`);
+      }
+      errors.push(...validateFields(s.fields, prefix, action));
+      errors.push(...validateExtraction(s, prefix));
+      break;
+    case 'extractTable':
+      errors.push(...validateTarget(s, prefix, action));
+      // Without fields every column becomes a field named after its header
+      if (s.fields !== undefined) {
+        errors.push(...validateFields(s.fields, prefix, action));
+      }
+      errors.push(...validateExtraction(s, prefix));
+      break;
+    case 'observe':
+      if (
+        s.maxTokens !== undefined &&
+        (typeof s.maxTokens !== 'number' ||
+          !Number.isInteger(s.maxTokens) ||
+          s.maxTokens < MIN_OBSERVE_TOKENS ||
+          s.maxTokens > MAX_OBSERVE_TOKENS)
+      ) {
+        errors.push(`${prefix} "observe" "maxTokens" must be an integer from ${MIN_OBSERVE_TOKENS} to ${MAX_OBSERVE_TOKENS}`);
+      }
+      break;
+    case 'if':
+      errors.push(...validateCondition(s.condition, prefix));
+      errors.push(...validateChildSteps(s.then, `${label}.then`, context));
+      if (s.else !== undefined) {
+        errors.push(...validateChildSteps(s.else, `${label}.else`, context));
+      }
+      break;
+    case 'forEach':
+      if (s.items !== undefined) {
+        if (s.selector !== undefined || s.locator !== undefined) {
+          errors.push(`${prefix} "forEach" takes either "items" or a "selector"/"locator", not both`);
+        } else if (
+          !Array.isArray(s.items) ||
+          s.items.length === 0 ||
+          s.items.length > MAX_FOREACH_ITEMS ||
+          !s.items.every((item) => typeof item === 'string')
+        ) {
+          errors.push(`${prefix} "forEach" "items" must be an array of 1 to ${MAX_FOREACH_ITEMS} strings`);
+        }
+      } else {
+        errors.push(...validateTarget(s, prefix, action));
+        if (s.attribute !== undefined && (typeof s.attribute !== 'string' || !s.attribute)) {
+          errors.push(`${prefix} "forEach" "attribute" must be a non-empty string`);
+        }
+      }
+      if (s.as !== undefined) {
+        errors.push(...validateVariableName(s.as, prefix, 'as'));
+      }
+      if (s.maxItems !== undefined && !isIntegerInRange(s.maxItems, 1, MAX_FOREACH_ITEMS)) {
+        errors.push(`${prefix} "forEach" "maxItems" must be an integer from 1 to ${MAX_FOREACH_ITEMS}`);
+      }
+      errors.push(...validateChildSteps(s.steps, `${label}.steps`, context));
+      break;
+    case 'retry':
+      if (!isIntegerInRange(s.attempts, 2, MAX_RETRY_ATTEMPTS)) {
+        errors.push(`${prefix} "retry" requires an integer "attempts" from 2 to ${MAX_RETRY_ATTEMPTS}`);
+      }
+      if (s.delayMs !== undefined && !isIntegerInRange(s.delayMs, 0, MAX_RETRY_DELAY_MS)) {
+        errors.push(`${prefix} "retry" "delayMs" must be an integer from 0 to ${MAX_RETRY_DELAY_MS}`);
+      }
+      errors.push(...validateChildSteps(s.steps, `${label}.steps`, context));
+      break;
+    case 'call':
+      if (typeof s.subPlan !== 'string' || !context.subPlanNames.includes(s.subPlan)) {
+        errors.push(`${prefix} "call" requires a "subPlan" defined in the plan's "subPlans"`);
+      }
+      if (s.with !== undefined) {
+        if (typeof s.with !== 'object' || s.with === null || Array.isArray(s.with)) {
+          errors.push(`${prefix} "call" "with" must map variable names to strings`);
+        } else {
+          for (const [name, value] of Object.entries(s.with)) {
+            errors.push(...validateVariableName(name, prefix, `with.${name}`));
+            if (typeof value !== 'string') {
+              errors.push(`${prefix} "with.${name}" must be a string`);
+            }
+          }
+        }
+      }
+      break;
+    case 'route':
+      errors.push(...validateRouteRule(s.rule, prefix));
+      break;
+    case 'unroute':
+      if (typeof s.url !== 'string' || !s.url) {
+        errors.push(`${prefix} "unroute" requires the "url" glob of a route added earlier`);
+      }
+      break;
+    case 'waitForResponse':
+      if (typeof s.url !== 'string' || !s.url) {
+        errors.push(`${prefix} "waitForResponse" requires a non-empty "url" glob`);
+      }
+      if (s.method !== undefined) {
+        errors.push(...validateMethod(s.method, prefix, 'method'));
+      }
+      if (s.status !== undefined && !isIntegerInRange(s.status, 100, 599)) {
+        errors.push(`${prefix} "waitForResponse" "status" must be an HTTP status from 100 to 599`);
+      }
+      break;
+    case 'listTabs':
+    case 'waitForPopup':
+      // no extra fields required
+      break;
+    case 'switchTab':
+      if ((s.tab === undefined) === (s.url === undefined)) {
+        errors.push(`${prefix} "switchTab" requires either a "tab" index or a "url" substring`);
+      } else if (s.tab !== undefined && !isIntegerInRange(s.tab, 0, Number.MAX_SAFE_INTEGER)) {
+        errors.push(`${prefix} "switchTab" "tab" must be a non-negative integer`);
+      } else if (s.url !== undefined && (typeof s.url !== 'string' || !s.url)) {
+        errors.push(`${prefix} "switchTab" "url" must be a non-empty string`);
+      }
+      break;
+    case 'switchFrame':
+      // Without a selector, later steps go back to the tab's top-level page
+      if (s.locator !== undefined) {
+        errors.push(`${prefix} "switchFrame" takes the CSS "selector" of an iframe, not a "locator"`);
+      } else if (s.selector !== undefined && (typeof s.selector !== 'string' || !s.selector)) {
+        errors.push(`${prefix} "switchFrame" "selector" must be a non-empty string`);
       }
       break;
     default:
-      errors.push(`Step ${index}: unknown action "${action}"`);
+      errors.push(`${prefix} unknown action "${action}"`);
   }
   return errors;
 }
 
 export function validateActionPlan(
   raw: unknown,
-  enabledTools: string[]
+  enabledTools: string[],
+  options: ValidationOptions = {}
 ): { valid: boolean; errors: string[]; plan?: ActionPlan } {
   const errors: string[] = [];
 
@@ -97,9 +987,57 @@ export function validateActionPlan(
     return { valid: false, errors: ['"steps" must be an array'] };
   }
 
-  for (let i = 0; i < obj.steps.length; i++) {
-    const stepErrors = validateStep(obj.steps[i], i, enabledTools);
-    errors.push(...stepErrors);
+  if (obj.defaults !== undefined) {
+    if (typeof obj.defaults !== 'object' || obj.defaults === null || Array.isArray(obj.defaults)) {
+      errors.push('"defaults" must be an object');
+    } else {
+      const unknownKeys = Object.keys(obj.defaults).filter((key) => !(STEP_TIMING_KEYS as readonly string[]).includes(key));
+      if (unknownKeys.length > 0) {
+        errors.push(`"defaults" only takes ${STEP_TIMING_KEYS.join(', ')}; got ${unknownKeys.join(', ')}`);
+      }
+      errors.push(...validateStepTiming(obj.defaults as Record<string, unknown>, 'Plan defaults:'));
+    }
+  }
+  if (obj.deadlineMs !== undefined && !isIntegerInRange(obj.deadlineMs, MIN_RUN_DEADLINE_MS, MAX_RUN_DEADLINE_MS)) {
+    errors.push(`"deadlineMs" must be an integer from ${MIN_RUN_DEADLINE_MS} to ${MAX_RUN_DEADLINE_MS}`);
+  }
+  if (obj.onFailure !== undefined && !(FAILURE_POLICIES as readonly unknown[]).includes(obj.onFailure)) {
+    errors.push(`"onFailure" must be one of ${FAILURE_POLICIES.join(', ')}`);
+  }
+  if (obj.routes !== undefined) {
+    if (!enabledTools.includes('route')) {
+      errors.push('"routes" requires the "route" tool to be enabled');
+    } else if (!Array.isArray(obj.routes) || obj.routes.length > MAX_PLAN_ROUTES) {
+      errors.push(`"routes" must be an array of at most ${MAX_PLAN_ROUTES} route rules`);
+    } else {
+      obj.routes.forEach((rule, i) => errors.push(...validateRouteRule(rule, `Route ${i}:`)));
+    }
+  }
+  if (obj.dialogs !== undefined) {
+    errors.push(...validateDialogPolicy(obj.dialogs));
+  }
+
+  let subPlans: Record<string, unknown> = {};
+  if (obj.subPlans !== undefined) {
+    if (typeof obj.subPlans !== 'object' || obj.subPlans === null || Array.isArray(obj.subPlans)) {
+      return { valid: false, errors: ['"subPlans" must map sub-plan names to step arrays'] };
+    }
+    subPlans = obj.subPlans as Record<string, unknown>;
+  }
+  const context: StepValidationContext = {
+    enabledTools,
+    subPlanNames: Object.keys(subPlans),
+    policy: options.policy,
+    depth: 0,
+  };
+
+  if (obj.steps.length > 0) {
+    // Top-level labels stay "Step 0", "Step 1", ...
+    errors.push(...validateStepList(obj.steps, 'Step', context).map((e) => e.replace(/^Step\./, 'Step ')));
+  }
+  for (const [name, steps] of Object.entries(subPlans)) {
+    errors.push(...validateVariableName(name, `Sub-plan "${name}":`, 'name').map((e) => e.replace('"name"', 'its name')));
+    errors.push(...validateStepList(steps, `Sub-plan "${name}" step`, context).map((e) => e.replace(/ step\./, ' step ')));
   }
 
   if (errors.length > 0) {
@@ -107,5 +1045,103 @@ export function validateActionPlan(
   }
 
   const plan: ActionPlan = { steps: obj.steps as ActionStep[] };
+  if (obj.subPlans !== undefined) {
+    plan.subPlans = subPlans as Record<string, ActionStep[]>;
+  }
+  if (obj.defaults !== undefined) {
+    plan.defaults = obj.defaults as StepTiming;
+  }
+  if (obj.deadlineMs !== undefined) {
+    plan.deadlineMs = obj.deadlineMs as number;
+  }
+  if (obj.onFailure !== undefined) {
+    plan.onFailure = obj.onFailure as FailurePolicy;
+  }
+  if (obj.routes !== undefined) {
+    plan.routes = obj.routes as RouteRule[];
+  }
+  if (obj.dialogs !== undefined) {
+    plan.dialogs = obj.dialogs as DialogPolicy;
+  }
+  errors.push(...checkPlanLimits(plan));
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
   return { valid: true, errors: [], plan };
 }
+
+interface BlockBounds {
+  /** Most step runs the block can take, counting loop iterations and retry attempts. */
+  executions: number;
+  /** Deepest block nesting, counting through sub-plan calls. */
+  depth: number;
+}
+
+/**
+ * Worst-case cost of running a step list. Throws when sub-plans call each
+ * other in a cycle, which would never end.
+ */
+function blockBounds(steps: ActionStep[], plan: ActionPlan, callStack: string[]): BlockBounds {
+  let executions = 0;
+  let depth = 0;
+  for (const step of steps) {
+    let inner: BlockBounds = { executions: 0, depth: -1 };
+    let repeat = 1;
+    // Leaf steps run once more for each retry
+    const attempts = CONTROL_ACTIONS.includes(step.action) ? 1 : (step.retries ?? plan.defaults?.retries ?? 0) + 1;
+    switch (step.action) {
+      case 'if': {
+        const thenBounds = blockBounds(step.then ?? [], plan, callStack);
+        const elseBounds = blockBounds(step.else ?? [], plan, callStack);
+        inner = {
+          executions: Math.max(thenBounds.executions, elseBounds.executions),
+          depth: Math.max(thenBounds.depth, elseBounds.depth),
+        };
+        break;
+      }
+      case 'forEach':
+        inner = blockBounds(step.steps ?? [], plan, callStack);
+        repeat = step.items?.length ?? step.maxItems ?? DEFAULT_FOREACH_ITEMS;
+        break;
+      case 'retry':
+        inner = blockBounds(step.steps ?? [], plan, callStack);
+        repeat = step.attempts ?? 1;
+        break;
+      case 'call': {
+        const name = step.subPlan!;
+        if (callStack.includes(name)) {
+          throw new Error(`Sub-plan "${name}" calls itself through ${[...callStack, name].map((n) => `"${n}"`).join(' -> ')}`);
+        }
+        inner = blockBounds(plan.subPlans?.[name] ?? [], plan, [...callStack, name]);
+        break;
+      }
+    }
+    executions += attempts + repeat * inner.executions;
+    depth = Math.max(depth, inner.depth + 1);
+  }
+  return { executions, depth };
+}
+
+/** Checks nesting depth, sub-plan cycles and the total number of step runs a plan can take. */
+function checkPlanLimits(plan: ActionPlan): string[] {
+  let bounds: BlockBounds;
+  try {
+    bounds = blockBounds(plan.steps, plan, []);
+    for (const name of Object.keys(plan.subPlans ?? {})) {
+      blockBounds(plan.subPlans![name], plan, [name]);
+    }
+  } catch (err) {
+    return [err instanceof Error ? err.message : String(err)];
+  }
+  const errors: string[] = [];
+  if (bounds.depth > MAX_NESTING_DEPTH) {
+    errors.push(`Blocks are nested ${bounds.depth} levels deep counting sub-plan calls; the limit is ${MAX_NESTING_DEPTH}`);
+  }
+  if (bounds.executions > MAX_STEP_EXECUTIONS) {
+    errors.push(
+      `The plan could run up to ${bounds.executions} steps counting loop items, retry attempts and step retries; ` +
+        `the limit is ${MAX_STEP_EXECUTIONS}. Lower "maxItems", "attempts" or "retries".`
+    );
+  }
+  return errors;
+}
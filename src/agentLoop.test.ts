@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { runAgentLoop, AgentLoopOptions, AgentEvent } from './agentLoop';
+import { AVAILABLE_TOOLS, ActionPlan } from './actionDsl';
+import { ExecutionResult } from './playwrightRunner';
+
+function scripted(
+  responses: string[],
+  execute: (plan: ActionPlan) => ExecutionResult[] = (plan) =>
+    plan.steps.map((s) => ({ action: s.action, success: true }))
+): { options: AgentLoopOptions; feedback: (string | undefined)[]; events: AgentEvent[] } {
+  const feedback: (string | undefined)[] = [];
+  const events: AgentEvent[] = [];
+  const options: AgentLoopOptions = {
+    maxIterations: 5,
+    enabledTools: [...AVAILABLE_TOOLS],
+    askModel: async (f) => {
+      feedback.push(f);
+      const next = responses.shift();
+      assert.ok(next !== undefined, 'model asked more times than scripted');
+      return next;
+    },
+    executePlan: async (plan) => execute(plan),
+    observe: async () => 'URL: https://example.com',
+    onEvent: (e) => events.push(e),
+  };
+  return { options, feedback, events };
+}
+
+describe('runAgentLoop', () => {
+  it('executes plans until the model reports done', async () => {
+    const { options, feedback } = scripted([
+      '{"steps":[{"action":"goto","url":"https://example.com"}]}',
+      '{"done":true,"summary":"Opened the page"}',
+    ]);
+    const outcome = await runAgentLoop(options);
+    assert.deepEqual(outcome, { status: 'done', summary: 'Opened the page' });
+    assert.equal(feedback[0], undefined);
+    assert.ok(feedback[1]!.includes('goto: success'));
+    assert.ok(feedback[1]!.includes('URL: https://example.com'));
+  });
+
+  it('reports failures so the model can replan', async () => {
+    const { options, feedback } = scripted(
+      [
+        '{"steps":[{"action":"clickText","text":"Checkout"}]}',
+        '{"done":true,"summary":"gave up"}',
+      ],
+      () => [{ action: 'clickText', success: false, error: 'Timeout' }]
+    );
+    await runAgentLoop(options);
+    assert.ok(feedback[1]!.includes('FAILED'));
+    assert.ok(feedback[1]!.includes('Timeout'));
+  });
+
+  it('feeds validation errors back instead of executing', async () => {
+    let executed = 0;
+    const { options, feedback, events } = scripted(
+      ['{"steps":[{"action":"goto"}]}', '{"done":true,"summary":"ok"}'],
+      () => {
+        executed++;
+        return [];
+      }
+    );
+    await runAgentLoop(options);
+    assert.equal(executed, 0);
+    assert.ok(events.some((e) => e.type === 'invalidPlan'));
+    assert.ok(feedback[1]!.includes('invalid'));
+  });
+
+  it('stops at the iteration limit', async () => {
+    const plan = '{"steps":[{"action":"snapshotText"}]}';
+    const { options } = scripted([plan, plan, plan]);
+    options.maxIterations = 3;
+    const outcome = await runAgentLoop(options);
+    assert.deepEqual(outcome, { status: 'limitReached', iterations: 3 });
+  });
+
+  it('returns clarification questions to the user', async () => {
+    const { options } = scripted(['{"clarification":"Which account?"}']);
+    const outcome = await runAgentLoop(options);
+    assert.deepEqual(outcome, { status: 'clarification', text: 'Which account?' });
+  });
+
+  it('runs only the first step when replanning after each step', async () => {
+    const executedPlans: ActionPlan[] = [];
+    const { options } = scripted(
+      [
+        '{"steps":[{"action":"goto","url":"https://example.com"},{"action":"snapshotText"}]}',
+        '{"done":true,"summary":"ok"}',
+      ],
+      (plan) => {
+        executedPlans.push(plan);
+        return [];
+      }
+    );
+    options.replanAfterEachStep = true;
+    await runAgentLoop(options);
+    assert.equal(executedPlans[0].steps.length, 1);
+  });
+
+  it('stops when the user rejects a plan and runs edited plans', async () => {
+    const executedPlans: ActionPlan[] = [];
+    const { options } = scripted(
+      ['{"steps":[{"action":"goto","url":"https://example.com"}]}', '{"steps":[{"action":"snapshotText"}]}'],
+      (plan) => {
+        executedPlans.push(plan);
+        return [];
+      }
+    );
+    let reviews = 0;
+    options.reviewPlan = async (plan) => {
+      reviews++;
+      return reviews === 1 ? { steps: [...plan.steps, { action: 'snapshotText' }] } : undefined;
+    };
+    const outcome = await runAgentLoop(options);
+    assert.deepEqual(outcome, { status: 'rejected' });
+    assert.equal(executedPlans.length, 1);
+    assert.equal(executedPlans[0].steps.length, 2);
+  });
+
+  it('stops without observing or asking again once cancelled', async () => {
+    let cancelled = false;
+    const { options, feedback, events } = scripted(
+      ['{"steps":[{"action":"goto","url":"https://example.com"}]}', '{"done":true,"summary":"never"}'],
+      (plan) => {
+        cancelled = true;
+        return plan.steps.map((s) => ({ action: s.action, success: false, skipped: true, error: 'Stopped by user' }));
+      }
+    );
+    options.isCancelled = () => cancelled;
+    const outcome = await runAgentLoop(options);
+    assert.deepEqual(outcome, { status: 'cancelled' });
+    assert.equal(feedback.length, 1);
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ['iteration', 'plan', 'results']
+    );
+  });
+});
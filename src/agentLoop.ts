@@ -0,0 +1,99 @@
+import { ActionPlan, ValidationOptions, validateActionPlan } from './actionDsl';
+import { ExecutionResult } from './playwrightRunner';
+import { parseModelResponse } from './modelResponse';
+import { summarizeResult } from './conversation';
+
+export type AgentEvent =
+  | { type: 'iteration'; iteration: number; maxIterations: number }
+  | { type: 'plan'; plan: ActionPlan }
+  | { type: 'invalidPlan'; errors: string[] }
+  | { type: 'results'; results: ExecutionResult[] }
+  | { type: 'observation'; text: string };
+
+export type AgentOutcome =
+  | { status: 'done'; summary: string }
+  | { status: 'clarification'; text: string }
+  | { status: 'limitReached'; iterations: number }
+  | { status: 'rejected' }
+  | { status: 'cancelled' };
+
+export interface AgentLoopOptions {
+  maxIterations: number;
+  enabledTools: string[];
+  validationOptions?: ValidationOptions;
+  /** Run only the first step of each plan before observing and replanning. */
+  replanAfterEachStep?: boolean;
+  /** Asks the model for the next steps. `feedback` describes what happened since the previous call. */
+  askModel(feedback: string | undefined): Promise<string>;
+  /** Lets the user review, edit or reject each plan before it runs. Returns undefined on rejection. */
+  reviewPlan?(plan: ActionPlan): Promise<ActionPlan | undefined>;
+  /** Executes a plan, stopping at the first failed step. */
+  executePlan(plan: ActionPlan): Promise<ExecutionResult[]>;
+  /** Describes the current page state for the model. */
+  observe(): Promise<string>;
+  onEvent(event: AgentEvent): void;
+  /** Reports whether the user stopped the run; checked before each model call and after each plan. */
+  isCancelled?(): boolean;
+}
+
+/**
+ * Observe-plan-act loop: the model proposes steps, the runner executes them,
+ * and the resulting page observation is fed back until the model reports the
+ * goal as achieved, asks for clarification, or the iteration limit is hit.
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentOutcome> {
+  let feedback: string | undefined;
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    if (options.isCancelled?.()) {
+      return { status: 'cancelled' };
+    }
+    options.onEvent({ type: 'iteration', iteration, maxIterations: options.maxIterations });
+    const response = parseModelResponse(await options.askModel(feedback));
+
+    if (response.kind === 'done') {
+      return { status: 'done', summary: response.summary };
+    }
+    if (response.kind === 'clarification') {
+      return { status: 'clarification', text: response.text };
+    }
+
+    const validation = validateActionPlan(response.raw, options.enabledTools, options.validationOptions);
+    if (!validation.valid || !validation.plan) {
+      options.onEvent({ type: 'invalidPlan', errors: validation.errors });
+      feedback = `Your last plan was invalid:\n${validation.errors.join('\n')}\nReturn a corrected plan.`;
+      continue;
+    }
+
+    let plan = validation.plan;
+    if (options.replanAfterEachStep && plan.steps.length > 1) {
+      plan = { ...plan, steps: plan.steps.slice(0, 1) };
+    }
+    if (options.reviewPlan) {
+      const reviewed = await options.reviewPlan(plan);
+      if (!reviewed) {
+        return { status: 'rejected' };
+      }
+      plan = reviewed;
+    }
+    options.onEvent({ type: 'plan', plan });
+
+    const results = await options.executePlan(plan);
+    options.onEvent({ type: 'results', results });
+    if (options.isCancelled?.()) {
+      return { status: 'cancelled' };
+    }
+
+    const observation = await options.observe();
+    options.onEvent({ type: 'observation', text: observation });
+
+    const failed = results.some((r) => !r.success);
+    feedback =
+      `Executed steps:\n${results.map(summarizeResult).join('\n')}\n` +
+      (failed ? 'A step FAILED; the remaining steps were not run. Adjust the plan to recover.\n' : '') +
+      `Current page:\n${observation}\n` +
+      'Return the next steps, or { "done": true, "summary": "..." } if the goal is achieved.';
+  }
+
+  return { status: 'limitReached', iterations: options.maxIterations };
+}
@@ -0,0 +1,89 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  cleanupRuns,
+  formatArtifactList,
+  isEmptyRun,
+  isInsideDirectory,
+  listRunArtifacts,
+  runDirectory,
+} from './artifacts';
+
+describe('runDirectory', () => {
+  it('names run folders after their start time', () => {
+    const dir = runDirectory('/runs', new Date('2026-03-04T05:06:07.089Z'));
+    assert.match(path.basename(dir), /^run-2026-03-04T05-06-07-089Z-[a-z0-9]+$/);
+    assert.equal(path.dirname(dir), '/runs');
+  });
+});
+
+describe('isInsideDirectory', () => {
+  it('accepts files below the root only', () => {
+    assert.equal(isInsideDirectory('/runs', '/runs/run-1/trace.zip'), true);
+    assert.equal(isInsideDirectory('/runs', '/runs/../etc/passwd'), false);
+    assert.equal(isInsideDirectory('/runs', '/runs'), false);
+    assert.equal(isInsideDirectory('/runs', '/runs-other/file'), false);
+  });
+});
+
+describe('run folders', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'runs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function makeRun(name: string, ageDays: number): Promise<string> {
+    const dir = path.join(root, name);
+    await fs.mkdir(dir);
+    const time = new Date(Date.now() - ageDays * 24 * 60 * 60 * 1000);
+    await fs.utimes(dir, time, time);
+    return dir;
+  }
+
+  it('lists the recorded files by kind', async () => {
+    const dir = path.join(root, 'run-a');
+    await fs.mkdir(dir);
+    for (const file of ['trace.zip', 'network.har', 'b.webm', 'login.png', 'notes.txt']) {
+      await fs.writeFile(path.join(dir, file), '');
+    }
+    const artifacts = await listRunArtifacts(dir);
+    assert.equal(artifacts.trace, path.join(dir, 'trace.zip'));
+    assert.equal(artifacts.har, path.join(dir, 'network.har'));
+    assert.deepEqual(artifacts.videos, [path.join(dir, 'b.webm')]);
+    assert.deepEqual(artifacts.screenshots, [path.join(dir, 'login.png')]);
+    assert.match(formatArtifactList(artifacts), /- Trace: .*trace\.zip/);
+  });
+
+  it('treats a folder that was never created as an empty run', async () => {
+    assert.equal(isEmptyRun(await listRunArtifacts(path.join(root, 'run-missing'))), true);
+  });
+
+  it('deletes runs beyond the age limit', async () => {
+    await makeRun('run-old', 10);
+    const recent = await makeRun('run-recent', 1);
+    const deleted = await cleanupRuns(root, { maxAgeDays: 7, maxRuns: 0 });
+    assert.deepEqual(deleted, [path.join(root, 'run-old')]);
+    assert.deepEqual(await fs.readdir(root), [path.basename(recent)]);
+  });
+
+  it('keeps only the newest runs and ignores other folders', async () => {
+    await makeRun('run-1', 3);
+    await makeRun('run-2', 2);
+    await makeRun('run-3', 1);
+    await makeRun('auth-profiles', 30);
+    await cleanupRuns(root, { maxAgeDays: 0, maxRuns: 2 });
+    assert.deepEqual((await fs.readdir(root)).sort(), ['auth-profiles', 'run-2', 'run-3']);
+  });
+
+  it('does nothing when the root does not exist', async () => {
+    assert.deepEqual(await cleanupRuns(path.join(root, 'missing'), { maxAgeDays: 1, maxRuns: 1 }), []);
+  });
+});
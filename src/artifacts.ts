@@ -0,0 +1,133 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/** Which Playwright recordings to capture for a run. */
+export interface RecordingOptions {
+  trace: boolean;
+  video: boolean;
+  har: boolean;
+}
+
+export const NO_RECORDING: RecordingOptions = { trace: false, video: false, har: false };
+
+/** Files a run left in its folder. All paths are absolute. */
+export interface RunArtifacts {
+  dir: string;
+  trace?: string;
+  videos: string[];
+  har?: string;
+  screenshots: string[];
+}
+
+export interface RetentionOptions {
+  /** Delete run folders older than this many days. 0 keeps them regardless of age. */
+  maxAgeDays: number;
+  /** Keep at most this many run folders. 0 means no limit. */
+  maxRuns: number;
+}
+
+export const TRACE_FILE = 'trace.zip';
+export const HAR_FILE = 'network.har';
+const RUN_DIR_PREFIX = 'run-';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function hasRecording(options: RecordingOptions): boolean {
+  return options.trace || options.video || options.har;
+}
+
+/**
+ * Path for a new run folder, named after its start time so folders sort
+ * chronologically. The folder itself is created by whoever writes to it first.
+ */
+export function runDirectory(root: string, startedAt = new Date()): string {
+  const stamp = startedAt.toISOString().replace(/[:.]/g, '-');
+  const suffix = Math.random().toString(36).slice(2, 6);
+  return path.join(root, `${RUN_DIR_PREFIX}${stamp}-${suffix}`);
+}
+
+/** Lists what a run recorded. A folder that was never created has no artifacts. */
+export async function listRunArtifacts(dir: string): Promise<RunArtifacts> {
+  const artifacts: RunArtifacts = { dir, videos: [], screenshots: [] };
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(dir)).sort();
+  } catch {
+    return artifacts;
+  }
+  for (const entry of entries) {
+    const file = path.join(dir, entry);
+    if (entry === TRACE_FILE) {
+      artifacts.trace = file;
+    } else if (entry === HAR_FILE) {
+      artifacts.har = file;
+    } else if (entry.endsWith('.webm')) {
+      artifacts.videos.push(file);
+    } else if (entry.endsWith('.png')) {
+      artifacts.screenshots.push(file);
+    }
+  }
+  return artifacts;
+}
+
+export function isEmptyRun(artifacts: RunArtifacts): boolean {
+  return !artifacts.trace && !artifacts.har && artifacts.videos.length === 0 && artifacts.screenshots.length === 0;
+}
+
+/** Markdown list of a run's files, for the results export. */
+export function formatArtifactList(artifacts: RunArtifacts): string {
+  const lines = [`- Folder: \`${artifacts.dir}\``];
+  if (artifacts.trace) {
+    lines.push(`- Trace: \`${artifacts.trace}\` (open with \`npx playwright show-trace\`)`);
+  }
+  for (const video of artifacts.videos) {
+    lines.push(`- Video: \`${video}\``);
+  }
+  if (artifacts.har) {
+    lines.push(`- HAR: \`${artifacts.har}\``);
+  }
+  for (const screenshot of artifacts.screenshots) {
+    lines.push(`- Screenshot: \`${screenshot}\``);
+  }
+  return lines.join('\n');
+}
+
+/** True when `file` lies inside `root`, so paths coming back from the webview cannot escape it. */
+export function isInsideDirectory(root: string, file: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(file));
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Deletes run folders that are older than the retention age or beyond the
+ * maximum count, oldest first. Returns the deleted folders.
+ */
+export async function cleanupRuns(root: string, retention: RetentionOptions, now = new Date()): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(root);
+  } catch {
+    return [];
+  }
+  const runs: { dir: string; modified: number }[] = [];
+  for (const entry of entries.filter((e) => e.startsWith(RUN_DIR_PREFIX))) {
+    const dir = path.join(root, entry);
+    const stat = await fs.stat(dir);
+    if (stat.isDirectory()) {
+      runs.push({ dir, modified: stat.mtimeMs });
+    }
+  }
+  runs.sort((a, b) => b.modified - a.modified);
+
+  const deleted: string[] = [];
+  runs.forEach((run, index) => {
+    const tooOld = retention.maxAgeDays > 0 && now.getTime() - run.modified > retention.maxAgeDays * DAY_MS;
+    const tooMany = retention.maxRuns > 0 && index >= retention.maxRuns;
+    if (tooOld || tooMany) {
+      deleted.push(run.dir);
+    }
+  });
+  for (const dir of deleted) {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+  return deleted;
+}
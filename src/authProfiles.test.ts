@@ -0,0 +1,106 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuthProfile,
+  AuthProfileStore,
+  StorageState,
+  profileExpiryWarning,
+  profileStatus,
+  storageStateExpiry,
+  validateProfileName,
+} from './authProfiles';
+
+function cookie(name: string, domain: string, expires: number): StorageState['cookies'][number] {
+  return { name, value: 'v', domain, path: '/', expires, httpOnly: true, secure: true, sameSite: 'Lax' };
+}
+
+const state: StorageState = {
+  cookies: [cookie('session', '.example.com', -1), cookie('auth', 'app.example.com', 2_000_000_000)],
+  origins: [{ origin: 'https://app.example.com', localStorage: [{ name: 'token', value: 't' }] }],
+};
+
+function profile(expiresAt?: string): AuthProfile {
+  return { name: 'p', file: 'p.json', createdAt: '2026-01-01T00:00:00.000Z', source: 'manual', expiresAt, sites: [] };
+}
+
+describe('storageStateExpiry', () => {
+  it('uses the earliest persistent cookie and ignores session cookies', () => {
+    assert.equal(storageStateExpiry(state)?.getTime(), 2_000_000_000_000);
+    assert.equal(storageStateExpiry({ cookies: [cookie('s', 'a.com', -1)], origins: [] }), undefined);
+  });
+});
+
+describe('profileStatus', () => {
+  const now = new Date('2026-06-01T12:00:00.000Z');
+
+  it('treats profiles without expiring cookies as valid', () => {
+    assert.equal(profileStatus(profile(), now), 'valid');
+    assert.equal(profileExpiryWarning(profile(), now), undefined);
+  });
+
+  it('flags expired and soon-expiring profiles', () => {
+    assert.equal(profileStatus(profile('2026-06-01T11:00:00.000Z'), now), 'expired');
+    assert.equal(profileStatus(profile('2026-06-01T18:00:00.000Z'), now), 'expiringSoon');
+    assert.equal(profileStatus(profile('2026-06-10T00:00:00.000Z'), now), 'valid');
+    assert.match(profileExpiryWarning(profile('2026-06-01T11:00:00.000Z'), now) ?? '', /expired/);
+  });
+});
+
+describe('validateProfileName', () => {
+  it('accepts readable names and rejects path-like ones', () => {
+    assert.equal(validateProfileName('admin@staging'), undefined);
+    assert.notEqual(validateProfileName('../escape'), undefined);
+    assert.notEqual(validateProfileName(''), undefined);
+  });
+});
+
+describe('AuthProfileStore', () => {
+  let dir: string;
+  let store: AuthProfileStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-profiles-'));
+    store = new AuthProfileStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty', async () => {
+    assert.deepEqual(await store.list(), []);
+  });
+
+  it('saves the storage state as a file Playwright can load', async () => {
+    const saved = await store.save('admin', state, 'plan');
+    assert.deepEqual(saved.sites, ['app.example.com', 'example.com']);
+    assert.equal(saved.expiresAt, new Date(2_000_000_000_000).toISOString());
+    const written = JSON.parse(await fs.readFile(store.statePath(saved), 'utf8'));
+    assert.deepEqual(written, state);
+    assert.deepEqual((await store.list()).map((p) => p.name), ['admin']);
+  });
+
+  it('replaces a profile saved again under the same name', async () => {
+    const first = await store.save('admin', state, 'plan');
+    const second = await store.save('admin', { cookies: [], origins: [] }, 'manual');
+    assert.equal(second.file, first.file);
+    assert.equal((await store.list()).length, 1);
+    assert.equal((await store.get('admin'))?.source, 'manual');
+  });
+
+  it('renames and deletes profiles', async () => {
+    await store.save('admin', state, 'plan');
+    await store.save('viewer', state, 'plan');
+    await assert.rejects(store.rename('admin', 'viewer'), /already exists/);
+    await store.rename('admin', 'owner');
+    assert.deepEqual((await store.list()).map((p) => p.name), ['owner', 'viewer']);
+
+    const owner = (await store.get('owner'))!;
+    await store.delete('owner');
+    assert.deepEqual((await store.list()).map((p) => p.name), ['viewer']);
+    await assert.rejects(fs.access(store.statePath(owner)));
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type * as playwright from 'playwright';
+
+export type StorageState = Awaited<ReturnType<playwright.BrowserContext['storageState']>>;
+
+/** How a profile's sign-in state was captured. */
+export type AuthProfileSource = 'plan' | 'manual';
+
+export interface AuthProfile {
+  name: string;
+  /** File holding the Playwright storage state, relative to the store directory. */
+  file: string;
+  createdAt: string;
+  source: AuthProfileSource;
+  /** Earliest expiry of a persistent cookie, if any. */
+  expiresAt?: string;
+  /** Sites the profile holds cookies or local storage for. */
+  sites: string[];
+}
+
+export type AuthProfileStatus = 'valid' | 'expiringSoon' | 'expired';
+
+/** Profiles expiring within this window are flagged before they stop working. */
+export const EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000;
+
+const INDEX_FILE = 'profiles.json';
+const PROFILE_NAME_PATTERN = /^[\w][\w .@-]{0,63}$/;
+
+export function validateProfileName(name: string): string | undefined {
+  return PROFILE_NAME_PATTERN.test(name)
+    ? undefined
+    : 'Use up to 64 letters, digits, spaces, dots, dashes, @ or underscores';
+}
+
+/**
+ * Earliest expiry among persistent cookies. Session cookies (`expires` of -1)
+ * are saved with the state too but have no expiry of their own.
+ */
+export function storageStateExpiry(state: StorageState): Date | undefined {
+  const expiries = state.cookies.map((c) => c.expires).filter((e) => e > 0);
+  return expiries.length > 0 ? new Date(Math.min(...expiries) * 1000) : undefined;
+}
+
+function storageStateSites(state: StorageState): string[] {
+  const sites = new Set<string>();
+  for (const cookie of state.cookies) {
+    sites.add(cookie.domain.replace(/^\./, ''));
+  }
+  for (const origin of state.origins) {
+    try {
+      sites.add(new URL(origin.origin).hostname);
+    } catch {
+      // ignore origins that are not URLs
+    }
+  }
+  return [...sites].sort();
+}
+
+export function profileStatus(profile: AuthProfile, now = new Date()): AuthProfileStatus {
+  if (!profile.expiresAt) {
+    return 'valid';
+  }
+  const remaining = new Date(profile.expiresAt).getTime() - now.getTime();
+  if (remaining <= 0) {
+    return 'expired';
+  }
+  return remaining <= EXPIRY_WARNING_MS ? 'expiringSoon' : 'valid';
+}
+
+/** Warning text for expired or soon-expiring profiles, undefined otherwise. */
+export function profileExpiryWarning(profile: AuthProfile, now = new Date()): string | undefined {
+  const status = profileStatus(profile, now);
+  if (status === 'valid') {
+    return undefined;
+  }
+  const when = new Date(profile.expiresAt!).toLocaleString();
+  return status === 'expired'
+    ? `Auth profile "${profile.name}" has cookies that expired on ${when}; the site may ask you to sign in again. Capture the profile again to refresh it.`
+    : `Auth profile "${profile.name}" has cookies that expire on ${when}.`;
+}
+
+/**
+ * Named Playwright storage states kept in a directory, usually the extension's
+ * global storage. An index file holds the metadata; each state is its own
+ * JSON file so it can be passed to `newContext({ storageState })` as a path.
+ */
+export class AuthProfileStore {
+  constructor(private readonly dir: string) {}
+
+  async list(): Promise<AuthProfile[]> {
+    return this.readIndex();
+  }
+
+  async get(name: string): Promise<AuthProfile | undefined> {
+    return (await this.readIndex()).find((p) => p.name === name);
+  }
+
+  statePath(profile: AuthProfile): string {
+    return path.join(this.dir, profile.file);
+  }
+
+  /** Saves a captured state under `name`, replacing any profile with that name. */
+  async save(name: string, state: StorageState, source: AuthProfileSource): Promise<AuthProfile> {
+    const nameError = validateProfileName(name);
+    if (nameError) {
+      throw new Error(`Invalid profile name "${name}": ${nameError}`);
+    }
+    await fs.mkdir(this.dir, { recursive: true });
+    const profiles = await this.readIndex();
+    const existing = profiles.find((p) => p.name === name);
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+    const profile: AuthProfile = {
+      name,
+      file: existing?.file ?? `${slug}-${Date.now()}.json`,
+      createdAt: new Date().toISOString(),
+      source,
+      expiresAt: storageStateExpiry(state)?.toISOString(),
+      sites: storageStateSites(state),
+    };
+    await fs.writeFile(this.statePath(profile), JSON.stringify(state, null, 2), 'utf8');
+    await this.writeIndex([...profiles.filter((p) => p.name !== name), profile]);
+    return profile;
+  }
+
+  async rename(name: string, newName: string): Promise<void> {
+    const nameError = validateProfileName(newName);
+    if (nameError) {
+      throw new Error(`Invalid profile name "${newName}": ${nameError}`);
+    }
+    const profiles = await this.readIndex();
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) {
+      throw new Error(`No auth profile named "${name}"`);
+    }
+    if (newName !== name && profiles.some((p) => p.name === newName)) {
+      throw new Error(`An auth profile named "${newName}" already exists`);
+    }
+    profile.name = newName;
+    await this.writeIndex(profiles);
+  }
+
+  async delete(name: string): Promise<void> {
+    const profiles = await this.readIndex();
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) {
+      return;
+    }
+    await fs.rm(this.statePath(profile), { force: true });
+    await this.writeIndex(profiles.filter((p) => p !== profile));
+  }
+
+  private async readIndex(): Promise<AuthProfile[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(this.dir, INDEX_FILE), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+    const parsed: unknown = JSON.parse(text);
+    return Array.isArray(parsed) ? (parsed as AuthProfile[]) : [];
+  }
+
+  private async writeIndex(profiles: AuthProfile[]): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const sorted = [...profiles].sort((a, b) => a.name.localeCompare(b.name));
+    await fs.writeFile(path.join(this.dir, INDEX_FILE), JSON.stringify(sorted, null, 2), 'utf8');
+  }
+}
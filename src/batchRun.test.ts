@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  BatchRunSummary,
+  batchSummaryToCsv,
+  expandBatch,
+  formatBatchSummary,
+  missingColumns,
+  parseCsv,
+  parseDataFile,
+  runWithConcurrency,
+} from './batchRun';
+
+const DEVICES = ['iPhone 13', 'Pixel 7'];
+
+describe('parseCsv', () => {
+  it('handles quoted cells, doubled quotes, CRLF and a trailing newline', () => {
+    assert.deepEqual(parseCsv('name,note\r\n"Ann, B","say ""hi""\nthere"\r\nBob,\n'), [
+      ['name', 'note'],
+      ['Ann, B', 'say "hi"\nthere'],
+      ['Bob', ''],
+    ]);
+  });
+
+  it('rejects an unclosed quote', () => {
+    assert.throws(() => parseCsv('a\n"open'), /never closed/);
+  });
+});
+
+describe('parseDataFile', () => {
+  it('reads CSV rows keyed by the header', () => {
+    assert.deepEqual(parseDataFile('user, qty\nann,2\nbob,5\n', 'csv', DEVICES), {
+      rows: [
+        { user: 'ann', qty: '2' },
+        { user: 'bob', qty: '5' },
+      ],
+    });
+  });
+
+  it('rejects column names that cannot be placeholders and ragged rows', () => {
+    assert.throws(() => parseDataFile('user name\nann\n', 'csv', DEVICES), /"user name"/);
+    assert.throws(() => parseDataFile('a,b\n1\n', 'csv', DEVICES), /row 1 has 1 cell/);
+    assert.throws(() => parseDataFile('a,b\n', 'csv', DEVICES), /no rows/);
+  });
+
+  it('reads JSON rows with an optional matrix and stringifies values', () => {
+    const data = parseDataFile(
+      JSON.stringify({ rows: [{ qty: 2, gift: true, note: null }], matrix: [{ browser: 'firefox' }, { device: 'Pixel 7' }] }),
+      'json',
+      DEVICES
+    );
+    assert.deepEqual(data, {
+      rows: [{ qty: '2', gift: 'true', note: '' }],
+      matrix: [{ browser: 'firefox' }, { device: 'Pixel 7' }],
+    });
+    assert.deepEqual(parseDataFile('[{"a":"x"}]', 'json', DEVICES), { rows: [{ a: 'x' }] });
+  });
+
+  it('rejects a bad matrix and nested values', () => {
+    assert.throws(
+      () => parseDataFile('{"rows":[{"a":1}],"matrix":[{"browser":"safari"},{"device":"Nokia"}]}', 'json', DEVICES),
+      /entry 0: "browser" must be one of[\s\S]*entry 1: unknown device "Nokia"/
+    );
+    assert.throws(() => parseDataFile('[{"a":[1]}]', 'json', DEVICES), /column "a" must be a string/);
+  });
+});
+
+describe('missingColumns', () => {
+  it('lists placeholders the data does not fill and the plan does not set', () => {
+    const plan = {
+      steps: [
+        { action: 'goto', url: 'https://shop.example/${region}' },
+        { action: 'extractText', selector: 'h1', saveAs: 'title' },
+        { action: 'type', selector: '#q', value: '${title} ${user}' },
+        { action: 'forEach', selector: 'li', steps: [{ action: 'click', selector: '${item}' }] },
+      ],
+    };
+    assert.deepEqual(missingColumns(plan, ['user']), ['region']);
+  });
+});
+
+describe('expandBatch', () => {
+  it('crosses every row with every matrix entry, rows first', () => {
+    const jobs = expandBatch([{ a: '1' }, { a: '2' }], [{ browser: 'chromium' }, { browser: 'webkit', device: 'iPhone 13' }]);
+    assert.deepEqual(
+      jobs.map((j) => [j.index, j.row, j.label]),
+      [
+        [0, 0, 'row 1 · chromium'],
+        [1, 0, 'row 1 · webkit · iPhone 13'],
+        [2, 1, 'row 2 · chromium'],
+        [3, 1, 'row 2 · webkit · iPhone 13'],
+      ]
+    );
+    assert.deepEqual(expandBatch([{ a: '1' }]).map((j) => j.label), ['row 1']);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('never runs more than the limit at once and skips items after cancellation', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    let cancelled = false;
+    const skipped = await runWithConcurrency(
+      [1, 2, 3, 4, 5, 6],
+      2,
+      async (n) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        done.push(n);
+        cancelled = n === 3;
+        running--;
+      },
+      () => cancelled
+    );
+    assert.equal(peak, 2);
+    assert.deepEqual(done.sort(), [1, 2, 3, 4]);
+    assert.deepEqual(skipped, [4, 5]);
+  });
+});
+
+describe('batch summary', () => {
+  const runs: BatchRunSummary[] = [
+    { index: 0, row: 0, label: 'row 1 · firefox', browser: 'firefox', variables: { user: 'ann' }, status: 'passed', passedSteps: 3, failedSteps: 0, durationMs: 1200 },
+    { index: 1, row: 1, label: 'row 2 · firefox', browser: 'firefox', variables: { user: 'bob' }, status: 'failed', passedSteps: 1, failedSteps: 1, durationMs: 800, error: 'click: Timeout' },
+    { index: 2, row: 2, label: 'row 3 · firefox', browser: 'firefox', variables: { user: 'cy' }, status: 'cancelled', passedSteps: 0, failedSteps: 0 },
+  ];
+
+  it('counts outcomes', () => {
+    assert.equal(formatBatchSummary(runs), '3 run(s): 1 passed, 1 failed, 1 cancelled');
+  });
+
+  it('exports one CSV line per run with its data columns', () => {
+    const lines = batchSummaryToCsv(runs).trim().split('\r\n');
+    assert.equal(lines[0], 'run,row,browser,device,status,passedSteps,failedSteps,durationMs,error,user');
+    assert.equal(lines[2], '2,2,firefox,,failed,1,1,800,click: Timeout,bob');
+  });
+});
@@ -0,0 +1,317 @@
+import { ActionPlan, ActionStep, CHILD_STEP_KEYS, VARIABLE_NAME_PATTERN } from './actionDsl';
+import { BROWSER_ENGINES, BrowserEngine } from './browserConfig';
+import { DataRecord, recordsToCsv } from './dataExtraction';
+import { findVariables } from './templating';
+
+/** Most data rows one batch may run. */
+export const MAX_BATCH_ROWS = 500;
+/** Most runs one batch may start, counting every row and matrix entry. */
+export const MAX_BATCH_RUNS = 1000;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+export type DataFileFormat = 'csv' | 'json';
+
+/** A browser, a device, or both, that every data row runs in. */
+export interface MatrixEntry {
+  browser?: BrowserEngine;
+  device?: string;
+}
+
+export interface BatchData {
+  /** One set of variables per run; the keys are the column names. */
+  rows: Record<string, string>[];
+  /** Matrix from a JSON data file's `matrix`, if it has one. */
+  matrix?: MatrixEntry[];
+}
+
+export interface BatchJob {
+  index: number;
+  /** Zero-based data row. */
+  row: number;
+  variables: Record<string, string>;
+  matrix?: MatrixEntry;
+  /** e.g. "row 3 · firefox · iPhone 13". */
+  label: string;
+}
+
+export type BatchRunStatus = 'queued' | 'running' | 'passed' | 'failed' | 'cancelled';
+
+export interface BatchRunSummary {
+  index: number;
+  label: string;
+  row: number;
+  browser?: string;
+  device?: string;
+  variables: Record<string, string>;
+  status: BatchRunStatus;
+  passedSteps: number;
+  failedSteps: number;
+  durationMs?: number;
+  /** The first failed step and its error. */
+  error?: string;
+}
+
+export function dataFileFormat(fileName: string): DataFileFormat {
+  return /\.csv$/i.test(fileName) ? 'csv' : 'json';
+}
+
+/** Splits RFC 4180 CSV into rows of cells. Quoted cells may hold commas, quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^﻿/, '');
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV has a quoted cell that is never closed');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines, such as a trailing one, are not rows
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+function checkColumns(columns: string[]): void {
+  const invalid = columns.filter((name) => !VARIABLE_NAME_PATTERN.test(name));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Column names must be letters, digits and underscores so steps can use them as \${name}; got ${invalid.map((n) => `"${n}"`).join(', ')}`
+    );
+  }
+  const duplicates = columns.filter((name, i) => columns.indexOf(name) !== i);
+  if (duplicates.length > 0) {
+    throw new Error(`Column "${duplicates[0]}" appears more than once`);
+  }
+}
+
+function checkRowCount(rows: unknown[]): void {
+  if (rows.length === 0) {
+    throw new Error('The data file has no rows');
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`The data file has ${rows.length} rows; a batch runs at most ${MAX_BATCH_ROWS}`);
+  }
+}
+
+/** Checks a browser/device matrix. Devices must be names from Playwright's device registry. */
+export function validateMatrix(matrix: unknown, devices: string[]): string[] {
+  if (!Array.isArray(matrix) || matrix.length === 0) {
+    return ['"matrix" must be a non-empty array of { "browser", "device" } entries'];
+  }
+  const errors: string[] = [];
+  matrix.forEach((entry, i) => {
+    const prefix = `Matrix entry ${i}:`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    const e = entry as Record<string, unknown>;
+    for (const key of Object.keys(e).filter((k) => k !== 'browser' && k !== 'device')) {
+      errors.push(`${prefix} unknown property "${key}"; entries take browser and device`);
+    }
+    if (e.browser === undefined && e.device === undefined) {
+      errors.push(`${prefix} set "browser", "device" or both`);
+    }
+    if (e.browser !== undefined && !(BROWSER_ENGINES as readonly unknown[]).includes(e.browser)) {
+      errors.push(`${prefix} "browser" must be one of ${BROWSER_ENGINES.join(', ')}`);
+    }
+    if (e.device !== undefined && (typeof e.device !== 'string' || !devices.includes(e.device))) {
+      errors.push(`${prefix} unknown device ${JSON.stringify(e.device)}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Reads the rows of a CSV file with a header row, or of a JSON file holding
+ * an array of objects or `{ "rows": [...], "matrix": [...] }`. Values become
+ * strings, since that is what `${name}` fills in. Throws with a readable
+ * message when the file cannot be used.
+ */
+export function parseDataFile(text: string, format: DataFileFormat, devices: string[]): BatchData {
+  if (format === 'csv') {
+    const [header, ...lines] = parseCsv(text);
+    if (!header) {
+      throw new Error('The CSV file is empty');
+    }
+    const columns = header.map((name) => name.trim());
+    checkColumns(columns);
+    checkRowCount(lines);
+    return {
+      rows: lines.map((cells, i) => {
+        if (cells.length !== columns.length) {
+          throw new Error(`CSV row ${i + 1} has ${cells.length} cell(s); the header has ${columns.length}`);
+        }
+        return Object.fromEntries(columns.map((name, c) => [name, cells[c]]));
+      }),
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Could not parse the data file as JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  let rawRows: unknown = raw;
+  let matrix: MatrixEntry[] | undefined;
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    const obj = raw as Record<string, unknown>;
+    rawRows = obj.rows;
+    if (obj.matrix !== undefined) {
+      const errors = validateMatrix(obj.matrix, devices);
+      if (errors.length > 0) {
+        throw new Error(errors.join('\n'));
+      }
+      matrix = obj.matrix as MatrixEntry[];
+    }
+  }
+  if (!Array.isArray(rawRows)) {
+    throw new Error('A JSON data file must hold an array of row objects, or an object with a "rows" array');
+  }
+  checkRowCount(rawRows);
+  const rows = rawRows.map((row, i) => {
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new Error(`Row ${i + 1} must be an object mapping column names to values`);
+    }
+    checkColumns(Object.keys(row));
+    const values: Record<string, string> = {};
+    for (const [name, value] of Object.entries(row)) {
+      if (typeof value === 'object' && value !== null) {
+        throw new Error(`Row ${i + 1} column "${name}" must be a string, number or boolean`);
+      }
+      values[name] = value === null ? '' : String(value);
+    }
+    return values;
+  });
+  return matrix ? { rows, matrix } : { rows };
+}
+
+/**
+ * Variables the plan uses but neither the data nor the plan itself sets,
+ * through `saveAs`, `forEach` `as` or `call` `with`. Runs would fail on them.
+ */
+export function missingColumns(plan: ActionPlan, columns: string[]): string[] {
+  const set = new Set(columns);
+  const visit = (steps: ActionStep[]) => {
+    for (const step of steps) {
+      [step.saveAs, step.action === 'forEach' ? step.as ?? 'item' : undefined, ...Object.keys(step.with ?? {})]
+        .filter((name): name is string => name !== undefined)
+        .forEach((name) => set.add(name));
+      for (const key of CHILD_STEP_KEYS) {
+        visit(step[key] ?? []);
+      }
+    }
+  };
+  visit(plan.steps);
+  Object.values(plan.subPlans ?? {}).forEach(visit);
+  return findVariables([plan.steps, plan.subPlans ?? {}]).filter((name) => !set.has(name));
+}
+
+/** One job per data row and matrix entry, rows first, so row 1 runs in every browser before row 2 starts. */
+export function expandBatch(rows: Record<string, string>[], matrix: MatrixEntry[] = []): BatchJob[] {
+  const entries: (MatrixEntry | undefined)[] = matrix.length > 0 ? matrix : [undefined];
+  const jobs: BatchJob[] = [];
+  rows.forEach((variables, row) => {
+    for (const entry of entries) {
+      const label = [`row ${row + 1}`, entry?.browser, entry?.device].filter(Boolean).join(' · ');
+      jobs.push({ index: jobs.length, row, variables, matrix: entry, label });
+    }
+  });
+  if (jobs.length > MAX_BATCH_RUNS) {
+    throw new Error(`The batch would start ${jobs.length} runs; the limit is ${MAX_BATCH_RUNS}. Use fewer rows or matrix entries.`);
+  }
+  return jobs;
+}
+
+/**
+ * Runs `worker` on every item with at most `limit` running at once, in item
+ * order. Items not started by the time `isCancelled` returns true are
+ * skipped; their indexes are returned.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  isCancelled: () => boolean = () => false
+): Promise<number[]> {
+  let next = 0;
+  const skipped: number[] = [];
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (isCancelled()) {
+        skipped.push(index);
+        continue;
+      }
+      await worker(items[index], index);
+    }
+  };
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane);
+  await Promise.all(lanes);
+  return skipped.sort((a, b) => a - b);
+}
+
+/** Counts runs by outcome, e.g. "12 runs: 10 passed, 1 failed, 1 cancelled". */
+export function formatBatchSummary(runs: BatchRunSummary[]): string {
+  const count = (status: BatchRunStatus) => runs.filter((r) => r.status === status).length;
+  const parts = [`${count('passed')} passed`, `${count('failed')} failed`];
+  if (count('cancelled') > 0) {
+    parts.push(`${count('cancelled')} cancelled`);
+  }
+  return `${runs.length} run(s): ${parts.join(', ')}`;
+}
+
+/** One record per run, with the data columns after the fixed fields, for CSV and JSON export. */
+export function batchSummaryRecords(runs: BatchRunSummary[]): DataRecord[] {
+  return runs.map((run) => ({
+    run: run.index + 1,
+    row: run.row + 1,
+    browser: run.browser ?? null,
+    device: run.device ?? null,
+    status: run.status,
+    passedSteps: run.passedSteps,
+    failedSteps: run.failedSteps,
+    durationMs: run.durationMs ?? null,
+    error: run.error ?? null,
+    ...run.variables,
+  }));
+}
+
+export function batchSummaryToCsv(runs: BatchRunSummary[]): string {
+  return recordsToCsv(batchSummaryRecords(runs));
+}
+
+export function batchSummaryToJson(runs: BatchRunSummary[]): string {
+  return `${JSON.stringify({ summary: formatBatchSummary(runs), runs: batchSummaryRecords(runs) }, null, 2)}\n`;
+}
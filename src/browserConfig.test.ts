@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  BrowserConfig,
+  DEFAULT_BROWSER_CONFIG,
+  describeBrowserConfig,
+  mergeBrowserConfig,
+  redactBrowserConfig,
+  sameBrowserConfig,
+  toContextOptions,
+  toLaunchOptions,
+  validateBrowserConfig,
+} from './browserConfig';
+
+function config(overrides: Partial<BrowserConfig>): BrowserConfig {
+  return { ...DEFAULT_BROWSER_CONFIG, ...overrides };
+}
+
+describe('mergeBrowserConfig', () => {
+  it('applies overrides and ignores undefined values', () => {
+    const merged = mergeBrowserConfig(DEFAULT_BROWSER_CONFIG, { browser: 'firefox', headless: undefined });
+    assert.equal(merged.browser, 'firefox');
+    assert.equal(merged.headless, true);
+  });
+
+  it('clears optional fields set to an empty string or null', () => {
+    const merged = mergeBrowserConfig(config({ device: 'iPhone 13', locale: 'de-DE' }), { device: '', locale: null });
+    assert.equal(merged.device, undefined);
+    assert.equal(merged.locale, undefined);
+    assert.ok(sameBrowserConfig(merged, DEFAULT_BROWSER_CONFIG));
+  });
+});
+
+describe('validateBrowserConfig', () => {
+  it('accepts the defaults', () => {
+    assert.deepEqual(validateBrowserConfig(DEFAULT_BROWSER_CONFIG), []);
+  });
+
+  it('rejects unknown engines and devices', () => {
+    const errors = validateBrowserConfig(config({ browser: 'edge' as BrowserConfig['browser'], device: 'Nokia 3310' }));
+    assert.equal(errors.length, 2);
+  });
+
+  it('rejects mobile devices on Firefox', () => {
+    const errors = validateBrowserConfig(config({ browser: 'firefox', device: 'iPhone 13' }));
+    assert.match(errors[0], /Firefox/);
+  });
+
+  it('checks viewport, geolocation and proxy values', () => {
+    const errors = validateBrowserConfig(
+      config({
+        viewport: { width: 0, height: 600 },
+        geolocation: { latitude: 91, longitude: 0 },
+        proxy: { server: '' },
+      })
+    );
+    assert.equal(errors.length, 3);
+  });
+});
+
+describe('toLaunchOptions', () => {
+  it('passes headless, slowMo and proxy', () => {
+    const options = toLaunchOptions(config({ headless: false, slowMo: 250, proxy: { server: 'http://proxy:3128' } }));
+    assert.deepEqual(options, { headless: false, slowMo: 250, proxy: { server: 'http://proxy:3128' } });
+  });
+});
+
+describe('toContextOptions', () => {
+  it('returns no options for the defaults', () => {
+    assert.deepEqual(toContextOptions(DEFAULT_BROWSER_CONFIG), {});
+  });
+
+  it('uses the device descriptor and lets explicit settings override it', () => {
+    const options = toContextOptions(config({ device: 'iPhone 13', viewport: { width: 400, height: 700 }, locale: 'fr-FR' }));
+    assert.equal(options.isMobile, true);
+    assert.deepEqual(options.viewport, { width: 400, height: 700 });
+    assert.equal(options.locale, 'fr-FR');
+    assert.equal('defaultBrowserType' in options, false);
+  });
+
+  it('grants the geolocation permission with a geolocation', () => {
+    const options = toContextOptions(config({ geolocation: { latitude: 52.5, longitude: 13.4 } }));
+    assert.deepEqual(options.permissions, ['geolocation']);
+  });
+});
+
+describe('describeBrowserConfig', () => {
+  it('summarizes the settings and masks the proxy password', () => {
+    const redacted = redactBrowserConfig(
+      config({ browser: 'webkit', headless: false, colorScheme: 'dark', proxy: { server: 'http://p:1', password: 'pw' } })
+    );
+    assert.equal(redacted.proxy?.password, '••••••');
+    assert.equal(describeBrowserConfig(redacted), 'webkit (headed), dark color scheme, proxy http://p:1');
+  });
+});
@@ -0,0 +1,213 @@
+import * as playwright from 'playwright';
+
+export const BROWSER_ENGINES = ['chromium', 'firefox', 'webkit'] as const;
+export type BrowserEngine = (typeof BROWSER_ENGINES)[number];
+
+export const COLOR_SCHEMES = ['light', 'dark', 'no-preference'] as const;
+export type ColorScheme = (typeof COLOR_SCHEMES)[number];
+
+export interface ProxyConfig {
+  server: string;
+  bypass?: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * How the browser for a run is launched and which context it runs in. Unset
+ * fields keep Playwright's defaults; a device from Playwright's `devices`
+ * registry supplies viewport, user agent and touch settings, and explicit
+ * fields override the device.
+ */
+export interface BrowserConfig {
+  browser: BrowserEngine;
+  headless: boolean;
+  /** Delay in milliseconds added to every Playwright operation. */
+  slowMo: number;
+  device?: string;
+  viewport?: { width: number; height: number };
+  locale?: string;
+  timezoneId?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  colorScheme?: ColorScheme;
+  extraHTTPHeaders?: Record<string, string>;
+  proxy?: ProxyConfig;
+  /** Name of the auth profile the context starts signed in with. */
+  authProfile?: string;
+  /** Path of the Playwright storage state file for `authProfile`. */
+  storageState?: string;
+}
+
+export const DEFAULT_BROWSER_CONFIG: BrowserConfig = {
+  browser: 'chromium',
+  headless: true,
+  slowMo: 0,
+};
+
+export function deviceNames(): string[] {
+  return Object.keys(playwright.devices);
+}
+
+/**
+ * Applies overrides on top of a base configuration. Empty strings and null
+ * clear an optional field, so a per-run override can undo a workspace setting.
+ */
+export function mergeBrowserConfig(base: BrowserConfig, overrides: Record<string, unknown>): BrowserConfig {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null || value === '') {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged as unknown as BrowserConfig;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+export function validateBrowserConfig(config: BrowserConfig): string[] {
+  const errors: string[] = [];
+  if (!BROWSER_ENGINES.includes(config.browser)) {
+    errors.push(`Unknown browser "${config.browser}"; use one of ${BROWSER_ENGINES.join(', ')}`);
+  }
+  if (typeof config.headless !== 'boolean') {
+    errors.push('"headless" must be true or false');
+  }
+  if (typeof config.slowMo !== 'number' || config.slowMo < 0) {
+    errors.push('"slowMo" must be a non-negative number of milliseconds');
+  }
+  if (config.device !== undefined) {
+    const descriptor = playwright.devices[config.device];
+    if (!descriptor) {
+      errors.push(`Unknown device "${config.device}"; use a name from Playwright's devices list, e.g. "iPhone 13"`);
+    } else if (descriptor.isMobile && config.browser === 'firefox') {
+      errors.push(`Device "${config.device}" is a mobile device, which Firefox cannot emulate`);
+    }
+  }
+  if (config.viewport !== undefined && (!isPositiveInteger(config.viewport.width) || !isPositiveInteger(config.viewport.height))) {
+    errors.push('"viewport" needs positive integer "width" and "height"');
+  }
+  if (config.geolocation !== undefined) {
+    const { latitude, longitude, accuracy } = config.geolocation;
+    if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+      errors.push('"geolocation.latitude" must be between -90 and 90');
+    }
+    if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+      errors.push('"geolocation.longitude" must be between -180 and 180');
+    }
+    if (accuracy !== undefined && (typeof accuracy !== 'number' || accuracy < 0)) {
+      errors.push('"geolocation.accuracy" must be a non-negative number');
+    }
+  }
+  if (config.colorScheme !== undefined && !COLOR_SCHEMES.includes(config.colorScheme)) {
+    errors.push(`"colorScheme" must be one of ${COLOR_SCHEMES.join(', ')}`);
+  }
+  if (config.extraHTTPHeaders !== undefined) {
+    for (const [name, value] of Object.entries(config.extraHTTPHeaders)) {
+      if (typeof value !== 'string') {
+        errors.push(`Header "${name}" must have a string value`);
+      }
+    }
+  }
+  if (config.proxy !== undefined && (typeof config.proxy.server !== 'string' || config.proxy.server.trim() === '')) {
+    errors.push('"proxy.server" is required, e.g. "http://proxy.example.com:3128"');
+  }
+  return errors;
+}
+
+export function toLaunchOptions(config: BrowserConfig): playwright.LaunchOptions {
+  const options: playwright.LaunchOptions = { headless: config.headless };
+  if (config.slowMo > 0) {
+    options.slowMo = config.slowMo;
+  }
+  if (config.proxy) {
+    options.proxy = { ...config.proxy };
+  }
+  return options;
+}
+
+export function toContextOptions(config: BrowserConfig): playwright.BrowserContextOptions {
+  const options: playwright.BrowserContextOptions = {};
+  if (config.device) {
+    // defaultBrowserType is not a context option; the engine comes from `browser`
+    const { defaultBrowserType: _defaultBrowserType, ...descriptor } = playwright.devices[config.device];
+    Object.assign(options, descriptor);
+  }
+  if (config.viewport) {
+    options.viewport = { ...config.viewport };
+  }
+  if (config.locale) {
+    options.locale = config.locale;
+  }
+  if (config.timezoneId) {
+    options.timezoneId = config.timezoneId;
+  }
+  if (config.geolocation) {
+    options.geolocation = { ...config.geolocation };
+    options.permissions = ['geolocation'];
+  }
+  if (config.colorScheme) {
+    options.colorScheme = config.colorScheme;
+  }
+  if (config.extraHTTPHeaders && Object.keys(config.extraHTTPHeaders).length > 0) {
+    options.extraHTTPHeaders = { ...config.extraHTTPHeaders };
+  }
+  if (config.storageState) {
+    options.storageState = config.storageState;
+  }
+  return options;
+}
+
+/** A copy that is safe to show and export: the proxy password is masked. */
+export function redactBrowserConfig(config: BrowserConfig): BrowserConfig {
+  if (!config.proxy?.password) {
+    return config;
+  }
+  return { ...config, proxy: { ...config.proxy, password: '••••••' } };
+}
+
+/** One-line summary for the chat, e.g. "firefox (headed), device iPhone 13, locale de-DE". */
+export function describeBrowserConfig(config: BrowserConfig): string {
+  const parts = [`${config.browser} (${config.headless ? 'headless' : 'headed'})`];
+  if (config.slowMo > 0) {
+    parts.push(`slowMo ${config.slowMo}ms`);
+  }
+  if (config.device) {
+    parts.push(`device ${config.device}`);
+  }
+  if (config.viewport) {
+    parts.push(`viewport ${config.viewport.width}x${config.viewport.height}`);
+  }
+  if (config.locale) {
+    parts.push(`locale ${config.locale}`);
+  }
+  if (config.timezoneId) {
+    parts.push(`timezone ${config.timezoneId}`);
+  }
+  if (config.geolocation) {
+    parts.push(`geolocation ${config.geolocation.latitude},${config.geolocation.longitude}`);
+  }
+  if (config.colorScheme) {
+    parts.push(`${config.colorScheme} color scheme`);
+  }
+  if (config.extraHTTPHeaders && Object.keys(config.extraHTTPHeaders).length > 0) {
+    parts.push(`headers ${Object.keys(config.extraHTTPHeaders).join(', ')}`);
+  }
+  if (config.proxy) {
+    parts.push(`proxy ${config.proxy.server}`);
+  }
+  if (config.authProfile) {
+    parts.push(`signed in as auth profile "${config.authProfile}"`);
+  }
+  return parts.join(', ');
+}
+
+export function sameBrowserConfig(a: BrowserConfig, b: BrowserConfig): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,245 @@
+import * as playwright from 'playwright';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  BrowserConfig,
+  DEFAULT_BROWSER_CONFIG,
+  sameBrowserConfig,
+  toContextOptions,
+  toLaunchOptions,
+} from './browserConfig';
+import { StorageState } from './authProfiles';
+import { HAR_FILE, RecordingOptions, TRACE_FILE } from './artifacts';
+
+export interface SessionState {
+  active: boolean;
+  url?: string;
+  title?: string;
+}
+
+export interface BrowserSessionOptions {
+  /** Close the browser after this many milliseconds without activity. 0 disables the timeout. */
+  idleTimeoutMs?: number;
+  /** Called after the session has been closed because it was idle. */
+  onIdleClose?: () => void;
+  config?: BrowserConfig;
+}
+
+/**
+ * Keeps a single browser, context and page alive across plan executions so
+ * follow-up chat turns continue on the page (and with the cookies) the previous
+ * turn left behind.
+ */
+export class BrowserSession {
+  idleTimeoutMs: number;
+
+  private _config: BrowserConfig;
+  private browser: playwright.Browser | null = null;
+  private context: playwright.BrowserContext | null = null;
+  private page: playwright.Page | null = null;
+  private idleTimer: NodeJS.Timeout | undefined;
+  private recording: { dir: string; options: RecordingOptions } | undefined;
+  private tracing = false;
+
+  constructor(private readonly options: BrowserSessionOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 0;
+    this._config = options.config ?? DEFAULT_BROWSER_CONFIG;
+  }
+
+  /** The configuration the current (or next) browser is launched with. */
+  get config(): BrowserConfig {
+    return this._config;
+  }
+
+  /**
+   * Sets the configuration for the next launch. A running browser with a
+   * different configuration is closed, so the next plan starts fresh with the
+   * new settings. Returns true when the running browser was closed.
+   */
+  async configure(config: BrowserConfig): Promise<boolean> {
+    if (sameBrowserConfig(config, this._config)) {
+      return false;
+    }
+    this._config = config;
+    if (!this.isActive) {
+      return false;
+    }
+    await this.close();
+    return true;
+  }
+
+  get isActive(): boolean {
+    return this.browser !== null && this.browser.isConnected();
+  }
+
+  /** Returns the current page, launching the browser or reopening a page if needed. */
+  async getPage(): Promise<playwright.Page> {
+    this.touch();
+    if (!this.browser || !this.browser.isConnected()) {
+      await this.close();
+      const browser = await playwright[this._config.browser].launch(toLaunchOptions(this._config));
+      browser.on('disconnected', () => {
+        if (this.browser === browser) {
+          this.reset();
+        }
+      });
+      this.browser = browser;
+    }
+    if (!this.context) {
+      this.context = await this.browser.newContext(this.contextOptions());
+      await this.startTracing();
+    }
+    if (!this.page || this.page.isClosed()) {
+      // Another tab the user or a plan opened becomes current before a new one is opened
+      this.page = this.context.pages().find((tab) => !tab.isClosed()) ?? (await this.context.newPage());
+    }
+    return this.page;
+  }
+
+  /** Makes another tab of this session the current page, e.g. the one a plan switched to. */
+  switchTo(page: playwright.Page): void {
+    if (this.context && page.context() === this.context && !page.isClosed()) {
+      this.page = page;
+    }
+  }
+
+  /**
+   * Records a trace, video and/or HAR into `dir` until `stopRecording`. Video
+   * and HAR can only be enabled when a context is created, so an open session
+   * moves into a new context that keeps its cookies, storage and URL.
+   */
+  async startRecording(dir: string, options: RecordingOptions): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+    this.recording = { dir, options };
+    if (this.context && (options.video || options.har)) {
+      await this.recycleContext();
+    } else {
+      await this.startTracing();
+    }
+  }
+
+  /** Saves the trace and, by closing the recording context, the video and HAR files. */
+  async stopRecording(): Promise<void> {
+    const recording = this.recording;
+    this.recording = undefined;
+    if (!recording || !this.context) {
+      return;
+    }
+    if (this.tracing) {
+      this.tracing = false;
+      try {
+        await this.context.tracing.stop({ path: path.join(recording.dir, TRACE_FILE) });
+      } catch {
+        // the context may have been closed by the page
+      }
+    }
+    if (recording.options.video || recording.options.har) {
+      await this.recycleContext();
+    }
+  }
+
+  private contextOptions(): playwright.BrowserContextOptions {
+    const options = toContextOptions(this._config);
+    if (this.recording?.options.video) {
+      options.recordVideo = { dir: this.recording.dir };
+    }
+    if (this.recording?.options.har) {
+      options.recordHar = { path: path.join(this.recording.dir, HAR_FILE) };
+    }
+    return options;
+  }
+
+  private async startTracing(): Promise<void> {
+    if (this.context && this.recording?.options.trace && !this.tracing) {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+      this.tracing = true;
+    }
+  }
+
+  /** Replaces the context with one using the current options, carrying cookies, storage and the URL over. */
+  private async recycleContext(): Promise<void> {
+    const old = this.context;
+    if (!old || !this.browser) {
+      return;
+    }
+    const url = this.page && !this.page.isClosed() ? this.page.url() : undefined;
+    let state: StorageState | undefined;
+    try {
+      state = await old.storageState();
+    } catch {
+      // carry nothing over if the context is already gone
+    }
+    this.context = null;
+    this.page = null;
+    this.tracing = false;
+    await old.close().catch(() => undefined);
+    if (!this.browser.isConnected()) {
+      return;
+    }
+    this.context = await this.browser.newContext({ ...this.contextOptions(), ...(state ? { storageState: state } : {}) });
+    await this.startTracing();
+    this.page = await this.context.newPage();
+    if (url && /^https?:/.test(url)) {
+      await this.page.goto(url).catch(() => undefined);
+    }
+  }
+
+  /** Cookies and local storage of the current context, for saving as an auth profile. */
+  async storageState(): Promise<StorageState> {
+    if (!this.isActive || !this.context) {
+      throw new Error('No browser session is open');
+    }
+    return this.context.storageState();
+  }
+
+  async describe(): Promise<SessionState> {
+    if (!this.isActive || !this.page || this.page.isClosed()) {
+      return { active: false };
+    }
+    let title = '';
+    try {
+      title = await this.page.title();
+    } catch {
+      // page may be mid-navigation
+    }
+    return { active: true, url: this.page.url(), title };
+  }
+
+  /** Resets the idle timer. Called whenever the session is used. */
+  touch(): void {
+    this.clearIdleTimer();
+    if (this.idleTimeoutMs > 0) {
+      this.idleTimer = setTimeout(() => {
+        void this.close().then(() => this.options.onIdleClose?.());
+      }, this.idleTimeoutMs);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.clearIdleTimer();
+    const browser = this.browser;
+    this.reset();
+    if (browser) {
+      try {
+        await browser.close();
+      } catch {
+        // ignore close errors
+      }
+    }
+  }
+
+  private reset(): void {
+    this.clearIdleTimer();
+    this.browser = null;
+    this.context = null;
+    this.page = null;
+    this.tracing = false;
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+}
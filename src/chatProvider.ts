@@ -1,12 +1,81 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { AVAILABLE_TOOLS, validateActionPlan, ActionPlan } from './actionDsl';
-import { PlaywrightRunner, ExecutionResult } from './playwrightRunner';
+import * as path from 'path';
+import * as childProcess from 'child_process';
+import { validateActionPlan, validateStepTiming, ActionPlan, FailurePolicy, StepTiming } from './actionDsl';
+import { PlaywrightRunner, StepDecision } from './playwrightRunner';
+import { BrowserSession } from './browserSession';
+import { ChatEntry } from './conversation';
+import { AgentOutcome, runAgentLoop } from './agentLoop';
+import { runChatTurn } from './chatTurn';
+import { ExecutionResult, ExecutePlanOptions, RunnerOptions } from './playwrightRunner';
+import { getRunVerdict, formatVerdict } from './runReport';
+import { SpecTest, generateSpec } from './specGenerator';
+import { PlanFileMetadata, parsePlanFile, planFileFormat, serializePlanFile } from './planFile';
+import { ExecutionPolicy, checkUrl } from './policy';
+import {
+  RecordingOptions,
+  cleanupRuns,
+  formatArtifactList,
+  hasRecording,
+  isEmptyRun,
+  isInsideDirectory,
+  listRunArtifacts,
+  runDirectory,
+} from './artifacts';
+import { DataRecord, recordsToCsv, recordsToJson } from './dataExtraction';
+import { AuthProfileStore, AuthProfileSource, profileExpiryWarning, validateProfileName } from './authProfiles';
+import { SecretStore } from './secretStore';
+import {
+  BrowserConfig,
+  DEFAULT_BROWSER_CONFIG,
+  describeBrowserConfig,
+  deviceNames,
+  mergeBrowserConfig,
+  redactBrowserConfig,
+  validateBrowserConfig,
+} from './browserConfig';
+import { DEFAULT_OUTLINE_TOKENS, observePage } from './pageObservation';
+import { maskSecrets } from './templating';
+import { describeHealing } from './locatorHealing';
+import { PlanRecorder, RECORDED_PASSWORD_SECRET } from './planRecorder';
+import { LLMModelInfo, LLMProvider, requestCompletion } from './llmProvider';
+import { VsCodeLMProvider } from './vscodeLmProvider';
+import { DEFAULT_MAX_INPUT_TOKENS, OpenAICompatibleProvider } from './openAiCompatibleProvider';
+import { ScriptedProvider, parseScript } from './scriptedProvider';
+import {
+  BatchJob,
+  BatchRunSummary,
+  MAX_BATCH_CONCURRENCY,
+  MatrixEntry,
+  batchSummaryToCsv,
+  batchSummaryToJson,
+  dataFileFormat,
+  expandBatch,
+  formatBatchSummary,
+  missingColumns,
+  parseDataFile,
+  runWithConcurrency,
+  validateMatrix,
+} from './batchRun';
 
-interface ChatEntry {
-  role: 'user' | 'llm' | 'result';
-  text: string;
-  result?: ExecutionResult;
+/** Global state key of the model picked in the webview. */
+const MODEL_ID_KEY = 'playwrightChatRunner.modelId';
+/** SecretStorage key of the API key for an OpenAI-compatible endpoint. */
+const MODEL_API_KEY_SECRET = 'playwrightChatRunner.model.apiKey';
+
+/** How validated plans are handed to the runner. */
+type ExecutionMode = 'auto' | 'approve' | 'step';
+
+/** A request waiting for the one in progress to finish. */
+interface QueuedRun {
+  label: string;
+  task: (token: vscode.CancellationToken) => Promise<void>;
+}
+
+interface PlanDecision {
+  decision: 'approve' | 'reject';
+  steps?: unknown[];
 }
 
 function getNonce(): string {
@@ -18,17 +87,70 @@ function getNonce(): string {
   return text;
 }
 
-export class ChatViewProvider implements vscode.WebviewViewProvider {
+export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
   public static readonly viewType = 'playwrightChatRunner.chatView';
 
   private _view?: vscode.WebviewView;
   private _enabledTools: string[] = [];
+  private _agentMode = false;
+  private _executionMode: ExecutionMode = 'auto';
+  /** Resolvers for questions posted to the webview, keyed by request id. */
+  private _pendingReplies = new Map<string, (reply: unknown) => void>();
+  private _nextReplyId = 0;
+  /** The most recent validated plan, available to "Save Plan". */
+  private _lastPlan?: ActionPlan;
+  /** The saved plan file `_lastPlan` was loaded from or saved to, so healed steps can be written back. */
+  private _lastPlanFile?: { uri: vscode.Uri; metadata: PlanFileMetadata };
+  /** Executed steps grouped per browser session, for exporting as a spec file. */
+  private _specTests: SpecTest[] = [];
   private _chatHistory: ChatEntry[] = [];
+  /** Per-run browser settings from the webview, applied over the workspace settings. */
+  private _browserOverrides: Record<string, unknown> = {};
+  /** Auth profile picked in the webview; later runs start signed in with it. */
+  private _authProfile?: string;
+  private readonly _authProfiles: AuthProfileStore;
+  /** Recording toggles from the webview; undefined means the workspace settings apply. */
+  private _recording?: RecordingOptions;
+  private readonly _session: BrowserSession;
+  /** Cancels the request in progress when the user presses Stop. */
+  private _activeRun?: vscode.CancellationTokenSource;
+  /** Requests made while another one was running, handled in order afterwards. */
+  private _queuedRuns: QueuedRun[] = [];
+  /** Records the user's actions in a headed browser while Record is on. */
+  private _recorder?: PlanRecorder;
+  /** Runs of the latest batch run, for "Export Summary". */
+  private _batchRuns: BatchRunSummary[] = [];
+  /** Where model requests go; rebuilt when the model settings change. */
+  private _llm?: LLMProvider;
+  private readonly _configListener: vscode.Disposable;
 
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private readonly context: vscode.ExtensionContext
-  ) {}
+    private readonly context: vscode.ExtensionContext,
+    private readonly secrets: SecretStore
+  ) {
+    this._authProfiles = new AuthProfileStore(path.join(context.globalStorageUri.fsPath, 'auth-profiles'));
+    this._session = new BrowserSession({
+      onIdleClose: () => {
+        const idleMsg = 'Browser session closed after being idle.';
+        this._chatHistory.push({ role: 'llm', text: idleMsg });
+        this._view?.webview.postMessage({ type: 'llmMessage', text: idleMsg });
+        void this._postSessionState();
+      },
+    });
+    this._configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('playwrightChatRunner.model')) {
+        this._llm = undefined;
+        void this._postModels();
+      }
+    });
+  }
+
+  dispose(): void {
+    this._configListener.dispose();
+    void this._session.close();
+    void this._recorder?.stop();
+  }
 
   resolveWebviewView(
     webviewView: vscode.WebviewView,
@@ -44,35 +166,908 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
+    webviewView.onDidDispose(() => {
+      // Unblock anything waiting on the webview; an undefined reply means reject/abort
+      for (const resolve of this._pendingReplies.values()) {
+        resolve(undefined);
+      }
+      this._pendingReplies.clear();
+    });
+
     webviewView.webview.onDidReceiveMessage(async (message) => {
       switch (message.type) {
         case 'submit':
           await this._handleSubmit(message.text as string);
           break;
+        case 'stop':
+          this._handleStop();
+          break;
         case 'loadFile':
           await this._handleLoadFile();
           break;
         case 'exportResults':
           await this._handleExport();
           break;
+        case 'savePlan':
+          await this._handleSavePlan();
+          break;
+        case 'applyHealedStep':
+          await this._applyHealedStep(message.index, message.original, message.step);
+          break;
+        case 'exportSpec':
+          await this.exportSpec();
+          break;
         case 'updateTools':
           this._enabledTools = message.enabledTools as string[];
           break;
+        case 'setExecutionMode':
+          this._executionMode = message.mode as ExecutionMode;
+          break;
+        case 'planDecision':
+        case 'stepDecision':
+          this._pendingReplies.get(message.id as string)?.(message);
+          this._pendingReplies.delete(message.id as string);
+          break;
+        case 'setAgentMode':
+          this._agentMode = message.enabled === true;
+          break;
+        case 'resetSession':
+          await this._handleResetSession();
+          break;
+        case 'toggleRecorder':
+          await this.toggleRecorder();
+          break;
+        case 'batchRun':
+          await this.batchRun();
+          break;
+        case 'exportBatch':
+          await this._handleExportBatch(message.format as 'json' | 'csv');
+          break;
+        case 'ready':
+          this._postRunState();
+          this._postRecorderState();
+          webviewView.webview.postMessage({
+            type: 'browserOptions',
+            devices: deviceNames(),
+            recording: this._getRecordingOptions(),
+          });
+          await this._postAuthProfiles();
+          await this._postModels();
+          break;
+        case 'setModel':
+          await this.context.globalState.update(MODEL_ID_KEY, (message.id as string) || undefined);
+          break;
+        case 'setRecording':
+          this._recording = message.recording as RecordingOptions;
+          break;
+        case 'exportRecords':
+          await this._handleExportRecords(message.records as DataRecord[], message.format as 'json' | 'csv');
+          break;
+        case 'openArtifact':
+          await this._openArtifact(message.kind as string, message.path as string);
+          break;
+        case 'setAuthProfile':
+          this._authProfile = (message.name as string) || undefined;
+          break;
+        case 'setBrowserOverrides':
+          this._browserOverrides = (message.overrides as Record<string, unknown>) ?? {};
+          break;
+      }
+    });
+  }
+
+  /**
+   * Starts recording in a headed browser, or stops and shows the recorded
+   * steps as an editable plan that can be run or saved.
+   */
+  async toggleRecorder(): Promise<void> {
+    if (this._recorder) {
+      await this._stopRecorder();
+    } else {
+      await this._startRecorder();
+    }
+  }
+
+  private async _startRecorder(): Promise<void> {
+    const state = await this._session.describe();
+    const url = await vscode.window.showInputBox({
+      prompt: 'Page to start recording on (optional)',
+      placeHolder: 'https://example.com',
+      value: state.active && state.url && /^https?:/.test(state.url) ? state.url : undefined,
+    });
+    if (url === undefined || this._recorder) {
+      return;
+    }
+    let session: BrowserSession | undefined;
+    try {
+      const violation = url ? checkUrl(url, this._getPolicy()) : undefined;
+      if (violation) {
+        throw new Error(`Policy violation: ${violation}`);
+      }
+      session = new BrowserSession({ config: { ...(await this._getBrowserConfig(true)), headless: false } });
+      const recorder = new PlanRecorder(session, {
+        startUrl: url || undefined,
+        onStep: (steps) => this._postRecorderState(steps.length),
+        // Closing the window ends the recording like the Stop button
+        onClose: () => void this._stopRecorder(),
+      });
+      this._recorder = recorder;
+      this._postRecorderState(0);
+      await recorder.start();
+      const startMsg = 'Recording. Click, type and navigate in the browser window, then press "Stop recording".';
+      this._view?.webview.postMessage({ type: 'agentStatus', text: startMsg });
+    } catch (err) {
+      this._recorder = undefined;
+      await session?.close();
+      this._postRecorderState();
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this._view?.webview.postMessage({ type: 'error', text: `Could not start recording: ${errorMsg}` });
+    }
+  }
+
+  private async _stopRecorder(): Promise<void> {
+    const recorder = this._recorder;
+    if (!recorder) {
+      return;
+    }
+    this._recorder = undefined;
+    const steps = await recorder.stop();
+    this._postRecorderState();
+    if (steps.length === 0) {
+      this._view?.webview.postMessage({ type: 'llmMessage', text: 'Nothing was recorded.' });
+      return;
+    }
+    await this._enqueueRun('Recorded plan', (token) => this._runRecordedPlan({ steps }, token));
+  }
+
+  private _postRecorderState(steps?: number): void {
+    this._view?.webview.postMessage({ type: 'recorderState', recording: this._recorder !== undefined, steps: steps ?? 0 });
+  }
+
+  /** Shows a recorded plan for review, whatever the execution mode, then runs it in the session. */
+  private async _runRecordedPlan(recorded: ActionPlan, token: vscode.CancellationToken): Promise<void> {
+    const request = `Recorded ${recorded.steps.length} step(s) in the browser`;
+    this._chatHistory.push({ role: 'user', text: request });
+    this._view?.webview.postMessage({ type: 'userMessage', text: request });
+
+    const validation = validateActionPlan(recorded, [...this._enabledTools], { policy: this._getPolicy() });
+    if (validation.valid && validation.plan) {
+      // Save Plan works right away, even if the plan is not run
+      this._lastPlan = validation.plan;
+      this._lastPlanFile = undefined;
+    }
+    let reviewMsg = 'Review the recorded plan below: edit it, approve it to run it, or save it with "Save Plan".';
+    if (JSON.stringify(recorded).includes(`secrets.${RECORDED_PASSWORD_SECRET}`)) {
+      reviewMsg += ` Password fields were recorded as \${{secrets.${RECORDED_PASSWORD_SECRET}}}; set that secret before running.`;
+    }
+    this._view?.webview.postMessage({ type: 'llmMessage', text: reviewMsg });
+    const plan = await this._reviewPlan(recorded, { always: true, errors: validation.errors });
+    if (!plan) {
+      return;
+    }
+    this._lastPlan = plan;
+    const runMsg = `Running ${plan.steps.length} recorded step(s)...`;
+    this._chatHistory.push({ role: 'llm', text: runMsg, promptText: JSON.stringify(plan) });
+    this._view?.webview.postMessage({ type: 'llmMessage', text: runMsg });
+    try {
+      await this._executePlan(plan, request, token);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this._chatHistory.push({ role: 'llm', text: `Error: ${errorMsg}` });
+      this._view?.webview.postMessage({ type: 'error', text: errorMsg });
+    }
+  }
+
+  /**
+   * Runs the last plan, or a saved plan file, once per row of a CSV or JSON
+   * data file whose columns fill the plan's `${column}` placeholders. Each
+   * row runs in every browser/device of the matrix, in separate browsers,
+   * with up to `batch.concurrency` runs at once.
+   */
+  async batchRun(): Promise<void> {
+    try {
+      const plan = await this._pickBatchPlan();
+      if (!plan) {
+        return;
+      }
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Data Files': ['csv', 'json'] },
+        openLabel: 'Use Data File',
+      });
+      if (!uris || uris.length === 0) {
+        return;
+      }
+      const fileName = path.basename(uris[0].fsPath);
+      const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uris[0]));
+      const data = parseDataFile(content, dataFileFormat(fileName), deviceNames());
+      const missing = missingColumns(plan.plan, Object.keys(data.rows[0]));
+      if (missing.length > 0) {
+        throw new Error(`${fileName} has no column for ${missing.map((name) => `\${${name}}`).join(', ')}, which the plan uses.`);
+      }
+      const jobs = expandBatch(data.rows, data.matrix ?? this._getBatchMatrix());
+      await this._enqueueRun(`Batch run of ${plan.name} over ${fileName}`, (token) =>
+        this._runBatch(plan.plan, `${plan.name} over ${fileName}`, jobs, token)
+      );
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this._view?.webview.postMessage({ type: 'error', text: `Batch run failed: ${errorMsg}` });
+    }
+  }
+
+  /** Asks whether to batch run the last plan or a plan file; opens the file picker straight away when there is no last plan. */
+  private async _pickBatchPlan(): Promise<{ plan: ActionPlan; name: string } | undefined> {
+    if (this._lastPlan) {
+      const choice = await vscode.window.showQuickPick(
+        [
+          { label: 'Last plan', description: `${this._lastPlan.steps.length} step(s)`, last: true },
+          { label: 'Plan file…', description: 'A saved .pwplan file', last: false },
+        ],
+        { placeHolder: 'Plan to run for every data row' }
+      );
+      if (!choice) {
+        return undefined;
+      }
+      if (choice.last) {
+        return { plan: this._lastPlan, name: 'the last plan' };
+      }
+    }
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Action Plans': ['json', 'yaml', 'yml'] },
+      openLabel: 'Batch Run Plan',
+    });
+    if (!uris || uris.length === 0) {
+      return undefined;
+    }
+    const fileName = path.basename(uris[0].fsPath);
+    const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uris[0]));
+    const parsed = parsePlanFile(content, planFileFormat(fileName), [...this._enabledTools], {
+      policy: this._getPolicy(),
+    });
+    if (!parsed.valid || !parsed.plan) {
+      throw new Error(`Invalid plan file ${fileName}:\n${parsed.errors.join('\n')}`);
+    }
+    return { plan: parsed.plan, name: fileName };
+  }
+
+  /**
+   * Runs every job in its own browser session, so runs share no cookies or
+   * tabs, and streams each run's status and results to the webview's grid.
+   */
+  private async _runBatch(
+    plan: ActionPlan,
+    description: string,
+    jobs: BatchJob[],
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const request = `Batch run of ${description}`;
+    this._chatHistory.push({ role: 'user', text: request });
+    this._view?.webview.postMessage({ type: 'userMessage', text: request });
+
+    const runs: BatchRunSummary[] = jobs.map((job) => ({
+      index: job.index,
+      label: job.label,
+      row: job.row,
+      browser: job.matrix?.browser,
+      device: job.matrix?.device,
+      variables: job.variables,
+      status: 'queued',
+      passedSteps: 0,
+      failedSteps: 0,
+    }));
+    this._batchRuns = runs;
+    const concurrency = Math.min(
+      MAX_BATCH_CONCURRENCY,
+      Math.max(1, Math.floor(vscode.workspace.getConfiguration('playwrightChatRunner').get<number>('batch.concurrency', 2)))
+    );
+    this._view?.webview.postMessage({ type: 'batchStart', title: request, concurrency, runs });
+
+    try {
+      const baseConfig = await this._getBrowserConfig(true);
+      const runnerOptions = await this._getRunnerOptions();
+      // Clean up once up front; cleaning per job could delete the folders of jobs still running
+      await this._cleanupRunDirs();
+      const skipped = await runWithConcurrency(
+        jobs,
+        concurrency,
+        async (job) => {
+          const run = runs[job.index];
+          run.status = 'running';
+          this._view?.webview.postMessage({ type: 'batchUpdate', run });
+          const started = Date.now();
+          const session = new BrowserSession({ config: mergeBrowserConfig(baseConfig, { ...job.matrix }) });
+          let results: ExecutionResult[];
+          try {
+            const errors = validateBrowserConfig(session.config);
+            if (errors.length > 0) {
+              throw new Error(`Invalid browser settings:\n${errors.join('\n')}`);
+            }
+            // Each job gets its own run folder, so concurrent jobs do not overwrite each other's files
+            const runner = new PlaywrightRunner(session, { ...runnerOptions, artifactsDir: runDirectory(this._getRunsRoot()) });
+            results = await runner.executePlan(plan, { variables: job.variables, cancellation: token });
+          } catch (err) {
+            results = [{ action: 'browser-init', success: false, error: err instanceof Error ? err.message : String(err) }];
+          } finally {
+            await session.close();
+          }
+          const verdict = getRunVerdict(results);
+          const failed = results.find((r) => !r.success && !r.skipped);
+          run.passedSteps = verdict.passedSteps;
+          run.failedSteps = verdict.failedSteps;
+          run.durationMs = Date.now() - started;
+          run.error = failed ? `${failed.action}: ${failed.error ?? 'unknown error'}` : undefined;
+          run.status = token.isCancellationRequested && !failed ? 'cancelled' : verdict.verdict === 'PASS' ? 'passed' : 'failed';
+          this._view?.webview.postMessage({ type: 'batchUpdate', run, results });
+        },
+        () => token.isCancellationRequested
+      );
+      for (const index of skipped) {
+        runs[index].status = 'cancelled';
+        this._view?.webview.postMessage({ type: 'batchUpdate', run: runs[index] });
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      for (const run of runs.filter((r) => r.status === 'queued')) {
+        run.status = 'cancelled';
+      }
+      this._view?.webview.postMessage({ type: 'error', text: `Batch run failed: ${errorMsg}` });
+    }
+
+    const failedRuns = runs.filter((r) => r.status === 'failed');
+    const summary = [
+      `Batch run finished. ${formatBatchSummary(runs)}.`,
+      ...failedRuns.slice(0, 10).map((r) => `- ${r.label}: ${r.error ?? 'failed'}`),
+      ...(failedRuns.length > 10 ? [`- …and ${failedRuns.length - 10} more failed run(s)`] : []),
+    ].join('\n');
+    this._chatHistory.push({ role: 'llm', text: summary });
+    this._view?.webview.postMessage({ type: 'batchDone', summary, runs });
+  }
+
+  /** The `batch.matrix` setting; throws if an entry is invalid. */
+  private _getBatchMatrix(): MatrixEntry[] {
+    const matrix = vscode.workspace.getConfiguration('playwrightChatRunner').get<unknown[]>('batch.matrix', []);
+    if (matrix.length === 0) {
+      return [];
+    }
+    const errors = validateMatrix(matrix, deviceNames());
+    if (errors.length > 0) {
+      throw new Error(`Invalid "batch.matrix" setting:\n${errors.join('\n')}`);
+    }
+    return matrix as MatrixEntry[];
+  }
+
+  /** Saves one line per run of the latest batch run as CSV or JSON. */
+  private async _handleExportBatch(format: 'json' | 'csv'): Promise<void> {
+    if (this._batchRuns.length === 0) {
+      vscode.window.showWarningMessage('There is no batch run to export yet.');
+      return;
+    }
+    const fileName = `batch-summary.${format}`;
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+      filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] },
+      saveLabel: 'Export Summary',
+      defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(fileName),
+    });
+    if (!uri) {
+      return;
+    }
+    try {
+      const content = format === 'csv' ? batchSummaryToCsv(this._batchRuns) : batchSummaryToJson(this._batchRuns);
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+      vscode.window.showInformationMessage(`Summary of ${this._batchRuns.length} run(s) exported to ${uri.fsPath}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Summary export failed: ${errorMsg}`);
+    }
+  }
+
+  private async _handleResetSession(): Promise<void> {
+    await this._session.close();
+    const resetMsg = 'Browser session reset. The next plan starts in a fresh browser.';
+    this._chatHistory.push({ role: 'llm', text: resetMsg });
+    this._view?.webview.postMessage({ type: 'llmMessage', text: resetMsg });
+    await this._postSessionState();
+  }
+
+  private async _postSessionState(): Promise<void> {
+    const state = await this._session.describe();
+    this._view?.webview.postMessage({ type: 'sessionState', state });
+  }
+
+  private async _describeSessionForPrompt(): Promise<string> {
+    const state = await this._session.describe();
+    if (!state.active) {
+      return 'Browser session: none open. The plan will start on a blank page, so begin with "goto".';
+    }
+    let description =
+      'Browser session: already open and kept between requests. Do not navigate away unless needed.\n' +
+      `Current URL: ${state.url}\n` +
+      `Current page title: ${state.title || '(none)'}`;
+    try {
+      const secretValues = Object.values(await this.secrets.getAll());
+      const outline = await observePage(await this._session.getPage(), this._getObservationTokens(), secretValues);
+      description += `\nCurrent page, as an outline with element refs:\n${maskSecrets(outline, secretValues)}`;
+    } catch {
+      // The outline is a planning aid; plan without it if the page cannot be read
+    }
+    return description;
+  }
+
+  private _getObservationTokens(): number {
+    return vscode.workspace
+      .getConfiguration('playwrightChatRunner')
+      .get<number>('observation.maxTokens', DEFAULT_OUTLINE_TOKENS);
+  }
+
+  private async _buildSystemPrompt(agentMode: boolean): Promise<string> {
+    const toolDescriptions = this._buildToolDescriptions();
+    const sessionDescription = await this._describeSessionForPrompt();
+    const policyDescription = this._describePolicyForPrompt();
+    const placeholderDescription = this._describePlaceholdersForPrompt();
+    let systemPrompt =
+      'You are a Playwright automation assistant.\n' +
+      'You MUST return ONLY valid JSON in this exact format: { "steps": [ ... ] }\n' +
+      'If you need clarification, return: { "clarification": "your question here" }\n' +
+      'Do NOT assume missing information. Ask before proceeding if unsure.\n' +
+      `${sessionDescription}\n` +
+      (policyDescription ? `${policyDescription}\n` : '') +
+      (placeholderDescription ? `${placeholderDescription}\n` : '') +
+      `Available tools:\n${toolDescriptions}\n` +
+      'ONLY use tools from the available list above.';
+    if (agentMode) {
+      systemPrompt +=
+        '\nYou are working iteratively: after your steps run you will be shown the results and the current page, ' +
+        'and can then send further steps or a corrected plan.\n' +
+        'When the goal is achieved, return: { "done": true, "summary": "what was accomplished" }';
+    }
+    return systemPrompt;
+  }
+
+  private async _runAgent(request: string, systemPrompt: string, token: vscode.CancellationToken): Promise<void> {
+    const view = this._view;
+    if (!view) {
+      return;
+    }
+    const runDir = await this._prepareRunDir();
+    const runner = await this._createRunner(runDir);
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner');
+
+    const allResults: ExecutionResult[] = [];
+    await this._startRecording(runDir);
+    let outcome: AgentOutcome;
+    try {
+      outcome = await runAgentLoop({
+        maxIterations: Math.max(1, config.get<number>('agent.maxIterations', 10)),
+        replanAfterEachStep: config.get<boolean>('agent.replanAfterEachStep', false),
+        enabledTools: [...this._enabledTools],
+        validationOptions: { policy: this._getPolicy() },
+        askModel: async (feedback) => {
+          if (feedback) {
+            this._chatHistory.push({ role: 'observation', text: feedback });
+          }
+          const response = await this._callLLM(systemPrompt, token);
+          this._chatHistory.push({ role: 'llm', text: response });
+          return response;
+        },
+        executePlan: async (plan) => {
+          this._lastPlan = plan;
+          this._lastPlanFile = undefined;
+          const sessionWasActive = this._session.isActive;
+          const results = await runner.executePlan(plan, { ...this._executePlanOptions(token), stopOnFailure: true });
+          this._recordBrowserLaunch(sessionWasActive);
+          this._recordExecutedSteps(request, plan, results, sessionWasActive);
+          await this._postSessionState();
+          this._postHealedSteps(plan, results);
+          return results;
+        },
+        reviewPlan: (plan) => this._reviewPlan(plan),
+        observe: () => runner.observe(),
+        isCancelled: () => token.isCancellationRequested,
+        onEvent: (event) => {
+          switch (event.type) {
+            case 'iteration':
+              view.webview.postMessage({
+                type: 'agentStatus',
+                text: `Iteration ${event.iteration}/${event.maxIterations}`,
+              });
+              break;
+            case 'plan':
+              view.webview.postMessage({
+                type: 'llmMessage',
+                text: `Executing ${event.plan.steps.length} step(s): ${event.plan.steps.map((s) => s.action).join(', ')}`,
+              });
+              break;
+            case 'invalidPlan':
+              view.webview.postMessage({
+                type: 'error',
+                text: `Invalid action plan, asking the model to correct it:\n${event.errors.join('\n')}`,
+              });
+              break;
+            case 'results':
+              allResults.push(...event.results);
+              for (const result of event.results) {
+                // The agent feedback already reports results to the model
+                this._chatHistory.push({ role: 'result', text: JSON.stringify(result), promptText: '', result });
+                view.webview.postMessage({ type: 'executionResult', result });
+              }
+              break;
+            case 'observation':
+              view.webview.postMessage({ type: 'observation', text: event.text });
+              break;
+          }
+        },
+      });
+    } finally {
+      await this._finishRecording(runDir);
+    }
+
+    let finalMsg: string;
+    if (outcome.status === 'done') {
+      finalMsg = `✅ Goal achieved: ${outcome.summary}`;
+    } else if (outcome.status === 'clarification') {
+      finalMsg = outcome.text;
+    } else if (outcome.status === 'rejected') {
+      finalMsg = 'Agent run stopped because the plan was rejected.';
+    } else if (outcome.status === 'cancelled') {
+      finalMsg = 'Agent run stopped by user.';
+    } else {
+      finalMsg = `Stopped after reaching the limit of ${outcome.iterations} iteration(s) without the goal being reported as achieved.`;
+    }
+    this._chatHistory.push({ role: 'llm', text: finalMsg });
+    view.webview.postMessage({ type: 'llmMessage', text: finalMsg });
+    if (allResults.length > 0) {
+      this._postVerdict(allResults);
+    }
+  }
+
+  /**
+   * Remembers the steps that actually ran. A plan that started a new browser
+   * session begins a new spec test, since each test gets a fresh page.
+   */
+  private _recordExecutedSteps(
+    request: string,
+    plan: ActionPlan,
+    results: ExecutionResult[],
+    sessionWasActive: boolean
+  ): void {
+    // Nothing ran when the browser could not start or a plan route could not be added
+    if (results.length === 0 || results[0].action === 'browser-init' || results[0].path?.startsWith('routes.')) {
+      return;
+    }
+    // Nested results belong to their block, which is exported as a whole
+    const topLevel = new Map(results.filter((r) => r.path && /^\d+$/.test(r.path)).map((r) => [Number(r.path), r]));
+    const steps = plan.steps
+      .map((step, i) => topLevel.get(i)?.healedStep ?? step)
+      .filter((_, i) => topLevel.has(i) && !topLevel.get(i)!.skipped);
+    const current = this._specTests[this._specTests.length - 1];
+    if (sessionWasActive && current) {
+      current.plan.steps.push(...steps);
+      if (plan.subPlans) {
+        current.plan.subPlans = { ...current.plan.subPlans, ...plan.subPlans };
+      }
+      if (plan.routes) {
+        current.plan.routes = [...(current.plan.routes ?? []), ...plan.routes];
+      }
+      if (plan.dialogs) {
+        current.plan.dialogs = plan.dialogs;
+      }
+    } else {
+      this._specTests.push({
+        title: request.split('\n')[0].slice(0, 80),
+        plan: { steps, subPlans: plan.subPlans, routes: plan.routes, dialogs: plan.dialogs },
+      });
+    }
+  }
+
+  /** Records the configuration of a browser the run just launched, so the run can be reproduced. */
+  private _recordBrowserLaunch(sessionWasActive: boolean): void {
+    if (sessionWasActive || !this._session.isActive) {
+      return;
+    }
+    const config = redactBrowserConfig(this._session.config);
+    const text = `Browser launched: ${describeBrowserConfig(config)}`;
+    this._chatHistory.push({ role: 'config', text, config });
+    this._view?.webview.postMessage({ type: 'browserConfig', text, config });
+  }
+
+  private _getRunsRoot(): string {
+    return path.join((this.context.storageUri ?? this.context.globalStorageUri).fsPath, 'runs');
+  }
+
+  private _getRecordingOptions(): RecordingOptions {
+    if (this._recording) {
+      return this._recording;
+    }
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner.artifacts');
+    return {
+      trace: config.get<boolean>('trace', false),
+      video: config.get<boolean>('video', false),
+      har: config.get<boolean>('har', false),
+    };
+  }
+
+  /** Applies the retention settings to earlier runs and returns the folder for a new one. */
+  private async _prepareRunDir(): Promise<string> {
+    await this._cleanupRunDirs();
+    return runDirectory(this._getRunsRoot());
+  }
+
+  private async _cleanupRunDirs(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner.artifacts');
+    try {
+      await cleanupRuns(this._getRunsRoot(), {
+        maxAgeDays: Math.max(0, config.get<number>('retentionDays', 7)),
+        maxRuns: Math.max(0, config.get<number>('maxRuns', 50)),
+      });
+    } catch {
+      // cleanup is best effort and must not block the run
+    }
+  }
+
+  private async _startRecording(runDir: string): Promise<void> {
+    const recording = this._getRecordingOptions();
+    if (hasRecording(recording)) {
+      await this._session.startRecording(runDir, recording);
+    }
+  }
+
+  /** Saves the recordings and shows links to everything the run left in its folder. */
+  private async _finishRecording(runDir: string): Promise<void> {
+    await this._session.stopRecording();
+    const artifacts = await listRunArtifacts(runDir);
+    if (isEmptyRun(artifacts)) {
+      return;
+    }
+    const text = `Run artifacts saved to ${artifacts.dir}`;
+    this._chatHistory.push({ role: 'artifacts', text, artifacts });
+    this._view?.webview.postMessage({ type: 'artifacts', artifacts });
+  }
+
+  /** Opens an artifact linked in the chat. Only files inside the runs folder are opened. */
+  private async _openArtifact(kind: string, file: string): Promise<void> {
+    const root = this._getRunsRoot();
+    if (!isInsideDirectory(root, file) || !fs.existsSync(file)) {
+      vscode.window.showErrorMessage(`Artifact not found: ${file}`);
+      return;
+    }
+    const uri = vscode.Uri.file(file);
+    try {
+      switch (kind) {
+        case 'trace': {
+          // Playwright's CLI ships with the extension; run it with VS Code's bundled Node
+          const cli = path.join(path.dirname(require.resolve('playwright/package.json')), 'cli.js');
+          childProcess
+            .spawn(process.execPath, [cli, 'show-trace', file], {
+              env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+              detached: true,
+              stdio: 'ignore',
+            })
+            .unref();
+          break;
+        }
+        case 'video':
+          await vscode.env.openExternal(uri);
+          break;
+        case 'har':
+          await vscode.window.showTextDocument(uri);
+          break;
+        case 'folder':
+          await vscode.commands.executeCommand('revealFileInOS', uri);
+          break;
+        default:
+          await vscode.commands.executeCommand('vscode.open', uri);
       }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Could not open ${path.basename(file)}: ${errorMsg}`);
+    }
+  }
+
+  private _postVerdict(results: ExecutionResult[]): void {
+    const verdict = getRunVerdict(results);
+    const text = formatVerdict(verdict);
+    this._chatHistory.push({ role: 'verdict', text });
+    this._view?.webview.postMessage({ type: 'verdict', verdict: verdict.verdict, text });
+  }
+
+  /** Posts a message to the webview and waits for the reply carrying the same id. */
+  private _askWebview(message: Record<string, unknown>): Promise<unknown> {
+    const view = this._view;
+    if (!view) {
+      return Promise.resolve(undefined);
+    }
+    const id = String(++this._nextReplyId);
+    return new Promise((resolve) => {
+      this._pendingReplies.set(id, resolve);
+      view.webview.postMessage({ ...message, id });
     });
   }
 
+  /**
+   * In approval mode, or when `always` is set, shows the plan as an editable
+   * list and waits for the user. Edited steps are re-validated before they
+   * are accepted. Returns undefined when the plan is rejected.
+   */
+  private async _reviewPlan(
+    plan: ActionPlan,
+    options: { always?: boolean; errors?: string[] } = {}
+  ): Promise<ActionPlan | undefined> {
+    if (this._executionMode !== 'approve' && !options.always) {
+      return plan;
+    }
+    let errors: string[] = options.errors ?? [];
+    let steps: unknown[] = plan.steps;
+    for (;;) {
+      const reply = (await this._askWebview({ type: 'planPreview', steps, errors })) as PlanDecision | undefined;
+      if (!reply || reply.decision === 'reject') {
+        const rejectedMsg = 'Plan rejected. Nothing was executed.';
+        this._chatHistory.push({ role: 'llm', text: rejectedMsg });
+        this._view?.webview.postMessage({ type: 'llmMessage', text: rejectedMsg });
+        return undefined;
+      }
+      steps = reply.steps ?? [];
+      const validation = validateActionPlan({ ...plan, steps }, [...this._enabledTools], {
+        policy: this._getPolicy(),
+      });
+      if (validation.valid && validation.plan) {
+        return validation.plan;
+      }
+      errors = validation.errors;
+    }
+  }
+
+  private _executePlanOptions(token?: vscode.CancellationToken): ExecutePlanOptions {
+    if (this._executionMode !== 'step') {
+      return { cancellation: token };
+    }
+    return {
+      cancellation: token,
+      beforeStep: async (step, index, total) => {
+        const reply = (await this._askWebview({ type: 'stepPrompt', step, index, total })) as
+          | { decision: StepDecision }
+          | undefined;
+        return reply?.decision ?? 'abort';
+      },
+    };
+  }
+
+  /** Runs a validated plan in the persistent session and reports its results and verdict. */
+  private async _executePlan(
+    plan: ActionPlan,
+    request: string,
+    token?: vscode.CancellationToken
+  ): Promise<ExecutionResult[]> {
+    const runDir = await this._prepareRunDir();
+    const runner = await this._createRunner(runDir);
+    const sessionWasActive = this._session.isActive;
+    await this._startRecording(runDir);
+    let results: ExecutionResult[];
+    try {
+      results = await runner.executePlan(plan, this._executePlanOptions(token));
+    } finally {
+      await this._finishRecording(runDir);
+    }
+    this._recordBrowserLaunch(sessionWasActive);
+    this._recordExecutedSteps(request, plan, results, sessionWasActive);
+    await this._postSessionState();
+
+    for (const result of results) {
+      this._chatHistory.push({ role: 'result', text: JSON.stringify(result), result });
+      this._view?.webview.postMessage({ type: 'executionResult', result });
+    }
+    this._postHealedSteps(plan, results);
+    this._postVerdict(results);
+    if (token?.isCancellationRequested) {
+      this._postStopped();
+    }
+    return results;
+  }
+
+  /** Replays a saved plan directly, without asking the model. */
+  private async _replayPlan(loadedPlan: ActionPlan, fileName: string, token: vscode.CancellationToken): Promise<void> {
+    const request = `Replay saved plan ${fileName}`;
+    this._chatHistory.push({ role: 'user', text: request });
+    this._view?.webview.postMessage({ type: 'userMessage', text: request });
+    const plan = await this._reviewPlan(loadedPlan);
+    if (!plan) {
+      return;
+    }
+    this._lastPlan = plan;
+
+    const replayMsg = `Replaying ${plan.steps.length} step(s) from ${fileName} without the language model...`;
+    this._chatHistory.push({ role: 'llm', text: replayMsg, promptText: JSON.stringify(plan) });
+    this._view?.webview.postMessage({ type: 'llmMessage', text: replayMsg });
+
+    try {
+      await this._executePlan(plan, fileName, token);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this._chatHistory.push({ role: 'llm', text: `Error: ${errorMsg}` });
+      this._view?.webview.postMessage({ type: 'error', text: errorMsg });
+    }
+  }
+
   private async _handleSubmit(text: string): Promise<void> {
+    await this._enqueueRun(text, (token) => this._processRequest(text, token));
+  }
+
+  /**
+   * Runs `task` now, or queues it while another request is running. Queued
+   * tasks run in order once the current one finishes. Send is disabled in the
+   * webview during a run, so the queue mostly holds loaded instruction files
+   * and plans.
+   */
+  private async _enqueueRun(label: string, task: QueuedRun['task']): Promise<void> {
+    if (this._activeRun) {
+      this._queuedRuns.push({ label, task });
+      const firstLine = label.split('\n')[0];
+      const queuedMsg = `Queued "${firstLine.length > 60 ? `${firstLine.slice(0, 59)}…` : firstLine}"; it runs after the current request.`;
+      this._view?.webview.postMessage({ type: 'llmMessage', text: queuedMsg });
+      this._postRunState();
+      return;
+    }
+    let next: QueuedRun | undefined = { label, task };
+    while (next) {
+      const cts = new vscode.CancellationTokenSource();
+      this._activeRun = cts;
+      this._postRunState();
+      try {
+        await next.task(cts.token);
+      } finally {
+        this._activeRun = undefined;
+        cts.dispose();
+      }
+      next = this._queuedRuns.shift();
+    }
+    this._postRunState();
+  }
+
+  /**
+   * Stops the request in progress: cancels the model request, closes the
+   * browser to cut the current step short, and drops queued requests.
+   */
+  private _handleStop(): void {
+    if (!this._activeRun || this._activeRun.token.isCancellationRequested) {
+      return;
+    }
+    const dropped = this._queuedRuns.length;
+    this._queuedRuns = [];
+    this._activeRun.cancel();
+    // Unblock plan reviews and step prompts; an undefined reply means reject/abort
+    for (const resolve of this._pendingReplies.values()) {
+      resolve(undefined);
+    }
+    this._pendingReplies.clear();
+    const stoppingMsg = `Stopping…${dropped > 0 ? ` ${dropped} queued request(s) were dropped.` : ''}`;
+    this._view?.webview.postMessage({ type: 'agentStatus', text: stoppingMsg });
+    this._postRunState();
+  }
+
+  private _postRunState(): void {
+    this._view?.webview.postMessage({
+      type: 'runState',
+      running: this._activeRun !== undefined,
+      stopping: this._activeRun?.token.isCancellationRequested ?? false,
+      queued: this._queuedRuns.length,
+    });
+  }
+
+  private _postStopped(): void {
+    const stoppedMsg = 'Stopped by user. The browser was closed and the remaining steps were skipped.';
+    this._chatHistory.push({ role: 'llm', text: stoppedMsg });
+    this._view?.webview.postMessage({ type: 'llmMessage', text: stoppedMsg });
+  }
+
+  private async _processRequest(text: string, token: vscode.CancellationToken): Promise<void> {
     if (!this._view) {
       return;
     }
     this._chatHistory.push({ role: 'user', text });
     this._view.webview.postMessage({ type: 'userMessage', text });
 
-    const cts = new vscode.CancellationTokenSource();
     try {
-      const token = cts.token;
-
       // Early exit when no tools are enabled
       if (this._enabledTools.length === 0) {
         const noToolsMsg = 'No tools are currently enabled. Please enable at least one tool in the "Enabled Tools" panel before submitting a command.';
@@ -81,124 +1076,463 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         return;
       }
 
-      // Build system prompt
-      const toolDescriptions = this._buildToolDescriptions();
-      const systemPrompt =
-        'You are a Playwright automation assistant.\n' +
-        'You MUST return ONLY valid JSON in this exact format: { "steps": [ ... ] }\n' +
-        'If you need clarification, return: { "clarification": "your question here" }\n' +
-        'Do NOT assume missing information. Ask before proceeding if unsure.\n' +
-        `Available tools:\n${toolDescriptions}\n` +
-        'ONLY use tools from the available list above.';
-
-      const response = await this._callLLM(systemPrompt, text, token);
-
-      // Try to parse as JSON
-      let parsed: unknown;
-      let isClarification = false;
-
-      try {
-        parsed = JSON.parse(response);
-        if (
-          typeof parsed === 'object' &&
-          parsed !== null &&
-          'clarification' in (parsed as object)
-        ) {
-          isClarification = true;
-        }
-      } catch {
-        isClarification = true;
-      }
+      const systemPrompt = await this._buildSystemPrompt(this._agentMode);
 
-      if (isClarification) {
-        let displayText = response;
-        if (parsed && typeof parsed === 'object' && 'clarification' in (parsed as object)) {
-          displayText = (parsed as { clarification: string }).clarification;
-        }
-        this._chatHistory.push({ role: 'llm', text: displayText });
-        this._view.webview.postMessage({ type: 'llmMessage', text: displayText });
+      if (this._agentMode) {
+        await this._runAgent(text, systemPrompt, token);
         return;
       }
 
-      // Validate action plan using only explicitly enabled tools
-      const enabledTools: string[] = [...this._enabledTools];
-      const validation = validateActionPlan(parsed, enabledTools);
+      const outcome = await runChatTurn({
+        // Validate action plans using only explicitly enabled tools
+        enabledTools: [...this._enabledTools],
+        validationOptions: { policy: this._getPolicy() },
+        askModel: (followUp) => this._callLLM(systemPrompt, token, followUp),
+        reviewPlan: (plan) => this._reviewPlan(plan),
+        executePlan: (plan, promptText) => {
+          this._lastPlan = plan;
+          this._lastPlanFile = undefined;
+          const executingMsg = 'Executing plan...';
+          this._chatHistory.push({ role: 'llm', text: executingMsg, promptText });
+          this._view?.webview.postMessage({ type: 'llmMessage', text: executingMsg });
+          return this._executePlan(plan, text, token);
+        },
+        isCancelled: () => token.isCancellationRequested,
+      });
 
-      if (!validation.valid || !validation.plan) {
-        const errorMsg = `Invalid action plan:\n${validation.errors.join('\n')}`;
+      if (outcome.status === 'answered') {
+        this._chatHistory.push({ role: 'llm', text: outcome.text });
+        this._view.webview.postMessage({ type: 'llmMessage', text: outcome.text });
+      } else if (outcome.status === 'invalidPlan') {
+        const errorMsg = `Invalid action plan:\n${outcome.errors.join('\n')}`;
         this._chatHistory.push({ role: 'llm', text: errorMsg });
         this._view.webview.postMessage({ type: 'error', text: errorMsg });
+      } else if (outcome.status === 'executed' && outcome.interpretation !== undefined) {
+        this._chatHistory.push({ role: 'llm', text: outcome.interpretation });
+        this._view.webview.postMessage({ type: 'llmMessage', text: outcome.interpretation });
+      }
+    } catch (err) {
+      if (token.isCancellationRequested) {
+        // The model request or the browser was cut off on purpose
+        const stoppedMsg = 'Stopped by user.';
+        this._chatHistory.push({ role: 'llm', text: stoppedMsg });
+        this._view?.webview.postMessage({ type: 'llmMessage', text: stoppedMsg });
+        await this._postSessionState();
         return;
       }
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this._chatHistory.push({ role: 'llm', text: `Error: ${errorMsg}` });
+      this._view?.webview.postMessage({ type: 'error', text: errorMsg });
+    }
+  }
 
-      const plan: ActionPlan = validation.plan;
-      const executingMsg = 'Executing plan...';
-      this._chatHistory.push({ role: 'llm', text: executingMsg });
-      this._view.webview.postMessage({ type: 'llmMessage', text: executingMsg });
+  /**
+   * Sends the chat history to the model, with `followUp` appended as a final
+   * user message that is not recorded in the history.
+   */
+  private async _callLLM(
+    systemPrompt: string,
+    token: vscode.CancellationToken,
+    followUp?: string
+  ): Promise<string> {
+    const history: ChatEntry[] = followUp
+      ? [...this._chatHistory, { role: 'user', text: followUp }]
+      : this._chatHistory;
+    return requestCompletion(await this._getLLMProvider(), systemPrompt, history, {
+      maxTokens: this._getConversationTokenBudget(),
+      modelId: this.context.globalState.get<string>(MODEL_ID_KEY),
+      cancellation: token,
+    });
+  }
+
+  /** The backend chosen in the `model.provider` setting. */
+  private async _getLLMProvider(): Promise<LLMProvider> {
+    if (this._llm) {
+      return this._llm;
+    }
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner.model');
+    const provider = config.get<string>('provider', 'vscode');
+    if (provider === 'openaiCompatible') {
+      this._llm = new OpenAICompatibleProvider({
+        endpoint: config.get<string>('endpoint', 'http://localhost:11434/v1'),
+        model: config.get<string>('name') || undefined,
+        apiKey: await this.context.secrets.get(MODEL_API_KEY_SECRET),
+        maxInputTokens: config.get<number>('maxInputTokens', DEFAULT_MAX_INPUT_TOKENS),
+      });
+    } else if (provider === 'scripted') {
+      const scriptFile = config.get<string>('scriptFile', '');
+      if (!scriptFile) {
+        throw new Error('Set "playwrightChatRunner.model.scriptFile" to a JSON file of responses to use the scripted model.');
+      }
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+      const uri = path.isAbsolute(scriptFile) || !workspaceFolder
+        ? vscode.Uri.file(scriptFile)
+        : vscode.Uri.joinPath(workspaceFolder, scriptFile);
+      const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+      this._llm = new ScriptedProvider(parseScript(content));
+    } else {
+      this._llm = new VsCodeLMProvider();
+    }
+    return this._llm;
+  }
+
+  private async _postModels(): Promise<void> {
+    let models: LLMModelInfo[] = [];
+    try {
+      models = await (await this._getLLMProvider()).listModels();
+    } catch {
+      // A broken setting is reported when the next request needs the model
+    }
+    this._view?.webview.postMessage({
+      type: 'models',
+      models,
+      selected: this.context.globalState.get<string>(MODEL_ID_KEY, ''),
+    });
+  }
 
-      // Execute plan
-      const runner = new PlaywrightRunner();
-      const results = await runner.executePlan(plan);
+  /** Stores the API key sent to an OpenAI-compatible endpoint; an empty value removes it. */
+  async setModelApiKey(): Promise<void> {
+    const key = await vscode.window.showInputBox({
+      prompt: 'API key for the OpenAI-compatible model endpoint (leave empty to remove it)',
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (key === undefined) {
+      return;
+    }
+    if (key) {
+      await this.context.secrets.store(MODEL_API_KEY_SECRET, key);
+    } else {
+      await this.context.secrets.delete(MODEL_API_KEY_SECRET);
+    }
+    this._llm = undefined;
+    vscode.window.showInformationMessage(key ? 'Model API key saved.' : 'Model API key removed.');
+  }
 
-      for (const result of results) {
-        this._chatHistory.push({ role: 'result', text: JSON.stringify(result), result });
-        this._view.webview.postMessage({ type: 'executionResult', result });
+  private async _createRunner(artifactsDir?: string): Promise<PlaywrightRunner> {
+    this._session.idleTimeoutMs = this._getIdleTimeoutMs();
+    if (await this._session.configure(await this._getBrowserConfig())) {
+      const restartMsg = 'Browser settings changed; the previous session was closed and a new browser will be launched.';
+      this._chatHistory.push({ role: 'llm', text: restartMsg });
+      this._view?.webview.postMessage({ type: 'llmMessage', text: restartMsg });
+      await this._postSessionState();
+    }
+    return new PlaywrightRunner(this._session, { ...(await this._getRunnerOptions()), artifactsDir });
+  }
+
+  private async _getRunnerOptions(): Promise<RunnerOptions> {
+    return {
+      templateContext: { secrets: await this.secrets.getAll(), vars: this._getVars() },
+      workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+      policy: this._getPolicy(),
+      observationTokens: this._getObservationTokens(),
+      healing: vscode.workspace.getConfiguration('playwrightChatRunner').get<boolean>('healing.enabled', true),
+      ...this._getExecutionDefaults(),
+      confirm: async (message) => {
+        const choice = await vscode.window.showWarningMessage(message, { modal: true }, 'Allow');
+        return choice === 'Allow';
+      },
+    };
+  }
+
+  /**
+   * Workspace browser settings with the webview's per-run overrides and the
+   * selected auth profile applied. Throws if the result is invalid.
+   */
+  private async _getBrowserConfig(withAuthProfile = true): Promise<BrowserConfig> {
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner.browser');
+    const workspaceConfig = mergeBrowserConfig(DEFAULT_BROWSER_CONFIG, {
+      browser: config.get('engine'),
+      headless: config.get('headless'),
+      slowMo: config.get('slowMo'),
+      device: config.get('device'),
+      viewport: config.get('viewport'),
+      locale: config.get('locale'),
+      timezoneId: config.get('timezoneId'),
+      geolocation: config.get('geolocation'),
+      colorScheme: config.get('colorScheme'),
+      extraHTTPHeaders: config.get('extraHTTPHeaders'),
+      proxy: config.get('proxy'),
+    });
+    const browserConfig = mergeBrowserConfig(workspaceConfig, this._browserOverrides);
+    if (withAuthProfile && this._authProfile) {
+      const profile = await this._authProfiles.get(this._authProfile);
+      if (!profile) {
+        throw new Error(`Auth profile "${this._authProfile}" no longer exists; pick another one in the Browser panel.`);
+      }
+      browserConfig.authProfile = profile.name;
+      browserConfig.storageState = this._authProfiles.statePath(profile);
+      // Warn when a browser is about to start with the profile, not on every plan
+      const warning = profileExpiryWarning(profile);
+      if (warning && (!this._session.isActive || this._session.config.storageState !== browserConfig.storageState)) {
+        this._view?.webview.postMessage({ type: 'error', text: warning });
       }
+    }
+    const errors = validateBrowserConfig(browserConfig);
+    if (errors.length > 0) {
+      throw new Error(`Invalid browser settings:\n${errors.join('\n')}`);
+    }
+    return browserConfig;
+  }
+
+  private async _postAuthProfiles(): Promise<void> {
+    const profiles = await this._authProfiles.list();
+    if (this._authProfile && !profiles.some((p) => p.name === this._authProfile)) {
+      this._authProfile = undefined;
+    }
+    this._view?.webview.postMessage({
+      type: 'authProfiles',
+      selected: this._authProfile ?? '',
+      profiles: profiles.map((p) => ({ name: p.name, warning: profileExpiryWarning(p) })),
+    });
+  }
+
+  private async _promptProfileName(value?: string): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+      prompt: 'Auth profile name',
+      placeHolder: 'admin@staging',
+      value,
+      validateInput: (name) => validateProfileName(name),
+    });
+  }
+
+  /**
+   * Captures a new auth profile, either by running a saved login plan in a
+   * fresh browser or by letting the user sign in by hand in a headed browser.
+   */
+  async captureAuthProfile(): Promise<void> {
+    const method = await vscode.window.showQuickPick(
+      [
+        { label: 'Sign in manually', description: 'Opens a browser window to sign in by hand', source: 'manual' as AuthProfileSource },
+        { label: 'Run a login plan', description: 'Replays a saved .pwplan file', source: 'plan' as AuthProfileSource },
+      ],
+      { placeHolder: 'How should the sign-in state be captured?' }
+    );
+    if (!method) {
+      return;
+    }
 
-      // Feed results back to LLM for interpretation
-      const resultsText = results
-        .map((r) => `${r.action}: ${r.success ? 'success' : 'failed'} ${r.data ?? ''} ${r.error ?? ''}`)
-        .join('\n');
+    let session: BrowserSession | undefined;
+    try {
+      const baseConfig = await this._getBrowserConfig(false);
+      let name: string | undefined;
+      if (method.source === 'manual') {
+        const url = await vscode.window.showInputBox({
+          prompt: 'Page to open for signing in (optional)',
+          placeHolder: 'https://example.com/login',
+        });
+        if (url === undefined) {
+          return;
+        }
+        const violation = url ? checkUrl(url, this._getPolicy()) : undefined;
+        if (violation) {
+          throw new Error(`Policy violation: ${violation}`);
+        }
+        name = await this._promptProfileName();
+        if (!name) {
+          return;
+        }
+        session = new BrowserSession({ config: { ...baseConfig, headless: false } });
+        const page = await session.getPage();
+        if (url) {
+          await page.goto(url);
+        }
+        const choice = await vscode.window.showInformationMessage(
+          `Sign in in the browser window, then click "Save Profile" to save it as "${name}".`,
+          'Save Profile',
+          'Cancel'
+        );
+        if (choice !== 'Save Profile') {
+          return;
+        }
+      } else {
+        const uris = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: { 'Action Plans': ['json', 'yaml', 'yml'] },
+          openLabel: 'Run Login Plan',
+        });
+        if (!uris || uris.length === 0) {
+          return;
+        }
+        const fileName = path.basename(uris[0].fsPath);
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uris[0]));
+        const parsed = parsePlanFile(content, planFileFormat(fileName), [...this._enabledTools], {
+          policy: this._getPolicy(),
+        });
+        if (!parsed.valid || !parsed.plan) {
+          throw new Error(`Invalid plan file ${fileName}:\n${parsed.errors.join('\n')}`);
+        }
+        name = await this._promptProfileName(parsed.metadata.name);
+        if (!name) {
+          return;
+        }
+        session = new BrowserSession({ config: baseConfig });
+        const runner = new PlaywrightRunner(session, await this._getRunnerOptions());
+        const results = await runner.executePlan(parsed.plan, { stopOnFailure: true });
+        const failed = results.find((r) => !r.success);
+        if (failed) {
+          throw new Error(`Login plan failed at "${failed.action}": ${failed.error ?? 'unknown error'}`);
+        }
+      }
 
-      const interpretationPrompt = `The following Playwright steps were executed:\n${resultsText}\nPlease provide a brief summary of what happened.`;
-      const interpretation = await this._callLLM(systemPrompt, interpretationPrompt, token);
-      this._chatHistory.push({ role: 'llm', text: interpretation });
-      this._view.webview.postMessage({ type: 'llmMessage', text: interpretation });
+      const profile = await this._authProfiles.save(name, await session.storageState(), method.source);
+      const warning = profileExpiryWarning(profile);
+      vscode.window.showInformationMessage(
+        `Auth profile "${profile.name}" saved for ${profile.sites.join(', ') || 'no sites'}.${warning ? ` ${warning}` : ''}`
+      );
+      await this._postAuthProfiles();
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : String(err);
-      this._chatHistory.push({ role: 'llm', text: `Error: ${errorMsg}` });
-      this._view?.webview.postMessage({ type: 'error', text: errorMsg });
+      vscode.window.showErrorMessage(`Capturing the auth profile failed: ${errorMsg}`);
     } finally {
-      cts.dispose();
+      await session?.close();
     }
   }
 
-  private async _callLLM(
-    systemPrompt: string,
-    userText: string,
-    token: vscode.CancellationToken
-  ): Promise<string> {
-    // Check if vscode.lm API is available
-    if (!vscode.lm) {
-      throw new Error('VS Code Language Model API is not available in this version of VS Code.');
+  /** Lists auth profiles with their expiry status and lets the user rename or delete one. */
+  async manageAuthProfiles(): Promise<void> {
+    const profiles = await this._authProfiles.list();
+    if (profiles.length === 0) {
+      vscode.window.showInformationMessage('No auth profiles yet. Use "Capture Auth Profile" to create one.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      profiles.map((p) => {
+        const warning = profileExpiryWarning(p);
+        return {
+          label: `${warning ? '$(warning) ' : ''}${p.name}`,
+          description: `${p.source === 'plan' ? 'login plan' : 'manual sign-in'}, captured ${new Date(p.createdAt).toLocaleString()}`,
+          detail: warning ?? `Sites: ${p.sites.join(', ') || 'none'}`,
+          profile: p,
+        };
+      }),
+      { placeHolder: 'Auth profiles' }
+    );
+    if (!picked) {
+      return;
     }
+    const action = await vscode.window.showQuickPick(['Rename', 'Delete'], { placeHolder: picked.profile.name });
+    try {
+      if (action === 'Rename') {
+        const newName = await this._promptProfileName(picked.profile.name);
+        if (!newName || newName === picked.profile.name) {
+          return;
+        }
+        await this._authProfiles.rename(picked.profile.name, newName);
+        if (this._authProfile === picked.profile.name) {
+          this._authProfile = newName;
+        }
+      } else if (action === 'Delete') {
+        const confirmed = await vscode.window.showWarningMessage(
+          `Delete auth profile "${picked.profile.name}"?`,
+          { modal: true },
+          'Delete'
+        );
+        if (confirmed !== 'Delete') {
+          return;
+        }
+        await this._authProfiles.delete(picked.profile.name);
+      } else {
+        return;
+      }
+      await this._postAuthProfiles();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Updating the auth profile failed: ${errorMsg}`);
+    }
+  }
 
-    // Try preferred model families first, then fall back to any Copilot model, then any available model
-    let models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4o' });
-    if (!models || models.length === 0) {
-      models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4o-mini' });
+  private _getVars(): Record<string, string> {
+    const vars = vscode.workspace.getConfiguration('playwrightChatRunner').get<Record<string, unknown>>('vars', {});
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(vars)) {
+      result[name] = String(value);
     }
-    if (!models || models.length === 0) {
-      models = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+    return result;
+  }
+
+  /** Lists placeholder names for the model. Values are never included. */
+  private _describePlaceholdersForPrompt(): string {
+    const secretNames = this.secrets.listNames();
+    const varNames = Object.keys(this._getVars());
+    if (secretNames.length === 0 && varNames.length === 0) {
+      return '';
     }
-    if (!models || models.length === 0) {
-      models = await vscode.lm.selectChatModels();
+    const lines = ['Use placeholders instead of asking for credentials or configured values; they are filled in at run time.'];
+    if (secretNames.length > 0) {
+      lines.push(`Secrets: ${secretNames.map((n) => `\${{secrets.${n}}}`).join(', ')}`);
     }
-    if (!models || models.length === 0) {
-      throw new Error('No language models available. Please ensure GitHub Copilot is installed and signed in.');
+    if (varNames.length > 0) {
+      lines.push(`Variables: ${varNames.map((n) => `\${{vars.${n}}}`).join(', ')}`);
     }
+    return lines.join('\n');
+  }
 
-    const model = models[0];
-    const messages = [
-      vscode.LanguageModelChatMessage.User(`${systemPrompt}\n\nUser request: ${userText}`),
+  private _getPolicy(): ExecutionPolicy {
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner.policy');
+    return {
+      allowedHosts: config.get<string[]>('allowedHosts', []),
+      blockedHosts: config.get<string[]>('blockedHosts', []),
+      blockedSelectors: config.get<string[]>('blockedSelectors', []),
+      confirmSelectors: config.get<string[]>('confirmSelectors', []),
+      blockedActions: config.get<string[]>('blockedActions', []),
+      confirmActions: config.get<string[]>('confirmActions', []),
+    };
+  }
+
+  /** Workspace timing and failure settings for the runner. Invalid timing values are ignored with a warning. */
+  private _getExecutionDefaults(): Pick<RunnerOptions, 'defaults' | 'navigationTimeout' | 'deadlineMs' | 'onFailure'> {
+    const config = vscode.workspace.getConfiguration('playwrightChatRunner.execution');
+    const defaults: StepTiming = {
+      timeout: config.get<number>('timeoutMs', 10000),
+      retries: config.get<number>('retries', 0),
+      backoffMs: config.get<number>('retryBackoffMs', 1000),
+      waitUntil: config.get<StepTiming['waitUntil']>('waitUntil', 'load'),
+    };
+    const navigationTimeout = config.get<number>('navigationTimeoutMs', 30000);
+    const errors = [
+      ...validateStepTiming(defaults as Record<string, unknown>, 'playwrightChatRunner.execution:'),
+      ...validateStepTiming({ timeout: navigationTimeout }, 'playwrightChatRunner.execution.navigationTimeoutMs:'),
     ];
+    if (errors.length > 0) {
+      vscode.window.showWarningMessage(`Ignoring invalid execution settings:\n${errors.join('\n')}`);
+      return { onFailure: config.get<FailurePolicy>('onFailure', 'stop') };
+    }
+    const deadlineSeconds = config.get<number>('runDeadlineSeconds', 0);
+    return {
+      defaults,
+      navigationTimeout,
+      deadlineMs: deadlineSeconds > 0 ? deadlineSeconds * 1000 : undefined,
+      onFailure: config.get<FailurePolicy>('onFailure', 'stop'),
+    };
+  }
 
-    const request = await model.sendRequest(messages, {}, token);
-    let response = '';
-    for await (const chunk of request.text) {
-      response += chunk;
+  private _describePolicyForPrompt(): string {
+    const policy = this._getPolicy();
+    const lines: string[] = [];
+    if (policy.allowedHosts.length > 0) {
+      lines.push(`Only these hosts may be visited: ${policy.allowedHosts.join(', ')}`);
     }
-    return response.trim();
+    if (policy.blockedHosts.length > 0) {
+      lines.push(`Never visit these hosts: ${policy.blockedHosts.join(', ')}`);
+    }
+    if (policy.blockedSelectors.length > 0) {
+      lines.push(`Never interact with elements matching: ${policy.blockedSelectors.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  private _getIdleTimeoutMs(): number {
+    const minutes = vscode.workspace
+      .getConfiguration('playwrightChatRunner')
+      .get<number>('session.idleTimeoutMinutes', 10);
+    return Math.max(0, minutes) * 60 * 1000;
+  }
+
+  private _getConversationTokenBudget(): number {
+    return vscode.workspace
+      .getConfiguration('playwrightChatRunner')
+      .get<number>('conversation.maxTokens', 8000);
   }
 
   private _buildToolDescriptions(): string {
@@ -206,21 +1540,87 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     const descriptions: Record<string, string> = {
       goto: 'goto: { "action": "goto", "url": "<string>" } - Navigate to a URL',
       clickText: 'clickText: { "action": "clickText", "text": "<string>" } - Click element by visible text',
-      type: 'type: { "action": "type", "selector": "<string>", "value": "<string>" } - Type into an element',
+      type: 'type: { "action": "type", "locator": <locator>, "value": "<string>" } - Type into an element',
       waitForText: 'waitForText: { "action": "waitForText", "text": "<string>" } - Wait for text to appear',
-      extractText: 'extractText: { "action": "extractText", "selector": "<string>" } - Extract text from element',
-      snapshotText: 'snapshotText: { "action": "snapshotText" } - Get all visible text from page body',
+      extractText: 'extractText: { "action": "extractText", "locator": <locator>, "saveAs": "<name>" } - Extract text from element; saveAs is optional',
+      snapshotText: 'snapshotText: { "action": "snapshotText", "saveAs": "<name>" } - Get all visible text from page body; saveAs is optional',
       screenshot: 'screenshot: { "action": "screenshot", "name": "<string>" } - Take a screenshot',
-      closeBrowser: 'closeBrowser: { "action": "closeBrowser" } - Close the browser',
+      closeBrowser: 'closeBrowser: { "action": "closeBrowser" } - Close the browser and end the session',
+      click: 'click: { "action": "click", "locator": <locator> } - Click an element',
+      selectOption: 'selectOption: { "action": "selectOption", "locator": <locator>, "value": "<string>" } - Choose an option in a <select>; use "values": ["<string>", ...] for multi-select',
+      check: 'check: { "action": "check", "locator": <locator> } - Check a checkbox or radio button',
+      uncheck: 'uncheck: { "action": "uncheck", "locator": <locator> } - Uncheck a checkbox',
+      press: 'press: { "action": "press", "key": "<string>", "locator": <locator> } - Press a key or shortcut such as "Enter", "Tab" or "Control+A"; without a locator the focused element receives it',
+      hover: 'hover: { "action": "hover", "locator": <locator> } - Hover over an element',
+      scrollIntoView: 'scrollIntoView: { "action": "scrollIntoView", "locator": <locator> } - Scroll an element into view',
+      setInputFiles: 'setInputFiles: { "action": "setInputFiles", "locator": <locator>, "files": ["<workspace-relative path>"] } - Upload workspace files through a file input',
+      expectText: 'expectText: { "action": "expectText", "text": "<string>", "locator": <locator> } - Assert an element (or the page, without a locator) contains text',
+      expectVisible: 'expectVisible: { "action": "expectVisible", "locator": <locator>, "visible": <boolean> } - Assert an element is visible, or hidden with "visible": false',
+      expectUrl: 'expectUrl: { "action": "expectUrl", "url": "<string>" } - Assert the current URL contains a string',
+      expectTitle: 'expectTitle: { "action": "expectTitle", "text": "<string>" } - Assert the page title contains a string',
+      expectCount: 'expectCount: { "action": "expectCount", "locator": <locator>, "count": <number> } - Assert how many elements match',
+      expectAttribute: 'expectAttribute: { "action": "expectAttribute", "locator": <locator>, "attribute": "<string>", "value": "<string>" } - Assert an element attribute value',
+      extractList: 'extractList: { "action": "extractList", "rowSelector": "<css>", "fields": { "<name>": "<css relative to row>" or { "selector": "<css>", "attribute": "<string>", "type": "string|number|boolean" } }, "pagination": { "nextSelector": "<css>", "maxPages": <number> }, "maxRows": <number> } - Extract one record per matching row; pagination and maxRows are optional',
+      extractTable: 'extractTable: { "action": "extractTable", "selector": "<css of the table>", "fields": { "<name>": "<column header>" or <column index> or { "column": "<header>", "type": "number" } } } - Extract table rows as records; without fields every column is read; accepts "pagination" and "maxRows" like extractList',
+      observe: 'observe: { "action": "observe", "maxTokens": <number> } - Outline the current page\'s interactive elements, headings and landmarks with ref IDs that later steps can target with { "ref": "<id>" }; maxTokens is optional',
+      if: 'if: { "action": "if", "condition": <condition>, "then": [<steps>], "else": [<steps>] } - Run "then" when the condition holds, otherwise "else"; else is optional',
+      forEach: 'forEach: { "action": "forEach", "locator": <locator>, "attribute": "<string>", "as": "<name>", "maxItems": <number>, "steps": [<steps>] } - Run the steps once per matching element\'s text (or attribute), available as ${<name>}; use "items": ["<string>", ...] instead of a locator to loop over fixed values; as defaults to "item", maxItems to 20',
+      retry: 'retry: { "action": "retry", "attempts": <2-5>, "delayMs": <number>, "steps": [<steps>] } - Run the steps again from the start when one of them fails',
+      call: 'call: { "action": "call", "subPlan": "<name>", "with": { "<name>": "<string>" } } - Run a sub-plan from the plan\'s top-level "subPlans": { "<name>": [<steps>] }, setting the "with" variables first',
+      route: 'route: { "action": "route", "rule": <route> } - Intercept matching requests for the rest of the run',
+      unroute: 'unroute: { "action": "unroute", "url": "<glob>" } - Remove the routes added for this URL glob',
+      waitForResponse: 'waitForResponse: { "action": "waitForResponse", "url": "<glob>", "method": "<GET|POST|...>", "status": <number>, "saveAs": "<name>" } - Wait for a response, e.g. after the click that sends the request; fails when "status" does not match; the body is returned as data; method, status and saveAs are optional',
+      listTabs: 'listTabs: { "action": "listTabs" } - List the open tabs with their index, title and URL',
+      switchTab: 'switchTab: { "action": "switchTab", "tab": <index> } - Make later steps act on another tab, by zero-based index or with "url": "<substring>" instead',
+      waitForPopup: 'waitForPopup: { "action": "waitForPopup" } - Wait for a new tab or popup, e.g. after clicking a target=_blank link, and make later steps act on it',
+      switchFrame: 'switchFrame: { "action": "switchFrame", "selector": "<css of an iframe>" } - Make later steps act inside the iframe (again for nested iframes); without a selector, go back to the top-level page',
     };
-    return tools.map((t) => descriptions[t] ?? t).join('\n');
+    let text = tools.map((t) => descriptions[t] ?? t).join('\n');
+    const locatorTools = [
+      'type', 'extractText', 'click', 'selectOption', 'check', 'uncheck', 'press', 'hover', 'scrollIntoView', 'setInputFiles',
+      'expectText', 'expectVisible', 'expectCount', 'expectAttribute', 'extractTable',
+    ];
+    if (tools.some((t) => locatorTools.includes(t))) {
+      text +=
+        '\n<locator> is one of { "role": "<ARIA role>", "name": "<accessible name>" }, { "label": "<string>" }, ' +
+        '{ "placeholder": "<string>" }, { "testId": "<string>" }, { "text": "<string>" } or { "ref": "<ref ID from the page outline>" }; ' +
+        'add "exact": true for exact matching. ' +
+        'Steps that take a locator also accept "selector": "<css>" instead.';
+    }
+    if (tools.includes('if')) {
+      text +=
+        '\n<condition> is one of { "text": "<visible text>" }, { "locator": <locator> }, { "selector": "<css>" } or ' +
+        '{ "url": "<substring>" }; add "not": true to negate it and "waitMs": <number> to wait for it.';
+    }
+    if (tools.includes('route')) {
+      text +=
+        '\n<route> is { "url": "<glob such as **/api/orders*>", "method": "<GET|POST|...>", "resourceTypes": ["image", "font", ...] } ' +
+        'plus one of "fulfill": { "status": <number>, "json": <any> or "body": "<string>" or "file": "<workspace-relative fixture>", ' +
+        '"contentType": "<string>", "headers": {...} }, "abort": true, or "headers": { "<name>": "<value>" } to change the request; ' +
+        '"delayMs": <number> holds the request first. A plan may also list routes in a top-level "routes": [<route>, ...], ' +
+        'set up before the first step. Routes end with the run.';
+    }
+    if (['extractText', 'snapshotText', 'forEach', 'call', 'waitForResponse'].some((t) => tools.includes(t))) {
+      text += '\nString fields of later steps can use saved values as ${<name>}.';
+    }
+    text +=
+      '\nAny step that acts on the page may also set "timeout" (milliseconds), "retries" (0-5) with "backoffMs", and ' +
+      '"waitUntil" ("load", "domcontentloaded" or "networkidle") to wait for after a navigation. ' +
+      'Next to "steps", a plan may set "defaults" with these fields for every step, "deadlineMs" for the whole run, ' +
+      'and "onFailure": "stop" or "continue". ' +
+      'Dialogs (alert, confirm, prompt) are dismissed unless the plan sets "dialogs": { "action": "accept", "promptText": "<string>" }.';
+    return text;
   }
 
   private async _handleLoadFile(): Promise<void> {
     const uris = await vscode.window.showOpenDialog({
       canSelectMany: false,
-      filters: { 'Text Files': ['txt'] },
-      openLabel: 'Load Instructions',
+      filters: {
+        'Instructions or Action Plans': ['txt', 'json', 'yaml', 'yml'],
+        'Text Files': ['txt'],
+        'Action Plans': ['json', 'yaml', 'yml'],
+      },
+      openLabel: 'Load',
     });
 
     if (!uris || uris.length === 0) {
@@ -230,6 +1630,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     try {
       const fileData = await vscode.workspace.fs.readFile(uris[0]);
       const content = new TextDecoder().decode(fileData);
+      const fileName = path.basename(uris[0].fsPath);
+
+      if (/\.(json|ya?ml)$/i.test(fileName)) {
+        const parsed = parsePlanFile(content, planFileFormat(fileName), [...this._enabledTools], {
+          policy: this._getPolicy(),
+        });
+        if (!parsed.valid || !parsed.plan) {
+          this._view?.webview.postMessage({
+            type: 'error',
+            text: `Invalid plan file ${fileName}:\n${parsed.errors.join('\n')}`,
+          });
+          return;
+        }
+        const plan = parsed.plan;
+        await this._enqueueRun(`Replay ${fileName}`, async (token) => {
+          this._lastPlanFile = { uri: uris[0], metadata: parsed.metadata };
+          await this._replayPlan(plan, fileName, token);
+        });
+        return;
+      }
+
       this._view?.webview.postMessage({ type: 'loadedFile', text: content });
       // Also process as a submit
       await this._handleSubmit(content);
@@ -239,6 +1660,164 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private async _handleSavePlan(): Promise<void> {
+    if (!this._lastPlan) {
+      vscode.window.showWarningMessage('There is no validated plan to save yet.');
+      return;
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const uri = await vscode.window.showSaveDialog({
+      filters: { 'Action Plan (JSON)': ['json'], 'Action Plan (YAML)': ['yaml', 'yml'] },
+      saveLabel: 'Save Plan',
+      defaultUri: workspaceFolder
+        ? vscode.Uri.joinPath(workspaceFolder.uri, 'plan.pwplan.json')
+        : vscode.Uri.file('plan.pwplan.json'),
+    });
+
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const fileName = path.basename(uri.fsPath);
+      const metadata: PlanFileMetadata = {
+        name: fileName.replace(/(\.pwplan)?\.(json|ya?ml)$/i, ''),
+        createdAt: new Date().toISOString(),
+      };
+      const text = serializePlanFile(this._lastPlan, planFileFormat(fileName), metadata);
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+      this._lastPlanFile = { uri, metadata };
+      vscode.window.showInformationMessage(`Plan saved to ${uri.fsPath}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Saving plan failed: ${errorMsg}`);
+    }
+  }
+
+  /** Warns about steps that only ran through a fallback locator and offers their updated form. */
+  private _postHealedSteps(plan: ActionPlan, results: ExecutionResult[]): void {
+    for (const result of results) {
+      if (!result.healed || !result.healedStep || !result.path) {
+        continue;
+      }
+      if (!/^\d+$/.test(result.path)) {
+        // Steps inside blocks can be healed at run time, but only top-level steps are offered for saving
+        this._view?.webview.postMessage({ type: 'llmMessage', text: `⚠ ${describeHealing(result.path, result.healed)}` });
+        continue;
+      }
+      const index = Number(result.path);
+      this._view?.webview.postMessage({
+        type: 'healed',
+        index,
+        text: describeHealing(index, result.healed),
+        original: plan.steps[index],
+        step: result.healedStep,
+        planFile: this._lastPlanFile ? path.basename(this._lastPlanFile.uri.fsPath) : undefined,
+      });
+    }
+  }
+
+  /**
+   * Replaces a healed step in the last plan and writes the plan back to the
+   * file it came from, after confirmation. Without a file, offers "Save Plan".
+   */
+  private async _applyHealedStep(index: number, original: unknown, step: unknown): Promise<void> {
+    const plan = this._lastPlan;
+    if (!plan || JSON.stringify(plan.steps[index]) !== JSON.stringify(original)) {
+      vscode.window.showWarningMessage(
+        `Step ${index + 1} has changed since it was healed; run the plan again to get an up-to-date suggestion.`
+      );
+      return;
+    }
+    const steps = plan.steps.map((s, i) => (i === index ? step : s));
+    const validation = validateActionPlan({ ...plan, steps }, [...this._enabledTools], { policy: this._getPolicy() });
+    if (!validation.valid || !validation.plan) {
+      vscode.window.showErrorMessage(`The healed step is not valid:\n${validation.errors.join('\n')}`);
+      return;
+    }
+    this._lastPlan = validation.plan;
+
+    const planFile = this._lastPlanFile;
+    if (!planFile) {
+      const choice = await vscode.window.showInformationMessage(
+        `Step ${index + 1} now uses the healed locator. Save the plan to keep it?`,
+        'Save Plan…'
+      );
+      if (choice) {
+        await this._handleSavePlan();
+      }
+      return;
+    }
+    const fileName = path.basename(planFile.uri.fsPath);
+    const choice = await vscode.window.showWarningMessage(
+      `Update step ${index + 1} in ${fileName} to use the healed locator?`,
+      { modal: true },
+      'Update'
+    );
+    if (choice !== 'Update') {
+      return;
+    }
+    try {
+      const text = serializePlanFile(validation.plan, planFileFormat(fileName), planFile.metadata);
+      await vscode.workspace.fs.writeFile(planFile.uri, new TextEncoder().encode(text));
+      vscode.window.showInformationMessage(`Updated step ${index + 1} in ${planFile.uri.fsPath}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Updating the plan failed: ${errorMsg}`);
+    }
+  }
+
+  /** Writes the executed steps into the workspace as a `@playwright/test` spec file. */
+  async exportSpec(): Promise<void> {
+    if (this._specTests.length === 0) {
+      vscode.window.showWarningMessage('Nothing to export yet. Run a plan in the Playwright Chat Runner first.');
+      return;
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const uri = await vscode.window.showSaveDialog({
+      filters: { 'Playwright Test': ['ts'] },
+      saveLabel: 'Export Spec',
+      defaultUri: workspaceFolder
+        ? vscode.Uri.joinPath(workspaceFolder.uri, 'tests', 'chat-run.spec.ts')
+        : vscode.Uri.file('chat-run.spec.ts'),
+    });
+
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const spec = generateSpec(this._specTests, { describe: 'Playwright Chat Runner' });
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(spec));
+      await vscode.window.showTextDocument(uri);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Spec export failed: ${errorMsg}`);
+    }
+  }
+
+  /** Saves records from an extraction step as JSON or CSV, defaulting to the workspace folder. */
+  private async _handleExportRecords(records: DataRecord[], format: 'json' | 'csv'): Promise<void> {
+    const fileName = `extracted-records.${format}`;
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+      filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] },
+      saveLabel: 'Export Records',
+      defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(fileName),
+    });
+    if (!uri) {
+      return;
+    }
+    try {
+      const content = format === 'csv' ? recordsToCsv(records) : recordsToJson(records);
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+      vscode.window.showInformationMessage(`${records.length} record(s) exported to ${uri.fsPath}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Record export failed: ${errorMsg}`);
+    }
+  }
+
   private async _handleExport(): Promise<void> {
     const uri = await vscode.window.showSaveDialog({
       filters: { 'Markdown': ['md'] },
@@ -257,6 +1836,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           lines.push(`## User\n\n${entry.text}\n`);
         } else if (entry.role === 'llm') {
           lines.push(`## Assistant\n\n${entry.text}\n`);
+        } else if (entry.role === 'verdict') {
+          lines.push(`## Verdict\n\n**${entry.text}**\n`);
+        } else if (entry.role === 'artifacts' && entry.artifacts) {
+          lines.push(`## Run Artifacts\n\n${formatArtifactList(entry.artifacts)}\n`);
+        } else if (entry.role === 'config' && entry.config) {
+          lines.push(`## Browser Configuration\n\n${entry.text}\n\n\`\`\`json\n${JSON.stringify(entry.config, null, 2)}\n\`\`\`\n`);
+        } else if (entry.role === 'observation') {
+          lines.push(`## Observation\n\n\`\`\`\n${entry.text}\n\`\`\`\n`);
         } else if (entry.role === 'result' && entry.result) {
           lines.push(`## Execution Result\n\n\`\`\`json\n${JSON.stringify(entry.result, null, 2)}\n\`\`\`\n`);
         }
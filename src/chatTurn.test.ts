@@ -0,0 +1,150 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as playwright from 'playwright';
+import { AVAILABLE_TOOLS, ActionPlan } from './actionDsl';
+import { BrowserSession } from './browserSession';
+import { ChatTurnOptions, INTERPRETATION_PROMPT, runChatTurn } from './chatTurn';
+import { ChatEntry } from './conversation';
+import { requestCompletion } from './llmProvider';
+import { ExecutionResult, PlaywrightRunner } from './playwrightRunner';
+import { ScriptedProvider, ScriptedResponse } from './scriptedProvider';
+
+const PLAN = { steps: [{ action: 'goto', url: 'https://example.com' }] };
+
+/** Wires a scripted model to a chat history the way the chat view does. */
+function scriptedTurn(
+  responses: ScriptedResponse[],
+  execute: (plan: ActionPlan) => Promise<ExecutionResult[]>,
+  overrides: Partial<ChatTurnOptions> = {}
+): { provider: ScriptedProvider; history: ChatEntry[]; options: ChatTurnOptions } {
+  const provider = new ScriptedProvider(responses);
+  const history: ChatEntry[] = [{ role: 'user', text: 'Open the shop' }];
+  const options: ChatTurnOptions = {
+    enabledTools: [...AVAILABLE_TOOLS],
+    askModel: (followUp) =>
+      requestCompletion(provider, 'System', followUp ? [...history, { role: 'user', text: followUp }] : history, {
+        maxTokens: 100000,
+      }),
+    executePlan: async (plan, promptText) => {
+      history.push({ role: 'llm', text: 'Executing plan...', promptText });
+      const results = await execute(plan);
+      results.forEach((result) => history.push({ role: 'result', text: JSON.stringify(result), result }));
+      return results;
+    },
+    ...overrides,
+  };
+  return { provider, history, options };
+}
+
+describe('runChatTurn', () => {
+  it('returns text answers without running anything', async () => {
+    const { options } = scriptedTurn(['{"clarification": "Which shop?"}'], () => assert.fail('nothing should run'));
+    assert.deepEqual(await runChatTurn(options), { status: 'answered', text: 'Which shop?' });
+  });
+
+  it('reports invalid plans and rejected plans', async () => {
+    const invalid = scriptedTurn(['{"steps": [{"action": "fly"}]}'], () => assert.fail('nothing should run'));
+    const outcome = await runChatTurn(invalid.options);
+    assert.equal(outcome.status, 'invalidPlan');
+
+    const rejected = scriptedTurn([JSON.stringify(PLAN)], () => assert.fail('nothing should run'), {
+      reviewPlan: async () => undefined,
+    });
+    assert.deepEqual(await runChatTurn(rejected.options), { status: 'rejected' });
+  });
+
+  it('runs the plan and asks the model to interpret the results', async () => {
+    const { provider, history, options } = scriptedTurn([JSON.stringify(PLAN), 'The page opened.'], async () => [
+      { action: 'goto', success: true, data: 'Navigated to https://example.com' },
+    ]);
+    const outcome = await runChatTurn(options);
+    assert.equal(outcome.status, 'executed');
+    assert.equal(outcome.status === 'executed' && outcome.interpretation, 'The page opened.');
+    assert.equal(history[1].promptText, JSON.stringify(PLAN));
+    const interpretationRequest = provider.requests[1];
+    assert.match(interpretationRequest[interpretationRequest.length - 1].content, new RegExp(`Navigated to https://example.com[\\s\\S]*${INTERPRETATION_PROMPT}`));
+  });
+
+  it('shows the model an edited plan and skips the interpretation when stopped', async () => {
+    const edited = { steps: [{ action: 'goto', url: 'https://example.org' }] };
+    const { provider, history, options } = scriptedTurn([JSON.stringify(PLAN)], async () => [], {
+      reviewPlan: async () => edited,
+      isCancelled: () => true,
+    });
+    const outcome = await runChatTurn(options);
+    assert.deepEqual(outcome, { status: 'executed', plan: edited, results: [] });
+    assert.equal(history[1].promptText, JSON.stringify(edited));
+    assert.equal(provider.requests.length, 1);
+  });
+});
+
+function browserInstalled(): boolean {
+  try {
+    return fs.existsSync(playwright.chromium.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+describe('chat turn end to end', { skip: browserInstalled() ? false : 'Playwright Chromium is not installed' }, () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'text/html');
+      res.end(`<!DOCTYPE html><title>Greeter</title>
+        <label>Name <input id="name"></label>
+        <button onclick="document.getElementById('out').textContent = 'Hello, ' + document.getElementById('name').value + '!'">Greet</button>
+        <p id="out"></p>`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('parses, validates, runs and interprets a scripted plan against a local page', async () => {
+    const session = new BrowserSession();
+    const runner = new PlaywrightRunner(session);
+    const plan = {
+      steps: [
+        { action: 'goto', url: baseUrl },
+        { action: 'type', locator: { label: 'Name' }, value: 'Ada' },
+        { action: 'click', locator: { role: 'button', name: 'Greet' } },
+        { action: 'expectText', selector: '#out', text: 'Hello, Ada!' },
+        { action: 'extractText', selector: '#out' },
+      ],
+    };
+    const { provider, options } = scriptedTurn(
+      [
+        `\`\`\`json\n${JSON.stringify(plan)}\n\`\`\``,
+        // Answer from what the model was shown, so the test fails if the results never reach it
+        (messages) => (messages[messages.length - 1].content.includes('Hello, Ada!') ? 'Ada was greeted.' : 'No greeting seen.'),
+      ],
+      (validated) => runner.executePlan(validated)
+    );
+    try {
+      const outcome = await runChatTurn(options);
+      assert.equal(outcome.status, 'executed');
+      if (outcome.status === 'executed') {
+        assert.deepEqual(outcome.results.map((r) => [r.action, r.success]), [
+          ['goto', true],
+          ['type', true],
+          ['click', true],
+          ['expectText', true],
+          ['extractText', true],
+        ]);
+        assert.equal(outcome.interpretation, 'Ada was greeted.');
+      }
+      assert.equal(provider.remaining, 0);
+    } finally {
+      await session.close();
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { ActionPlan, ValidationOptions, validateActionPlan } from './actionDsl';
+import { ExecutionResult } from './playwrightRunner';
+import { parseModelResponse } from './modelResponse';
+
+export const INTERPRETATION_PROMPT =
+  'The Playwright steps above were executed. Please provide a brief summary of what happened, in plain text rather than JSON.';
+
+export type ChatTurnOutcome =
+  /** The model answered in text, asked for clarification or reported it was done; nothing ran. */
+  | { status: 'answered'; text: string }
+  | { status: 'invalidPlan'; errors: string[] }
+  | { status: 'rejected' }
+  /** `interpretation` is missing when the run was stopped before the model was asked about the results. */
+  | { status: 'executed'; plan: ActionPlan; results: ExecutionResult[]; interpretation?: string };
+
+export interface ChatTurnOptions {
+  enabledTools: string[];
+  validationOptions?: ValidationOptions;
+  /** Asks the model, with `followUp` as a final user message that is not kept in the history. */
+  askModel(followUp?: string): Promise<string>;
+  /** Lets the user review, edit or reject the plan before it runs. Returns undefined on rejection. */
+  reviewPlan?(plan: ActionPlan): Promise<ActionPlan | undefined>;
+  /**
+   * Runs the plan and records its results where the next `askModel` sees
+   * them. `promptText` is the plan as the model should see it: its own
+   * response, or the edited plan as JSON.
+   */
+  executePlan(plan: ActionPlan, promptText: string): Promise<ExecutionResult[]>;
+  /** Reports whether the user stopped the run; checked before the results are interpreted. */
+  isCancelled?(): boolean;
+}
+
+/**
+ * One chat request outside agent mode: ask the model, parse and validate its
+ * plan, run it, then ask the model to interpret the results.
+ */
+export async function runChatTurn(options: ChatTurnOptions): Promise<ChatTurnOutcome> {
+  const response = await options.askModel();
+  const parsed = parseModelResponse(response);
+  if (parsed.kind !== 'plan') {
+    return { status: 'answered', text: parsed.kind === 'clarification' ? parsed.text : parsed.summary };
+  }
+
+  const validation = validateActionPlan(parsed.raw, options.enabledTools, options.validationOptions);
+  if (!validation.valid || !validation.plan) {
+    return { status: 'invalidPlan', errors: validation.errors };
+  }
+
+  let plan = validation.plan;
+  if (options.reviewPlan) {
+    const reviewed = await options.reviewPlan(plan);
+    if (!reviewed) {
+      return { status: 'rejected' };
+    }
+    plan = reviewed;
+  }
+  // Show the model the plan that actually runs, including any edits made during review
+  const results = await options.executePlan(plan, plan === validation.plan ? response : JSON.stringify(plan));
+  if (options.isCancelled?.()) {
+    return { status: 'executed', plan, results };
+  }
+  const interpretation = await options.askModel(INTERPRETATION_PROMPT);
+  return { status: 'executed', plan, results, interpretation };
+}
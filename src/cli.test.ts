@@ -0,0 +1,86 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { EXIT_FAILED, EXIT_USAGE, UsageError, parseCliArgs, runCli, secretsFromEnv } from './cli';
+
+describe('parseCliArgs', () => {
+  it('reads the browser, reporter, variables and timing', () => {
+    const options = parseCliArgs([
+      'login.pwplan.json',
+      '--browser', 'firefox',
+      '--headed',
+      '--reporter', 'junit',
+      '-o', 'reports/junit.xml',
+      '--var', 'env=staging',
+      '--var', 'greeting=a=b',
+      '--retries', '2',
+    ]);
+    assert.deepEqual(options.files, ['login.pwplan.json']);
+    assert.equal(options.browserConfig.browser, 'firefox');
+    assert.equal(options.browserConfig.headless, false);
+    assert.equal(options.reporter, 'junit');
+    assert.equal(options.output, 'reports/junit.xml');
+    assert.deepEqual(options.vars, { env: 'staging', greeting: 'a=b' });
+    assert.deepEqual(options.defaults, { timeout: undefined, retries: 2 });
+  });
+
+  it('rejects unknown values and flags', () => {
+    assert.throws(() => parseCliArgs([]), /No plan files/);
+    assert.throws(() => parseCliArgs(['p.json', '--browser', 'safari']), UsageError);
+    assert.throws(() => parseCliArgs(['p.json', '--reporter', 'html']), /--reporter must be one of json, junit, markdown/);
+    assert.throws(() => parseCliArgs(['p.json', '--var', 'no-equals']), /name=value/);
+    assert.throws(() => parseCliArgs(['p.json', '--retries', '99']), /"retries" must be an integer/);
+    assert.throws(() => parseCliArgs(['p.json', '--verbose']), UsageError);
+  });
+});
+
+describe('secretsFromEnv', () => {
+  it('takes PW_SECRET_ variables only', () => {
+    assert.deepEqual(secretsFromEnv({ PW_SECRET_PASSWORD: 'hunter2', PW_SECRET_: 'x', HOME: '/root' }), { PASSWORD: 'hunter2' });
+  });
+});
+
+describe('runCli', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pw-chat-run-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function capture(stream: PassThrough): () => string {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    return () => Buffer.concat(chunks).toString('utf8');
+  }
+
+  it('fails invalid plans without starting a browser and writes the report', async () => {
+    const planPath = path.join(dir, 'broken.pwplan.json');
+    await fs.writeFile(planPath, JSON.stringify({ version: 1, name: 'Broken', steps: [{ action: 'fly' }] }));
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const err = capture(stderr);
+    const reportPath = path.join(dir, 'out', 'report.json');
+
+    const code = await runCli([planPath, '--reporter', 'json', '-o', reportPath], { stdout, stderr, env: {} });
+    assert.equal(code, EXIT_FAILED);
+    assert.match(err(), /✗ Broken \(.*broken\.pwplan\.json\): FAIL: /);
+    const report = JSON.parse(await fs.readFile(reportPath, 'utf8'));
+    assert.equal(report.failed, 1);
+    assert.equal(report.plans[0].name, 'Broken');
+    assert.match(report.plans[0].errors[0], /fly/);
+  });
+
+  it('exits with the usage code on a bad command line', async () => {
+    const stderr = new PassThrough();
+    const err = capture(stderr);
+    assert.equal(await runCli(['--reporter', 'junit'], { stdout: new PassThrough(), stderr, env: {} }), EXIT_USAGE);
+    assert.match(err(), /No plan files given[\s\S]*Usage: pw-chat-run/);
+  });
+});
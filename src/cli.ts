@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { AVAILABLE_TOOLS, FAILURE_POLICIES, FailurePolicy, StepTiming, validateStepTiming } from './actionDsl';
+import { BROWSER_ENGINES, BrowserConfig, DEFAULT_BROWSER_CONFIG, mergeBrowserConfig, validateBrowserConfig } from './browserConfig';
+import { BrowserSession } from './browserSession';
+import { parsePlanFile, planFileFormat } from './planFile';
+import { CancellationSignal, PlaywrightRunner, RunnerOptions } from './playwrightRunner';
+import { PlanReport, REPORT_FORMATS, ReportFormat, formatReport, formatVerdict, getRunVerdict, planPassed } from './runReport';
+
+/** Environment variables with this prefix fill `${{secrets.NAME}}`, e.g. PW_SECRET_PASSWORD. */
+export const SECRET_ENV_PREFIX = 'PW_SECRET_';
+
+export const EXIT_PASSED = 0;
+/** A plan failed or could not be run. */
+export const EXIT_FAILED = 1;
+/** The command line was wrong; nothing ran. */
+export const EXIT_USAGE = 2;
+
+export const USAGE = `Usage: pw-chat-run [options] <plan.json|plan.yaml>...
+
+Runs saved action plans with Playwright, without VS Code or a language model.
+
+Options:
+  --browser <name>        ${BROWSER_ENGINES.join(', ')} (default: chromium)
+  --device <name>         Device to emulate, e.g. "iPhone 13"
+  --headed                Show the browser window
+  --reporter <format>     Write a ${REPORT_FORMATS.join(', ')} report
+  -o, --output <file>     Write the report to a file instead of stdout
+  --var <name=value>      Value for \${{vars.name}}; repeatable
+  --timeout <ms>          Default step timeout
+  --retries <n>           Default retries for failed steps
+  --on-failure <policy>   ${FAILURE_POLICIES.join(' or ')}, unless the plan sets "onFailure"
+  --artifacts-dir <dir>   Folder for screenshots (default: the OS temp folder)
+  -h, --help              Show this help
+
+Secrets for \${{secrets.NAME}} are read from ${SECRET_ENV_PREFIX}NAME environment variables.
+Exit code: ${EXIT_PASSED} when every plan passed, ${EXIT_FAILED} when one failed or was invalid, ${EXIT_USAGE} on usage errors.`;
+
+export interface CliOptions {
+  files: string[];
+  browserConfig: BrowserConfig;
+  reporter?: ReportFormat;
+  output?: string;
+  vars: Record<string, string>;
+  defaults: StepTiming;
+  onFailure?: FailurePolicy;
+  artifactsDir?: string;
+  help: boolean;
+}
+
+/** A mistake on the command line; reported with the usage text. */
+export class UsageError extends Error {}
+
+function parseInteger(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`${flag} must be a whole number, got "${value}"`);
+  }
+  return Number(value);
+}
+
+/** Reads the command line. Throws a `UsageError` when it is invalid. */
+export function parseCliArgs(args: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        browser: { type: 'string' },
+        device: { type: 'string' },
+        headed: { type: 'boolean', default: false },
+        reporter: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        var: { type: 'string', multiple: true, default: [] },
+        timeout: { type: 'string' },
+        retries: { type: 'string' },
+        'on-failure': { type: 'string' },
+        'artifacts-dir': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return { files: [], browserConfig: DEFAULT_BROWSER_CONFIG, vars: {}, defaults: {}, help: true };
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No plan files given');
+  }
+
+  const browserConfig = mergeBrowserConfig(DEFAULT_BROWSER_CONFIG, {
+    browser: values.browser,
+    device: values.device,
+    headless: !values.headed,
+  });
+  const configErrors = validateBrowserConfig(browserConfig);
+  if (configErrors.length > 0) {
+    throw new UsageError(configErrors.join('\n'));
+  }
+
+  if (values.reporter !== undefined && !(REPORT_FORMATS as readonly string[]).includes(values.reporter)) {
+    throw new UsageError(`--reporter must be one of ${REPORT_FORMATS.join(', ')}`);
+  }
+  if (values.output !== undefined && values.reporter === undefined) {
+    throw new UsageError('--output needs a --reporter');
+  }
+  const onFailure = values['on-failure'];
+  if (onFailure !== undefined && !(FAILURE_POLICIES as readonly string[]).includes(onFailure)) {
+    throw new UsageError(`--on-failure must be one of ${FAILURE_POLICIES.join(', ')}`);
+  }
+
+  const vars: Record<string, string> = {};
+  for (const pair of values.var ?? []) {
+    const match = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s.exec(pair);
+    if (!match) {
+      throw new UsageError(`--var must look like name=value, got "${pair}"`);
+    }
+    vars[match[1]] = match[2];
+  }
+
+  const defaults: StepTiming = {
+    timeout: parseInteger(values.timeout, '--timeout'),
+    retries: parseInteger(values.retries, '--retries'),
+  };
+  const timingErrors = validateStepTiming(defaults as Record<string, unknown>, 'Command line:');
+  if (timingErrors.length > 0) {
+    throw new UsageError(timingErrors.join('\n'));
+  }
+
+  return {
+    files: positionals,
+    browserConfig,
+    reporter: values.reporter as ReportFormat | undefined,
+    output: values.output,
+    vars,
+    defaults,
+    onFailure: onFailure as FailurePolicy | undefined,
+    artifactsDir: values['artifacts-dir'],
+    help: false,
+  };
+}
+
+/** `${{secrets.NAME}}` values from `PW_SECRET_NAME` environment variables. */
+export function secretsFromEnv(env: NodeJS.ProcessEnv): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (key.startsWith(SECRET_ENV_PREFIX) && key.length > SECRET_ENV_PREFIX.length && value !== undefined) {
+      secrets[key.slice(SECRET_ENV_PREFIX.length)] = value;
+    }
+  }
+  return secrets;
+}
+
+/** Cancels the running plan on Ctrl+C or SIGTERM, so the browser is closed and partial results are reported. */
+class SignalCancellation implements CancellationSignal {
+  isCancellationRequested = false;
+  private listeners = new Set<() => unknown>();
+
+  cancel(): void {
+    if (!this.isCancellationRequested) {
+      this.isCancellationRequested = true;
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+
+  onCancellationRequested(listener: () => unknown): { dispose(): unknown } {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+}
+
+/** Validates and runs one plan file in a fresh browser. */
+async function runPlanFile(
+  file: string,
+  options: CliOptions,
+  runnerOptions: RunnerOptions,
+  cancellation: CancellationSignal
+): Promise<PlanReport> {
+  const started = Date.now();
+  const fileName = path.basename(file);
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (err) {
+    return { name: fileName, file, errors: [err instanceof Error ? err.message : String(err)], results: [], durationMs: 0 };
+  }
+  const parsed = parsePlanFile(content, planFileFormat(fileName), [...AVAILABLE_TOOLS]);
+  const name = parsed.metadata.name ?? fileName;
+  if (!parsed.valid || !parsed.plan) {
+    return { name, file, errors: parsed.errors, results: [], durationMs: Date.now() - started };
+  }
+  const session = new BrowserSession({ config: options.browserConfig });
+  try {
+    const runner = new PlaywrightRunner(session, runnerOptions);
+    const results = await runner.executePlan(parsed.plan, { cancellation });
+    return { name, file, results, durationMs: Date.now() - started };
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Runs the plan files named on the command line one after another and writes
+ * the report. Resolves to the process exit code.
+ */
+export async function runCli(
+  args: string[],
+  io: { stdout: NodeJS.WritableStream; stderr: NodeJS.WritableStream; env: NodeJS.ProcessEnv } = process
+): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) {
+      throw err;
+    }
+    io.stderr.write(`pw-chat-run: ${err.message}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+  if (options.help) {
+    io.stdout.write(`${USAGE}\n`);
+    return EXIT_PASSED;
+  }
+
+  const runnerOptions: RunnerOptions = {
+    templateContext: { secrets: secretsFromEnv(io.env), vars: options.vars },
+    workspaceRoot: process.cwd(),
+    artifactsDir: options.artifactsDir,
+    defaults: options.defaults,
+    onFailure: options.onFailure,
+  };
+  const cancellation = new SignalCancellation();
+  const onSignal = () => cancellation.cancel();
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  const reports: PlanReport[] = [];
+  try {
+    for (const file of options.files) {
+      if (cancellation.isCancellationRequested) {
+        break;
+      }
+      const report = await runPlanFile(file, options, runnerOptions, cancellation);
+      reports.push(report);
+      const outcome = report.errors?.length
+        ? `FAIL: ${report.errors.join('; ')}`
+        : formatVerdict(getRunVerdict(report.results));
+      io.stderr.write(`${planPassed(report) ? '✓' : '✗'} ${report.name} (${file}): ${outcome}\n`);
+    }
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  }
+
+  if (options.reporter) {
+    const report = formatReport(reports, options.reporter);
+    if (options.output) {
+      await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+      await fs.writeFile(options.output, report, 'utf8');
+    } else {
+      io.stdout.write(report);
+    }
+  }
+  const allPassed = reports.length === options.files.length && reports.every(planPassed);
+  return allPassed ? EXIT_PASSED : EXIT_FAILED;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (err) => {
+      process.stderr.write(`pw-chat-run: ${err instanceof Error ? err.stack ?? err.message : String(err)}\n`);
+      process.exitCode = EXIT_FAILED;
+    }
+  );
+}
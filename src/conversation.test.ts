@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildConversation, historyToMessages, ChatEntry } from './conversation';
+
+describe('historyToMessages', () => {
+  it('maps user and llm entries to user and assistant roles', () => {
+    const messages = historyToMessages([
+      { role: 'user', text: 'open example.com' },
+      { role: 'llm', text: 'Which page?' },
+      { role: 'user', text: 'the home page' },
+    ]);
+    assert.deepEqual(
+      messages.map((m) => m.role),
+      ['user', 'assistant', 'user']
+    );
+    assert.equal(messages[1].content, 'Which page?');
+  });
+
+  it('prefers promptText over display text', () => {
+    const messages = historyToMessages([
+      { role: 'user', text: 'go' },
+      { role: 'llm', text: 'Executing plan...', promptText: '{"steps":[]}' },
+    ]);
+    assert.equal(messages[1].content, '{"steps":[]}');
+  });
+
+  it('groups consecutive results into one user message', () => {
+    const messages = historyToMessages([
+      { role: 'user', text: 'go' },
+      { role: 'llm', text: 'Executing plan...' },
+      { role: 'result', text: '', result: { action: 'goto', success: true } },
+      { role: 'result', text: '', result: { action: 'extractText', success: true, data: '$42' } },
+    ]);
+    assert.equal(messages.length, 3);
+    assert.equal(messages[2].role, 'user');
+    assert.ok(messages[2].content.includes('goto: success'));
+    assert.ok(messages[2].content.includes('data: $42'));
+  });
+
+  it('reports how often a retried step ran', () => {
+    const messages = historyToMessages([
+      { role: 'result', text: '', result: { action: 'click', success: true, attempts: 3, durationMs: 4200 } },
+    ]);
+    assert.equal(messages[0].content, 'Execution results:\nclick: success after 3 attempts');
+  });
+
+  it('reports the tab, frame and dialogs of steps away from the first page', () => {
+    const messages = historyToMessages([
+      { role: 'result', text: '', result: { action: 'goto', success: true, tab: 0 } },
+      {
+        role: 'result',
+        text: '',
+        result: {
+          action: 'click',
+          success: true,
+          tab: 1,
+          frames: ['iframe#checkout'],
+          dialogs: [{ type: 'confirm', message: 'Pay now?', action: 'accepted' }],
+        },
+      },
+    ]);
+    assert.equal(
+      messages[0].content,
+      'Execution results:\ngoto: success\nclick: success (in tab 1, frame iframe#checkout) - confirm dialog "Pay now?" accepted'
+    );
+  });
+});
+
+describe('buildConversation', () => {
+  it('puts the system prompt in the first user message', () => {
+    const messages = buildConversation('SYSTEM', [{ role: 'user', text: 'hello' }], 1000);
+    assert.equal(messages.length, 1);
+    assert.ok(messages[0].content.startsWith('SYSTEM'));
+    assert.ok(messages[0].content.endsWith('hello'));
+  });
+
+  it('keeps the whole history when it fits the budget', () => {
+    const history: ChatEntry[] = [
+      { role: 'user', text: 'open the shop' },
+      { role: 'llm', text: 'Which shop?' },
+      { role: 'user', text: 'the demo shop' },
+    ];
+    const messages = buildConversation('SYSTEM', history, 1000);
+    assert.equal(messages.length, 3);
+    assert.ok(messages[0].content.includes('open the shop'));
+    assert.ok(!messages[0].content.includes('Summary of'));
+  });
+
+  it('summarizes old turns that exceed the budget and keeps the latest', () => {
+    const history: ChatEntry[] = [];
+    for (let i = 0; i < 20; i++) {
+      history.push({ role: 'user', text: `request ${i} ${'x'.repeat(400)}` });
+      history.push({ role: 'llm', text: `answer ${i} ${'y'.repeat(400)}` });
+    }
+    history.push({ role: 'user', text: 'latest request' });
+
+    const messages = buildConversation('SYSTEM', history, 1000);
+    assert.ok(messages.length < historyToMessages(history).length);
+    assert.equal(messages[0].role, 'user');
+    assert.ok(messages[0].content.startsWith('SYSTEM'));
+    assert.ok(messages[0].content.includes('Summary of'));
+    assert.ok(messages[messages.length - 1].content.endsWith('latest request'));
+  });
+
+  it('always keeps the latest message even when it exceeds the budget', () => {
+    const messages = buildConversation(
+      'SYSTEM',
+      [
+        { role: 'user', text: 'old' },
+        { role: 'llm', text: 'reply' },
+        { role: 'user', text: 'z'.repeat(10000) },
+      ],
+      100
+    );
+    assert.equal(messages.length, 1);
+    assert.ok(messages[0].content.endsWith('z'.repeat(100)));
+  });
+});
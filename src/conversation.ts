@@ -0,0 +1,163 @@
+import { ExecutionResult } from './playwrightRunner';
+import { BrowserConfig } from './browserConfig';
+import { RunArtifacts } from './artifacts';
+
+export interface ChatEntry {
+  role: 'user' | 'llm' | 'result' | 'observation' | 'verdict' | 'config' | 'artifacts';
+  text: string;
+  /**
+   * Text sent to the model in place of `text`, e.g. the raw plan behind
+   * "Executing plan...". An empty string keeps the entry out of the prompt.
+   */
+  promptText?: string;
+  result?: ExecutionResult;
+  /** The browser configuration a run was launched with, for `config` entries. */
+  config?: BrowserConfig;
+  /** Files recorded during a run, for `artifacts` entries. */
+  artifacts?: RunArtifacts;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Share of the token budget that the summary of trimmed turns may use. */
+const SUMMARY_BUDGET_RATIO = 0.2;
+const SUMMARY_ITEM_MAX_CHARS = 160;
+const RESULT_DATA_MAX_CHARS = 500;
+
+/** Rough token estimate (~4 characters per token), good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function truncate(text: string, maxChars: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxChars ? `${singleLine.slice(0, maxChars - 1)}…` : singleLine;
+}
+
+export function summarizeResult(result: ExecutionResult): string {
+  // Steps inside if, forEach, retry and call blocks are labeled with their position
+  const label = result.path && !/^\d+$/.test(result.path) ? `[${result.path}] ${result.action}` : result.action;
+  let line = `${label}: ${result.success ? 'success' : 'failed'}`;
+  if (result.attempts) {
+    line += ` after ${result.attempts} attempts`;
+  }
+  if (result.response) {
+    line += ` - ${result.response.method} ${result.response.url} returned ${result.response.status}`;
+  }
+  // Only worth mentioning once the plan has left the first tab's top-level page
+  if (result.tab || result.frames) {
+    line += ` (in tab ${result.tab ?? 0}${result.frames ? `, frame ${result.frames.join(' > ')}` : ''})`;
+  }
+  for (const dialog of result.dialogs ?? []) {
+    line += ` - ${dialog.type} dialog "${truncate(dialog.message, SUMMARY_ITEM_MAX_CHARS)}" ${dialog.action}`;
+  }
+  if (result.data) {
+    line += ` - data: ${truncate(result.data, RESULT_DATA_MAX_CHARS)}`;
+  }
+  if (result.error) {
+    line += ` - error: ${truncate(result.error, RESULT_DATA_MAX_CHARS)}`;
+  }
+  return line;
+}
+
+/**
+ * Converts chat history into alternating user/assistant messages. Execution
+ * results are reported back to the model as a user message.
+ */
+export function historyToMessages(history: ChatEntry[]): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  for (const entry of history) {
+    // Launch settings and recordings are kept for the user, not for the model
+    if (entry.promptText === '' || entry.role === 'config' || entry.role === 'artifacts') {
+      continue;
+    }
+    let message: ConversationMessage;
+    if (entry.role === 'user' || entry.role === 'observation') {
+      message = { role: 'user', content: entry.promptText ?? entry.text };
+    } else if (entry.role === 'verdict') {
+      message = { role: 'user', content: `Run verdict: ${entry.text}` };
+    } else if (entry.role === 'llm') {
+      message = { role: 'assistant', content: entry.promptText ?? entry.text };
+    } else {
+      const line = entry.result ? summarizeResult(entry.result) : entry.text;
+      message = { role: 'user', content: `Execution results:\n${line}` };
+    }
+
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === message.role) {
+      if (entry.role === 'result' && previous.content.startsWith('Execution results:')) {
+        previous.content += `\n${message.content.slice('Execution results:\n'.length)}`;
+      } else {
+        previous.content += `\n\n${message.content}`;
+      }
+    } else {
+      messages.push(message);
+    }
+  }
+  return messages;
+}
+
+function summarizeTrimmed(trimmed: ConversationMessage[], maxTokens: number): string {
+  const header = `Summary of ${trimmed.length} earlier message(s) omitted to save space:`;
+  const lines: string[] = [header];
+  let used = estimateTokens(header);
+  // Keep the most recent trimmed items when the summary itself is over budget
+  for (let i = trimmed.length - 1; i >= 0; i--) {
+    const speaker = trimmed[i].role === 'user' ? 'User' : 'Assistant';
+    const line = `- ${speaker}: ${truncate(trimmed[i].content, SUMMARY_ITEM_MAX_CHARS)}`;
+    const cost = estimateTokens(line);
+    if (used + cost > maxTokens) {
+      break;
+    }
+    lines.splice(1, 0, line);
+    used += cost;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the messages for a model request from the chat history, keeping the
+ * newest turns within `maxTokens`. Older turns that do not fit are replaced by a
+ * short extractive summary. The system prompt is always included at the start
+ * of the first user message, since the chat API has no system role.
+ */
+export function buildConversation(
+  systemPrompt: string,
+  history: ChatEntry[],
+  maxTokens: number
+): ConversationMessage[] {
+  const messages = historyToMessages(history);
+  const summaryBudget = Math.floor(maxTokens * SUMMARY_BUDGET_RATIO);
+  let remaining = maxTokens - estimateTokens(systemPrompt) - summaryBudget;
+
+  // The latest message is always kept, even if it alone exceeds the budget
+  let firstKept = messages.length;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].content);
+    if (i < messages.length - 1 && cost > remaining) {
+      break;
+    }
+    remaining -= cost;
+    firstKept = i;
+  }
+  // Start on a user message so roles still alternate after trimming
+  while (firstKept < messages.length - 1 && messages[firstKept].role !== 'user') {
+    firstKept++;
+  }
+
+  const kept = messages.slice(firstKept);
+  const trimmed = messages.slice(0, firstKept);
+  let preamble = systemPrompt;
+  if (trimmed.length > 0) {
+    preamble += `\n\n${summarizeTrimmed(trimmed, summaryBudget)}`;
+  }
+
+  if (kept.length > 0 && kept[0].role === 'user') {
+    kept[0] = { role: 'user', content: `${preamble}\n\n${kept[0].content}` };
+    return kept;
+  }
+  return [{ role: 'user', content: preamble }, ...kept];
+}
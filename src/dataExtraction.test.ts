@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  convertValue,
+  describeRecords,
+  normalizeFields,
+  recordFieldNames,
+  recordsToCsv,
+  rowToRecord,
+  tableToRecords,
+} from './dataExtraction';
+
+describe('convertValue', () => {
+  it('collapses whitespace in strings', () => {
+    assert.equal(convertValue('  Blue\n  shirt '), 'Blue shirt');
+  });
+
+  it('parses numbers with currency symbols and thousands separators', () => {
+    assert.equal(convertValue('$1,234.50', 'number'), 1234.5);
+    assert.equal(convertValue('-3 items', 'number'), -3);
+    assert.equal(convertValue('n/a', 'number'), null);
+  });
+
+  it('parses common boolean words', () => {
+    assert.equal(convertValue('Yes', 'boolean'), true);
+    assert.equal(convertValue('', 'boolean'), false);
+    assert.equal(convertValue('maybe', 'boolean'), null);
+  });
+
+  it('keeps missing elements as null', () => {
+    assert.equal(convertValue(null, 'number'), null);
+  });
+});
+
+describe('normalizeFields', () => {
+  it('expands shorthand per action', () => {
+    assert.deepEqual(normalizeFields({ title: 'h2', price: { selector: '.price', type: 'number' } }, 'extractList'), [
+      { name: 'title', selector: 'h2' },
+      { name: 'price', selector: '.price', type: 'number' },
+    ]);
+    assert.deepEqual(normalizeFields({ name: 'Name', age: 2 }, 'extractTable'), [
+      { name: 'name', column: 'Name' },
+      { name: 'age', column: 2 },
+    ]);
+  });
+});
+
+describe('rowToRecord', () => {
+  it('converts values in field order', () => {
+    const fields = normalizeFields({ title: 'h2', price: { selector: '.price', type: 'number' } }, 'extractList');
+    assert.deepEqual(rowToRecord(['Lamp', '€19.99'], fields), { title: 'Lamp', price: 19.99 });
+  });
+});
+
+describe('tableToRecords', () => {
+  const headers = ['Name', 'Age', ''];
+  const rows = [
+    ['Ada', '36', 'x'],
+    ['Linus', '28'],
+  ];
+
+  it('uses the headers as field names when no fields are given', () => {
+    assert.deepEqual(tableToRecords(headers, rows), [
+      { Name: 'Ada', Age: '36', column3: 'x' },
+      { Name: 'Linus', Age: '28', column3: null },
+    ]);
+  });
+
+  it('picks columns by header text or index', () => {
+    const fields = normalizeFields({ name: 'name', age: { column: 1, type: 'number' }, missing: 'Email' }, 'extractTable');
+    assert.deepEqual(tableToRecords(headers, rows, fields), [
+      { name: 'Ada', age: 36, missing: null },
+      { name: 'Linus', age: 28, missing: null },
+    ]);
+  });
+
+  it('makes duplicate headers unique', () => {
+    assert.deepEqual(recordFieldNames(tableToRecords(['A', 'A'], [['1', '2']])), ['A', 'A_2']);
+  });
+});
+
+describe('recordsToCsv', () => {
+  it('quotes special characters and leaves nulls empty', () => {
+    const csv = recordsToCsv([
+      { name: 'Smith, "Jo"', age: 40 },
+      { name: 'Lee', age: null, note: 'line1\nline2' },
+    ]);
+    assert.equal(csv, 'name,age,note\r\n"Smith, ""Jo""",40,\r\nLee,,"line1\nline2"\r\n');
+  });
+});
+
+describe('describeRecords', () => {
+  it('summarizes the records with a short preview', () => {
+    const records = Array.from({ length: 7 }, (_, i) => ({ n: i }));
+    const text = describeRecords(records, 2);
+    assert.ok(text.startsWith('Extracted 7 record(s) from 2 page(s); fields: n (first 5 shown)'));
+    assert.ok(text.endsWith('[{"n":0},{"n":1},{"n":2},{"n":3},{"n":4}]'));
+  });
+});
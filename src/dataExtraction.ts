@@ -0,0 +1,136 @@
+import { FieldSpec, FieldType } from './actionDsl';
+
+export type FieldValue = string | number | boolean | null;
+export type DataRecord = Record<string, FieldValue>;
+
+/** A field definition with the shorthand forms expanded. */
+export interface NormalizedField extends FieldSpec {
+  name: string;
+}
+
+/** Expands shorthand field definitions. `extractList` strings are selectors; `extractTable` strings and numbers are columns. */
+export function normalizeFields(
+  fields: Record<string, string | number | FieldSpec>,
+  action: 'extractList' | 'extractTable'
+): NormalizedField[] {
+  return Object.entries(fields).map(([name, spec]) => {
+    if (typeof spec === 'object') {
+      return { name, ...spec };
+    }
+    return action === 'extractList' ? { name, selector: String(spec) } : { name, column: spec };
+  });
+}
+
+const TRUE_WORDS = ['true', 'yes', 'y', 'on', '1', '✓', '✔'];
+const FALSE_WORDS = ['false', 'no', 'n', 'off', '0', ''];
+
+/**
+ * Converts raw page text to the field type. Numbers tolerate currency
+ * symbols, units and thousands separators ("$1,234.50" → 1234.5).
+ */
+export function convertValue(raw: string | null, type: FieldType = 'string'): FieldValue {
+  if (raw === null) {
+    return null;
+  }
+  const text = raw.replace(/\s+/g, ' ').trim();
+  if (type === 'number') {
+    const match = text.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : null;
+  }
+  if (type === 'boolean') {
+    const lower = text.toLowerCase();
+    if (TRUE_WORDS.includes(lower)) {
+      return true;
+    }
+    return FALSE_WORDS.includes(lower) ? false : null;
+  }
+  return text;
+}
+
+/** Builds a record from raw values read in the same order as `fields`. */
+export function rowToRecord(values: (string | null)[], fields: NormalizedField[]): DataRecord {
+  const record: DataRecord = {};
+  fields.forEach((field, i) => {
+    record[field.name] = convertValue(values[i] ?? null, field.type);
+  });
+  return record;
+}
+
+function uniqueHeaderNames(headers: string[], columnCount: number): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < columnCount; i++) {
+    let name = headers[i]?.trim() || `column${i + 1}`;
+    while (names.includes(name)) {
+      name = `${name}_${i + 1}`;
+    }
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Turns table cells into records. Without field definitions every column
+ * becomes a string field named after its header; otherwise fields pick
+ * columns by header text (case-insensitive) or index.
+ */
+export function tableToRecords(headers: string[], rows: string[][], fields?: NormalizedField[]): DataRecord[] {
+  if (!fields) {
+    const columnCount = Math.max(headers.length, ...rows.map((r) => r.length), 0);
+    const names = uniqueHeaderNames(headers, columnCount);
+    return rows.map((row) => rowToRecord(row, names.map((name) => ({ name }))));
+  }
+  const normalizedHeaders = headers.map((h) => h.trim().toLowerCase());
+  const indexes = fields.map((field) =>
+    typeof field.column === 'number' ? field.column : normalizedHeaders.indexOf(String(field.column).trim().toLowerCase())
+  );
+  return rows.map((row) => rowToRecord(indexes.map((index) => (index >= 0 ? row[index] ?? null : null)), fields));
+}
+
+/** Field names in first-seen order across all records. */
+export function recordFieldNames(records: DataRecord[]): string[] {
+  const names: string[] = [];
+  for (const record of records) {
+    for (const name of Object.keys(record)) {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+function csvCell(value: FieldValue | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row. Missing and null values are empty cells. */
+export function recordsToCsv(records: DataRecord[]): string {
+  const names = recordFieldNames(records);
+  const lines = [names.map(csvCell).join(',')];
+  for (const record of records) {
+    lines.push(names.map((name) => csvCell(record[name])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function recordsToJson(records: DataRecord[]): string {
+  return `${JSON.stringify(records, null, 2)}\n`;
+}
+
+const PREVIEW_RECORDS = 5;
+
+/** Result text for the model and the transcript: a count plus the first few records. */
+export function describeRecords(records: DataRecord[], pages: number): string {
+  const fieldList = recordFieldNames(records).join(', ') || 'none';
+  const summary = `Extracted ${records.length} record(s) from ${pages} page(s); fields: ${fieldList}`;
+  if (records.length === 0) {
+    return summary;
+  }
+  const preview = records.slice(0, PREVIEW_RECORDS);
+  const more = records.length > preview.length ? ` (first ${preview.length} shown)` : '';
+  return `${summary}${more}\n${JSON.stringify(preview)}`;
+}
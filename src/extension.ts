@@ -1,17 +1,28 @@
 import * as vscode from 'vscode';
 import { ChatViewProvider } from './chatProvider';
+import { SecretStore } from './secretStore';
 
 export function activate(context: vscode.ExtensionContext): void {
-  const provider = new ChatViewProvider(context.extensionUri, context);
+  const secrets = new SecretStore(context);
+  const provider = new ChatViewProvider(context.extensionUri, context, secrets);
 
   context.subscriptions.push(
+    provider,
     vscode.window.registerWebviewViewProvider(ChatViewProvider.viewType, provider)
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand('playwrightChatRunner.open', () => {
       vscode.commands.executeCommand('workbench.view.extension.playwrightChatRunner');
-    })
+    }),
+    vscode.commands.registerCommand('playwrightChatRunner.exportSpec', () => provider.exportSpec()),
+    vscode.commands.registerCommand('playwrightChatRunner.captureAuthProfile', () => provider.captureAuthProfile()),
+    vscode.commands.registerCommand('playwrightChatRunner.manageAuthProfiles', () => provider.manageAuthProfiles()),
+    vscode.commands.registerCommand('playwrightChatRunner.recordPlan', () => provider.toggleRecorder()),
+    vscode.commands.registerCommand('playwrightChatRunner.batchRun', () => provider.batchRun()),
+    vscode.commands.registerCommand('playwrightChatRunner.setSecret', () => secrets.promptSet()),
+    vscode.commands.registerCommand('playwrightChatRunner.deleteSecret', () => secrets.promptDelete()),
+    vscode.commands.registerCommand('playwrightChatRunner.setModelApiKey', () => provider.setModelApiKey())
   );
 }
 
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { requestCompletion } from './llmProvider';
+import { ScriptedProvider, parseScript } from './scriptedProvider';
+
+describe('ScriptedProvider', () => {
+  it('replays responses in order and records each request', async () => {
+    const provider = new ScriptedProvider(['  first  ', (messages) => `echo: ${messages[messages.length - 1].content}`]);
+    const options = { maxTokens: 1000 };
+    assert.equal(await requestCompletion(provider, 'System', [{ role: 'user', text: 'Hello' }], options), 'first');
+    assert.equal(await requestCompletion(provider, 'System', [{ role: 'user', text: 'Again' }], options), 'echo: System\n\nAgain');
+    assert.equal(provider.remaining, 0);
+    assert.deepEqual(provider.requests[0], [{ role: 'user', content: 'System\n\nHello' }]);
+    await assert.rejects(requestCompletion(provider, 'System', [], options), /no response left for request 3/);
+  });
+
+  it('trims the conversation to the smaller of the budget and the model limit', async () => {
+    const provider = new ScriptedProvider(['ok'], 50);
+    const history = [
+      { role: 'user' as const, text: 'old '.repeat(100) },
+      { role: 'llm' as const, text: 'reply' },
+      { role: 'user' as const, text: 'newest' },
+    ];
+    await requestCompletion(provider, 'System', history, { maxTokens: 100000 });
+    assert.deepEqual(provider.requests[0].map((m) => m.content.endsWith('newest')), [true]);
+  });
+});
+
+describe('parseScript', () => {
+  it('keeps strings and serializes objects', () => {
+    assert.deepEqual(parseScript('["Hi", {"steps": [{"action": "goto", "url": "https://example.com"}]}]'), [
+      'Hi',
+      '{"steps":[{"action":"goto","url":"https://example.com"}]}',
+    ]);
+    assert.throws(() => parseScript('[]'), /non-empty JSON array/);
+    assert.throws(() => parseScript('{'), /Could not parse the script/);
+  });
+});
@@ -0,0 +1,52 @@
+import { ChatEntry, ConversationMessage, buildConversation } from './conversation';
+import { CancellationSignal } from './playwrightRunner';
+
+/** A chat model picked by an `LLMProvider` for one request. */
+export interface LLMModel {
+  /** Shown to the user, e.g. "copilot/gpt-4o". */
+  readonly name: string;
+  /** Largest prompt the model accepts; the conversation is trimmed to fit. */
+  readonly maxInputTokens: number;
+  /** Sends the messages and returns the complete response text. */
+  complete(messages: ConversationMessage[], cancellation?: CancellationSignal): Promise<string>;
+}
+
+/** A model the user can pick in the chat view. */
+export interface LLMModelInfo {
+  id: string;
+  name: string;
+}
+
+/**
+ * Where model requests go. The chat view and the agent loop only talk to this
+ * interface, so code that runs saved plans, such as the CLI, needs no model at all.
+ */
+export interface LLMProvider {
+  /** Models the user can pick from; may be empty when the backend cannot list them. */
+  listModels(): Promise<LLMModelInfo[]>;
+  /**
+   * Picks the model with id `modelId`, or the provider's default when it is
+   * not given or no longer available. Throws with a readable message when there is no model.
+   */
+  selectModel(modelId?: string): Promise<LLMModel>;
+}
+
+export interface CompletionOptions {
+  /** Token budget for the conversation; the model's own limit applies when it is smaller. */
+  maxTokens: number;
+  modelId?: string;
+  cancellation?: CancellationSignal;
+}
+
+/** Sends the chat history to the provider's model, trimmed to fit the token budget. */
+export async function requestCompletion(
+  provider: LLMProvider,
+  systemPrompt: string,
+  history: ChatEntry[],
+  options: CompletionOptions
+): Promise<string> {
+  const model = await provider.selectModel(options.modelId);
+  const messages = buildConversation(systemPrompt, history, Math.min(options.maxTokens, model.maxInputTokens));
+  const response = await model.complete(messages, options.cancellation);
+  return response.trim();
+}
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeHealing, healedStep, healingCandidates, identifierWords, selectorHints } from './locatorHealing';
+
+describe('identifierWords', () => {
+  it('splits camelCase, dashes and underscores', () => {
+    assert.deepEqual(identifierWords('firstName'), ['first', 'name']);
+    assert.deepEqual(identifierWords('submit-btn_2'), ['submit', 'btn']);
+  });
+});
+
+describe('selectorHints', () => {
+  it('reads ids, classes and attributes of the last compound selector', () => {
+    const hints = selectorHints('form.login input#user_email[placeholder="you@example.com"]');
+    assert.deepEqual(hints.testIds, ['user_email']);
+    assert.deepEqual(hints.words, ['user', 'email']);
+    assert.equal(hints.placeholder, 'you@example.com');
+  });
+
+  it('reads test ids, accessible names and text pseudo-classes', () => {
+    assert.deepEqual(selectorHints('[data-testid="checkout"]').testIds, ['checkout']);
+    assert.equal(selectorHints("button[aria-label='Close dialog']").name, 'Close dialog');
+    assert.equal(selectorHints('button:has-text("Add to cart")').text, 'Add to cart');
+    assert.equal(selectorHints('text=Sign in').text, 'Sign in');
+  });
+});
+
+describe('healingCandidates', () => {
+  it('ranks role, label, placeholder, test id and text fallbacks for a CSS selector', () => {
+    const candidates = healingCandidates({ action: 'type', selector: '#email', value: 'a@b.c' });
+    assert.deepEqual(
+      candidates.map((c) => c.strategy),
+      ['role', 'role', 'role', 'role', 'label', 'placeholder', 'testId', 'text']
+    );
+    assert.deepEqual(candidates[0].locator, { role: 'textbox', name: 'email' });
+    assert.deepEqual(candidates[6].locator, { testId: 'email' });
+  });
+
+  it('keeps an explicit role and leaves out the failing locator', () => {
+    const candidates = healingCandidates({ action: 'click', locator: { text: 'Checkout' } });
+    assert.deepEqual(candidates.map((c) => c.locator), [
+      { role: 'button', name: 'Checkout' },
+      { role: 'link', name: 'Checkout' },
+      { role: 'tab', name: 'Checkout' },
+      { role: 'menuitem', name: 'Checkout' },
+      { label: 'Checkout' },
+      { placeholder: 'Checkout' },
+    ]);
+    assert.deepEqual(
+      healingCandidates({ action: 'click', locator: { role: 'link', name: 'Docs' } }).map((c) => c.locator)[0],
+      { label: 'Docs' }
+    );
+  });
+
+  it('does not heal refs, untargeted steps or other actions', () => {
+    assert.deepEqual(healingCandidates({ action: 'click', locator: { ref: 'e4' } }), []);
+    assert.deepEqual(healingCandidates({ action: 'press', key: 'Enter' }), []);
+    assert.deepEqual(healingCandidates({ action: 'expectCount', selector: '.item', count: 2 }), []);
+  });
+});
+
+describe('healedStep', () => {
+  it('swaps the selector for the fallback locator and keeps other fields', () => {
+    assert.deepEqual(healedStep({ action: 'type', selector: '#email', value: '${{vars.EMAIL}}' }, { label: 'Email' }), {
+      action: 'type',
+      value: '${{vars.EMAIL}}',
+      locator: { label: 'Email' },
+    });
+  });
+});
+
+describe('describeHealing', () => {
+  it('names the failed target and the locator used', () => {
+    assert.equal(
+      describeHealing(2, { strategy: 'label', locator: { label: 'Email' }, original: 'selector "#email"' }),
+      'Step 3 healed: selector "#email" matched nothing, so the label locator {"label":"Email"} was used instead.'
+    );
+  });
+});
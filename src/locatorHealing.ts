@@ -0,0 +1,199 @@
+import { ActionStep, LocatorSpec } from './actionDsl';
+
+/** Fallback strategies, in the order they are tried. */
+export const HEALING_STRATEGIES = ['role', 'label', 'placeholder', 'testId', 'text'] as const;
+export type HealingStrategy = (typeof HEALING_STRATEGIES)[number];
+
+export interface HealingCandidate {
+  strategy: HealingStrategy;
+  locator: LocatorSpec;
+}
+
+/** What a healed step matched instead of its original target. */
+export interface HealedLocator {
+  strategy: HealingStrategy;
+  locator: LocatorSpec;
+  /** The target that failed, e.g. `selector "#email"`. */
+  original: string;
+}
+
+/** Actions whose target can be replaced by a fallback locator. */
+export const HEALABLE_ACTIONS: readonly string[] = [
+  'type', 'extractText', 'click', 'selectOption', 'check', 'uncheck', 'press', 'hover', 'scrollIntoView',
+  'setInputFiles', 'expectText', 'expectVisible', 'expectAttribute', 'extractTable',
+];
+
+/** Roles worth trying for each action when the original target gives no role. */
+const ACTION_ROLES: Record<string, string[]> = {
+  type: ['textbox', 'searchbox', 'combobox', 'spinbutton'],
+  click: ['button', 'link', 'tab', 'menuitem'],
+  hover: ['button', 'link', 'menuitem'],
+  check: ['checkbox', 'radio', 'switch'],
+  uncheck: ['checkbox', 'switch'],
+  selectOption: ['combobox', 'listbox'],
+  press: ['textbox', 'searchbox', 'button'],
+  extractTable: ['table', 'grid'],
+};
+
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy'];
+const NAME_ATTRIBUTES = ['aria-label', 'title', 'alt', 'value'];
+
+/** What the failed target says about the element it was meant to find. */
+export interface TargetHints {
+  role?: string;
+  name?: string;
+  placeholder?: string;
+  testIds: string[];
+  text?: string;
+  /** Words taken from ids, names and classes, e.g. "first name" from `#first_name`. */
+  words: string[];
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/** Splits identifiers such as `firstName`, `first-name` or `first_name` into lower-case words. */
+export function identifierWords(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .map((w) => w.toLowerCase())
+    .filter((w) => w.length > 1 && !/^\d+$/.test(w));
+}
+
+/** Reads ids, classes, attributes and text pseudo-classes from a CSS or Playwright selector. */
+export function selectorHints(selector: string): TargetHints {
+  const hints: TargetHints = { testIds: [], words: [] };
+  // Only the last compound selector describes the element itself
+  const last = selector.split(/\s*>>\s*|\s+(?![^[(]*[\])])/).filter(Boolean).pop() ?? selector;
+
+  const textMatch = /^text=(.+)$/.exec(selector.trim()) ?? /:(?:has-text|text|text-is)\((.+?)\)/.exec(last);
+  if (textMatch) {
+    hints.text = unquote(textMatch[1]);
+  }
+  for (const match of last.matchAll(/\[([\w-]+)\s*[~|^$*]?=\s*("[^"]*"|'[^']*'|[^\]]*)\]/g)) {
+    const attribute = match[1].toLowerCase();
+    const value = unquote(match[2]);
+    if (!value) {
+      continue;
+    }
+    if (TEST_ID_ATTRIBUTES.includes(attribute)) {
+      hints.testIds.push(value);
+    } else if (attribute === 'placeholder') {
+      hints.placeholder = value;
+    } else if (NAME_ATTRIBUTES.includes(attribute)) {
+      hints.name = value;
+    } else if (attribute === 'role') {
+      hints.role = value;
+    } else if (attribute === 'name' || attribute === 'id' || attribute === 'for') {
+      hints.testIds.push(value);
+      hints.words.push(...identifierWords(value));
+    }
+  }
+  const withoutAttributes = last.replace(/\[[^\]]*\]|\([^)]*\)/g, '');
+  for (const match of withoutAttributes.matchAll(/#([\w-]+)/g)) {
+    hints.testIds.push(match[1]);
+    hints.words.push(...identifierWords(match[1]));
+  }
+  for (const match of withoutAttributes.matchAll(/\.([\w-]+)/g)) {
+    hints.words.push(...identifierWords(match[1]));
+  }
+  hints.words = [...new Set(hints.words)];
+  return hints;
+}
+
+function locatorHints(spec: LocatorSpec): TargetHints {
+  const hints: TargetHints = { testIds: [], words: [] };
+  if (spec.role) {
+    hints.role = spec.role;
+    hints.name = spec.name;
+  }
+  if (spec.label) {
+    hints.name = spec.label;
+  }
+  if (spec.placeholder) {
+    hints.placeholder = spec.placeholder;
+    hints.name = spec.placeholder;
+  }
+  if (spec.testId) {
+    hints.testIds.push(spec.testId);
+    hints.words.push(...identifierWords(spec.testId));
+  }
+  if (spec.text) {
+    hints.text = spec.text;
+    hints.name = spec.text;
+  }
+  return hints;
+}
+
+/** Describes a step's target for messages, e.g. `selector "#email"`. */
+export function describeTarget(step: ActionStep): string {
+  return step.locator ? `locator ${JSON.stringify(step.locator)}` : `selector "${step.selector ?? ''}"`;
+}
+
+/**
+ * Builds the ranked fallback locators for a step whose target matched
+ * nothing: role and accessible name, label, placeholder, test id, then a
+ * case-insensitive substring match on text. The step's own locator is left
+ * out. Refs are not healed, since they only name elements of one page.
+ */
+export function healingCandidates(step: ActionStep): HealingCandidate[] {
+  if (!HEALABLE_ACTIONS.includes(step.action) || step.locator?.ref) {
+    return [];
+  }
+  let hints: TargetHints;
+  if (step.locator) {
+    hints = locatorHints(step.locator);
+  } else if (step.selector) {
+    hints = selectorHints(step.selector);
+  } else {
+    return [];
+  }
+  const name = hints.name ?? hints.text ?? hints.placeholder ?? (hints.words.length > 0 ? hints.words.join(' ') : undefined);
+
+  const candidates: HealingCandidate[] = [];
+  if (name) {
+    const roles = hints.role ? [hints.role] : ACTION_ROLES[step.action] ?? [];
+    for (const role of roles) {
+      candidates.push({ strategy: 'role', locator: { role, name } });
+    }
+    candidates.push({ strategy: 'label', locator: { label: name } });
+  }
+  if (hints.placeholder ?? name) {
+    candidates.push({ strategy: 'placeholder', locator: { placeholder: (hints.placeholder ?? name)! } });
+  }
+  for (const testId of new Set(hints.testIds)) {
+    candidates.push({ strategy: 'testId', locator: { testId } });
+  }
+  const text = hints.text ?? name;
+  if (text) {
+    candidates.push({ strategy: 'text', locator: { text } });
+  }
+
+  const original = step.locator ? JSON.stringify(step.locator) : undefined;
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    const key = JSON.stringify(candidate.locator);
+    if (key === original || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/** The step rewritten to use a fallback locator in place of its selector or locator. */
+export function healedStep(step: ActionStep, locator: LocatorSpec): ActionStep {
+  const { selector: _selector, ...rest } = step;
+  return { ...rest, locator: { ...locator } };
+}
+
+/** One-line chat warning for a healed step, given its top-level index or its path inside a block. */
+export function describeHealing(position: number | string, healed: HealedLocator): string {
+  const label = typeof position === 'number' ? `Step ${position + 1}` : `Step ${position}`;
+  return (
+    `${label} healed: ${healed.original} matched nothing, so the ${healed.strategy} ` +
+    `locator ${JSON.stringify(healed.locator)} was used instead.`
+  );
+}
@@ -0,0 +1,34 @@
+export type ModelResponse =
+  | { kind: 'plan'; raw: unknown }
+  | { kind: 'clarification'; text: string }
+  | { kind: 'done'; summary: string };
+
+/** Removes a surrounding markdown code fence, which models often add around JSON. */
+function stripCodeFence(text: string): string {
+  const match = /^```(?:json)?\s*\n([\s\S]*?)\n?```$/.exec(text.trim());
+  return match ? match[1] : text;
+}
+
+/**
+ * Classifies a raw model response. Anything that is not JSON is treated as a
+ * clarification question for the user.
+ */
+export function parseModelResponse(response: string): ModelResponse {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(response));
+  } catch {
+    return { kind: 'clarification', text: response };
+  }
+
+  if (typeof parsed === 'object' && parsed !== null) {
+    const obj = parsed as Record<string, unknown>;
+    if ('clarification' in obj) {
+      return { kind: 'clarification', text: String(obj.clarification) };
+    }
+    if (obj.done === true) {
+      return { kind: 'done', summary: typeof obj.summary === 'string' ? obj.summary : '' };
+    }
+  }
+  return { kind: 'plan', raw: parsed };
+}
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ResponseLog, describeRoute, globToRegExp, isTextContentType } from './networkRoutes';
+
+describe('globToRegExp', () => {
+  it('matches path segments with * and anything with **', () => {
+    const pattern = globToRegExp('**/api/orders/*');
+    assert.ok(pattern.test('https://shop.example/api/orders/42'));
+    assert.ok(!pattern.test('https://shop.example/api/orders/42/items'));
+    assert.ok(globToRegExp('**/api/**').test('https://shop.example/api/orders/42/items'));
+  });
+
+  it('supports alternatives and treats other characters literally', () => {
+    const images = globToRegExp('**/*.{png,jpg}');
+    assert.ok(images.test('https://cdn.example/a/logo.png'));
+    assert.ok(images.test('https://cdn.example/photo.jpg'));
+    assert.ok(!images.test('https://cdn.example/logo.pngx'));
+    assert.ok(globToRegExp('**/search?q=*').test('https://shop.example/search?q=shoes'));
+    assert.ok(!globToRegExp('**/search?q=*').test('https://shop.example/searchXq=shoes'));
+  });
+
+  it('matches the whole URL', () => {
+    assert.ok(!globToRegExp('https://shop.example/api').test('https://shop.example/api/orders'));
+  });
+});
+
+describe('describeRoute', () => {
+  it('summarizes filters, effect and delay', () => {
+    assert.equal(
+      describeRoute({ url: '**/api/orders', method: 'GET', fulfill: { status: 500, json: {} }, delayMs: 2000 }),
+      'GET **/api/orders -> 500 (json) after 2000ms'
+    );
+    assert.equal(describeRoute({ url: '**/*', resourceTypes: ['image'], abort: true }), '[image] **/* -> abort');
+    assert.equal(describeRoute({ url: '**/api/**', headers: { 'x-test': '1' } }), '**/api/** -> send on with headers x-test');
+  });
+});
+
+describe('isTextContentType', () => {
+  it('reads JSON, XML and text bodies but not binary ones', () => {
+    assert.ok(isTextContentType('application/json; charset=utf-8'));
+    assert.ok(isTextContentType('application/problem+json'));
+    assert.ok(isTextContentType('text/html'));
+    assert.ok(!isTextContentType('image/png'));
+    assert.ok(!isTextContentType(undefined));
+  });
+});
+
+describe('ResponseLog', () => {
+  it('finds a response that arrived during the previous step, once', () => {
+    const log = new ResponseLog<string>();
+    log.startStep();
+    log.add('https://shop.example/api/orders', 'POST', 'created');
+    log.startStep();
+    assert.equal(log.take({ url: '**/api/orders', method: 'GET' }), undefined);
+    assert.equal(log.take({ url: '**/api/orders', method: 'POST' }), 'created');
+    assert.equal(log.take({ url: '**/api/orders' }), undefined);
+  });
+
+  it('forgets responses from before the previous step', () => {
+    const log = new ResponseLog<string>();
+    log.startStep();
+    log.add('https://shop.example/api/orders', 'GET', 'old');
+    log.startStep();
+    log.startStep();
+    assert.equal(log.take({ url: '**/api/orders' }), undefined);
+  });
+
+  it('skips responses already taken while waiting', () => {
+    const log = new ResponseLog<string>();
+    log.startStep();
+    log.add('https://shop.example/api/a', 'GET', 'first');
+    log.add('https://shop.example/api/b', 'GET', 'second');
+    log.markTaken('first');
+    assert.equal(log.take({ url: '**/api/*' }), 'second');
+  });
+});
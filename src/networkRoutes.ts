@@ -0,0 +1,123 @@
+import { RouteRule } from './actionDsl';
+
+/** Longest response body kept in a `waitForResponse` result. */
+export const RESPONSE_BODY_LIMIT = 20000;
+
+/**
+ * Converts a URL glob to a regular expression with Playwright's rules: `**`
+ * matches anything, `*` anything but "/", `{a,b}` either alternative, and
+ * every other character, including `?`, matches itself. The whole URL must match.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches nothing at all, so "**/api" matches "https://host/api"
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i++;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (c === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (c === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (c === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** One line describing what a route does, e.g. `GET **\/api/orders -> 500 (json) after 2000ms`. */
+export function describeRoute(rule: RouteRule): string {
+  const filters = [rule.method, rule.resourceTypes ? `[${rule.resourceTypes.join(', ')}]` : undefined].filter(Boolean);
+  let effect: string;
+  if (rule.abort) {
+    effect = 'abort';
+  } else if (rule.fulfill) {
+    const source = rule.fulfill.json !== undefined ? 'json' : rule.fulfill.file ? rule.fulfill.file : rule.fulfill.body !== undefined ? 'body' : 'empty';
+    effect = `${rule.fulfill.status ?? 200} (${source})`;
+  } else if (rule.headers) {
+    effect = `send on with headers ${Object.keys(rule.headers).join(', ')}`;
+  } else {
+    effect = 'send on';
+  }
+  const delay = rule.delayMs ? ` after ${rule.delayMs}ms` : '';
+  return `${[...filters, rule.url].join(' ')} -> ${effect}${delay}`;
+}
+
+/** Whether a response body with this content type is worth reading as text. */
+export function isTextContentType(contentType: string | undefined): boolean {
+  if (!contentType) {
+    return false;
+  }
+  return /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/i.test(contentType);
+}
+
+/** What a `waitForResponse` step looks for. */
+export interface ResponseMatcher {
+  url: string;
+  method?: string;
+}
+
+interface LoggedResponse<T> {
+  url: string;
+  method: string;
+  response: T;
+  taken: boolean;
+}
+
+/**
+ * Responses seen since the previous step started. A `waitForResponse` step
+ * usually follows the click that sent the request, and the response may
+ * already be in by the time it runs, so it first looks here before waiting.
+ */
+export class ResponseLog<T> {
+  private entries: LoggedResponse<T>[] = [];
+  /** Index of the first entry that arrived during the current step. */
+  private currentStepStart = 0;
+
+  /** Forgets responses from before the previous step. Call when a step starts. */
+  startStep(): void {
+    this.entries = this.entries.slice(this.currentStepStart);
+    this.currentStepStart = this.entries.length;
+  }
+
+  add(url: string, method: string, response: T): void {
+    this.entries.push({ url, method, response, taken: false });
+  }
+
+  /** The earliest logged response that matches and was not taken by an earlier step, marked as taken. */
+  take(matcher: ResponseMatcher): T | undefined {
+    const pattern = globToRegExp(matcher.url);
+    const entry = this.entries.find(
+      (e) => !e.taken && pattern.test(e.url) && (!matcher.method || e.method === matcher.method)
+    );
+    if (!entry) {
+      return undefined;
+    }
+    entry.taken = true;
+    return entry.response;
+  }
+
+  /** Marks a response that arrived while waiting, so a later step does not take it again. */
+  markTaken(response: T): void {
+    const entry = this.entries.find((e) => e.response === response);
+    if (entry) {
+      entry.taken = true;
+    }
+  }
+}
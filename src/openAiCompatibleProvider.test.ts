@@ -0,0 +1,73 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from './openAiCompatibleProvider';
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let endpoint: string;
+  const requests: { method?: string; url?: string; auth?: string; body: string }[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, auth: req.headers.authorization, body });
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/v1/models') {
+          res.end(JSON.stringify({ data: [{ id: 'llama3.1' }, { id: 'qwen2.5' }] }));
+        } else if (req.url === '/v1/chat/completions' && JSON.parse(body).model === 'missing') {
+          res.statusCode = 404;
+          res.end('{"error":"model \\"missing\\" not found"}');
+        } else if (req.url === '/v1/chat/completions') {
+          res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: '{"steps":[]}' } }] }));
+        } else {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('lists the server models and defaults to the first one', async () => {
+    const provider = new OpenAICompatibleProvider({ endpoint });
+    assert.deepEqual(await provider.listModels(), [
+      { id: 'llama3.1', name: 'llama3.1' },
+      { id: 'qwen2.5', name: 'qwen2.5' },
+    ]);
+    assert.equal((await provider.selectModel()).name, 'llama3.1');
+  });
+
+  it('posts the conversation to /chat/completions with the API key', async () => {
+    const provider = new OpenAICompatibleProvider({ endpoint, model: 'qwen2.5', apiKey: 'sk-local', maxInputTokens: 4096 });
+    const model = await provider.selectModel();
+    assert.equal(model.maxInputTokens, 4096);
+    const response = await model.complete([{ role: 'user', content: 'Open example.com' }]);
+    assert.equal(response, '{"steps":[]}');
+    const request = requests[requests.length - 1];
+    assert.equal(request.auth, 'Bearer sk-local');
+    assert.deepEqual(JSON.parse(request.body), {
+      model: 'qwen2.5',
+      messages: [{ role: 'user', content: 'Open example.com' }],
+      temperature: 0,
+      stream: false,
+    });
+  });
+
+  it('reports HTTP errors and unreachable servers', async () => {
+    const model = await new OpenAICompatibleProvider({ endpoint }).selectModel('missing');
+    await assert.rejects(model.complete([{ role: 'user', content: 'hi' }]), /returned 404 Not Found: \{"error":"model \\"missing\\" not found"\}/);
+
+    const offline = new OpenAICompatibleProvider({ endpoint: 'http://127.0.0.1:1/v1', model: 'llama3.1' });
+    assert.deepEqual(await offline.listModels(), [{ id: 'llama3.1', name: 'llama3.1' }]);
+    await assert.rejects((await offline.selectModel()).complete([{ role: 'user', content: 'hi' }]), /Could not reach the model at http:\/\/127\.0\.0\.1:1\/v1\/chat\/completions/);
+  });
+});
@@ -0,0 +1,118 @@
+import { ConversationMessage } from './conversation';
+import { LLMModel, LLMModelInfo, LLMProvider } from './llmProvider';
+import { CancellationSignal } from './playwrightRunner';
+
+export const DEFAULT_MAX_INPUT_TOKENS = 8192;
+const REQUEST_TIMEOUT_MS = 120000;
+const ERROR_BODY_MAX_CHARS = 300;
+
+export interface OpenAICompatibleOptions {
+  /** Base URL of the API, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp. */
+  endpoint: string;
+  /** Model used when the user has not picked one. */
+  model?: string;
+  /** Sent as a bearer token; local servers usually need none. */
+  apiKey?: string;
+  maxInputTokens?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Models behind an OpenAI-compatible `/chat/completions` endpoint, such as a
+ * local Ollama or llama.cpp server, so chats work without Copilot or a network connection.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private readonly endpoint: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+  }
+
+  /** Models the server reports at `/models`; just the configured one if it cannot list them. */
+  async listModels(): Promise<LLMModelInfo[]> {
+    const configured = this.options.model ? [{ id: this.options.model, name: this.options.model }] : [];
+    try {
+      const body = (await this.request('GET', '/models')) as { data?: { id?: unknown }[] };
+      const ids = (body.data ?? []).map((m) => m.id).filter((id): id is string => typeof id === 'string');
+      return ids.length > 0 ? ids.map((id) => ({ id, name: id })) : configured;
+    } catch {
+      return configured;
+    }
+  }
+
+  async selectModel(modelId?: string): Promise<LLMModel> {
+    let id = modelId || this.options.model;
+    if (!id) {
+      const models = await this.listModels();
+      if (models.length === 0) {
+        throw new Error(`No model is set for ${this.endpoint}. Set "playwrightChatRunner.model.name" or pick a model in the chat view.`);
+      }
+      id = models[0].id;
+    }
+    const name = id;
+    return {
+      name,
+      maxInputTokens: this.options.maxInputTokens ?? DEFAULT_MAX_INPUT_TOKENS,
+      complete: async (messages, cancellation) => {
+        const body = (await this.request('POST', '/chat/completions', { model: name, messages, temperature: 0, stream: false }, cancellation)) as {
+          choices?: { message?: { content?: unknown } }[];
+        };
+        const content = body.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+          throw new Error(`${this.endpoint} returned no message content for model "${name}"`);
+        }
+        return content;
+      },
+    };
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    route: string,
+    body?: { model: string; messages: ConversationMessage[]; temperature: number; stream: boolean },
+    cancellation?: CancellationSignal
+  ): Promise<unknown> {
+    const url = `${this.endpoint}${route}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? REQUEST_TIMEOUT_MS);
+    const listener = cancellation?.onCancellationRequested(() => controller.abort());
+    if (cancellation?.isCancellationRequested) {
+      controller.abort();
+    }
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: controller.signal,
+        });
+      } catch (err) {
+        if (cancellation?.isCancellationRequested) {
+          throw new Error('The model request was cancelled');
+        }
+        if (controller.signal.aborted) {
+          throw new Error(`The model at ${url} did not answer within ${(this.options.timeoutMs ?? REQUEST_TIMEOUT_MS) / 1000}s`);
+        }
+        throw new Error(`Could not reach the model at ${url}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      const text = await response.text();
+      if (!response.ok) {
+        const detail = text.length > ERROR_BODY_MAX_CHARS ? `${text.slice(0, ERROR_BODY_MAX_CHARS - 1)}…` : text;
+        throw new Error(`The model at ${url} returned ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+      }
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new Error(`The model at ${url} returned a response that is not JSON`);
+      }
+    } finally {
+      clearTimeout(timer);
+      listener?.dispose();
+    }
+  }
+}
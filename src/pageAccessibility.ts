@@ -0,0 +1,145 @@
+// Helpers for scripts that run inside the page, where the DOM globals exist; the extension compiles without the DOM library.
+
+/** The parts of a DOM element the in-page scripts use. */
+export interface DomElement {
+  tagName: string;
+  id: string;
+  nodeType: number;
+  innerText?: string;
+  isContentEditable?: boolean;
+  parentElement: DomElement | null;
+  children: ArrayLike<DomElement>;
+  shadowRoot?: { children: ArrayLike<DomElement> } | null;
+  /** Present on form controls only, like the fields below. */
+  labels?: ArrayLike<DomElement> | null;
+  control?: DomElement | null;
+  type?: string;
+  value?: unknown;
+  checked?: boolean;
+  disabled?: boolean;
+  selected?: boolean;
+  multiple?: boolean;
+  size?: number;
+  selectedOptions?: ArrayLike<DomElement>;
+  getAttribute(name: string): string | null;
+  hasAttribute(name: string): boolean;
+  setAttribute(name: string, value: string): void;
+  getClientRects(): ArrayLike<unknown>;
+  closest?(selector: string): DomElement | null;
+}
+
+export interface DomDocument {
+  body: DomElement | null;
+  getElementById(id: string): DomElement | null;
+  querySelectorAll(selector: string): ArrayLike<DomElement>;
+}
+
+/** Role and name as the page outline and the recorder see them, so recorded locators match observed elements. */
+export interface AccessibilityHelpers {
+  /** The explicit `role` attribute, or the role implied by the element's tag. */
+  roleOf(el: DomElement): string | undefined;
+  /** The accessible name, not yet trimmed or shortened. */
+  accessibleName(el: DomElement, role: string): string;
+}
+
+export interface AccessibilityWindow {
+  __pwChatAccessibility?: AccessibilityHelpers;
+}
+
+declare const document: DomDocument;
+declare const window: AccessibilityWindow;
+
+/**
+ * Installs the helpers as `window.__pwChatAccessibility`. Functions passed to
+ * the page are sent as source, so they cannot import shared code; run this in
+ * the page first, with `page.evaluate` or `addInitScript`.
+ */
+export function installAccessibilityHelpers(): void {
+  const INPUT_ROLES: Record<string, string> = {
+    checkbox: 'checkbox', radio: 'radio', button: 'button', submit: 'button', reset: 'button', image: 'button',
+    range: 'slider', number: 'spinbutton', search: 'searchbox',
+  };
+
+  const implicitRole = (el: DomElement): string | undefined => {
+    const tag = el.tagName.toLowerCase();
+    switch (tag) {
+      case 'a':
+        return el.hasAttribute('href') ? 'link' : undefined;
+      case 'button':
+      case 'summary':
+        return 'button';
+      case 'input': {
+        const type = (el.getAttribute('type') ?? 'text').toLowerCase();
+        return type === 'hidden' ? undefined : INPUT_ROLES[type] ?? 'textbox';
+      }
+      case 'select':
+        return el.multiple || (el.size ?? 0) > 1 ? 'listbox' : 'combobox';
+      case 'textarea':
+        return 'textbox';
+      case 'option':
+        return 'option';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'nav':
+        return 'navigation';
+      case 'main':
+        return 'main';
+      case 'form':
+        return el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby') ? 'form' : undefined;
+      case 'table':
+        return 'table';
+      case 'ul':
+      case 'ol':
+        return 'list';
+      case 'dialog':
+        return 'dialog';
+      case 'img':
+        return el.getAttribute('alt') ? 'img' : undefined;
+      default:
+        return el.isContentEditable && !el.parentElement?.isContentEditable ? 'textbox' : undefined;
+    }
+  };
+
+  const accessibleName = (el: DomElement, role: string): string => {
+    const label = el.getAttribute('aria-label');
+    if (label) {
+      return label;
+    }
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.innerText ?? '')
+        .join(' ');
+      if (text.trim()) {
+        return text;
+      }
+    }
+    if (el.labels && el.labels.length > 0) {
+      return Array.from(el.labels).map((l) => l.innerText ?? '').join(' ');
+    }
+    if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type ?? '') && typeof el.value === 'string') {
+      return el.value;
+    }
+    const placeholder = el.getAttribute('placeholder');
+    if (placeholder) {
+      return placeholder;
+    }
+    const alt = el.getAttribute('alt');
+    if (alt) {
+      return alt;
+    }
+    if (!['textbox', 'searchbox', 'combobox', 'listbox', 'list', 'table', 'form', 'main', 'navigation'].includes(role)) {
+      const text = el.innerText;
+      if (text && text.trim()) {
+        return text;
+      }
+    }
+    return el.getAttribute('title') ?? '';
+  };
+
+  window.__pwChatAccessibility = {
+    roleOf: (el) => (el.getAttribute('role') ?? '').split(' ')[0] || implicitRole(el),
+    accessibleName,
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ObservedNode, formatOutline, maskNodeValues, refSelector } from './pageObservation';
+import { estimateTokens } from './conversation';
+
+function node(ref: number, role: string, name: string, extra: Partial<ObservedNode> = {}): ObservedNode {
+  return { ref: `e${ref}`, role, name, depth: 0, interactive: role !== 'heading' && role !== 'navigation', ...extra };
+}
+
+describe('formatOutline', () => {
+  it('lists elements with their state and ref IDs', () => {
+    const outline = formatOutline(
+      [
+        node(1, 'navigation', 'Main'),
+        node(2, 'link', 'Home', { depth: 1 }),
+        node(3, 'heading', 'Sign in', { level: 1 }),
+        node(4, 'textbox', 'Email', { value: 'ann@example.com' }),
+        node(5, 'checkbox', 'Remember me', { checked: false }),
+        node(6, 'button', 'Submit', { disabled: true }),
+      ],
+      { url: 'https://example.com/login', title: 'Login' }
+    );
+    assert.equal(
+      outline,
+      [
+        'URL: https://example.com/login',
+        'Title: Login',
+        'Page outline (target elements with { "ref": "<id>" } locators):',
+        '- navigation "Main" [ref=e1]',
+        '  - link "Home" [ref=e2]',
+        '- heading "Sign in" [level=1] [ref=e3]',
+        '- textbox "Email" value="ann@example.com" [ref=e4]',
+        '- checkbox "Remember me" [unchecked] [ref=e5]',
+        '- button "Submit" [disabled] [ref=e6]',
+      ].join('\n')
+    );
+  });
+
+  it('reports an empty page', () => {
+    assert.equal(formatOutline([], { url: 'about:blank', title: '' }), 'URL: about:blank\nTitle: (none)\nPage outline: no visible elements.');
+  });
+
+  it('drops landmarks before interactive elements when over budget', () => {
+    const nodes: ObservedNode[] = [];
+    for (let i = 1; i <= 40; i += 2) {
+      nodes.push(node(i, 'navigation', `Section ${i} with a fairly long landmark name`));
+      nodes.push(node(i + 1, 'button', `Action ${i + 1}`, { depth: 1 }));
+    }
+    const full = formatOutline(nodes, { maxTokens: 100000 });
+    const outline = formatOutline(nodes, { maxTokens: Math.floor(estimateTokens(full) * 0.6) });
+    assert.ok(!outline.includes('navigation'));
+    assert.ok(outline.includes('button "Action 2"'));
+  });
+
+  it('stays within the token budget and says how much was left out', () => {
+    const nodes = Array.from({ length: 500 }, (_, i) => node(i + 1, 'link', `Link number ${i + 1}`));
+    const outline = formatOutline(nodes, { maxTokens: 300 });
+    assert.ok(estimateTokens(outline) <= 300);
+    assert.match(outline, /… \d+ more element\(s\) not shown/);
+    assert.ok(outline.includes('[ref=e1]'));
+  });
+});
+
+describe('maskNodeValues', () => {
+  it('masks a long secret before shortening the value', () => {
+    const secret = 'correct-horse-battery-staple-and-then-some-more';
+    const [masked] = maskNodeValues([node(1, 'textbox', 'Token', { value: `key ${secret}` })], [secret]);
+    assert.equal(masked.value, 'key ••••••');
+  });
+
+  it('shortens long values without secrets', () => {
+    const [shortened] = maskNodeValues([node(1, 'textbox', 'Notes', { value: 'x'.repeat(100) })], []);
+    assert.equal(shortened.value, `${'x'.repeat(39)}…`);
+  });
+});
+
+describe('refSelector', () => {
+  it('targets the ref attribute', () => {
+    assert.equal(refSelector('e3'), '[data-pw-ref="e3"]');
+  });
+});
@@ -0,0 +1,259 @@
+import type * as playwright from 'playwright';
+import { estimateTokens } from './conversation';
+import { AccessibilityWindow, DomDocument, DomElement, installAccessibilityHelpers } from './pageAccessibility';
+import { maskSecrets } from './templating';
+
+/** Attribute that stores an element's ref ID on the page, so refs stay stable between observations. */
+export const REF_ATTRIBUTE = 'data-pw-ref';
+
+/** Default token budget for a page outline. */
+export const DEFAULT_OUTLINE_TOKENS = 1500;
+
+/** Upper bound on elements collected from one page, so huge pages cannot stall the run. */
+const MAX_NODES = 2000;
+const NAME_MAX_CHARS = 80;
+const VALUE_MAX_CHARS = 40;
+
+/** One element of the page outline, in document order. */
+export interface ObservedNode {
+  ref: string;
+  role: string;
+  name: string;
+  /** Nesting depth among outlined elements, used for indentation. */
+  depth: number;
+  /** Elements a step can act on, as opposed to structure such as headings and landmarks. */
+  interactive: boolean;
+  level?: number;
+  value?: string;
+  checked?: boolean | 'mixed';
+  disabled?: boolean;
+  expanded?: boolean;
+  selected?: boolean;
+}
+
+export interface OutlineOptions {
+  url?: string;
+  title?: string;
+  maxTokens?: number;
+}
+
+export function refSelector(ref: string): string {
+  return `[${REF_ATTRIBUTE}="${ref}"]`;
+}
+
+function nodeLine(node: ObservedNode): string {
+  let line = `${'  '.repeat(node.depth)}- ${node.role}`;
+  if (node.name) {
+    line += ` "${node.name}"`;
+  }
+  if (node.level !== undefined) {
+    line += ` [level=${node.level}]`;
+  }
+  if (node.checked !== undefined) {
+    line += node.checked === 'mixed' ? ' [checked=mixed]' : node.checked ? ' [checked]' : ' [unchecked]';
+  }
+  if (node.expanded !== undefined) {
+    line += node.expanded ? ' [expanded]' : ' [collapsed]';
+  }
+  if (node.selected) {
+    line += ' [selected]';
+  }
+  if (node.disabled) {
+    line += ' [disabled]';
+  }
+  if (node.value) {
+    line += ` value="${node.value}"`;
+  }
+  return `${line} [ref=${node.ref}]`;
+}
+
+/**
+ * Formats collected elements as an indented outline within a token budget.
+ * When the full outline does not fit, structure other than headings is
+ * dropped first, then the remaining lines are cut off with a note.
+ */
+export function formatOutline(nodes: ObservedNode[], options: OutlineOptions = {}): string {
+  const maxTokens = options.maxTokens ?? DEFAULT_OUTLINE_TOKENS;
+  const header: string[] = [];
+  if (options.url !== undefined) {
+    header.push(`URL: ${options.url}`);
+  }
+  if (options.title !== undefined) {
+    header.push(`Title: ${options.title || '(none)'}`);
+  }
+  if (nodes.length === 0) {
+    return [...header, 'Page outline: no visible elements.'].join('\n');
+  }
+  header.push('Page outline (target elements with { "ref": "<id>" } locators):');
+
+  let budget = maxTokens - estimateTokens(header.join('\n'));
+  let shown = nodes;
+  let lines = shown.map(nodeLine);
+  if (estimateTokens(lines.join('\n')) > budget) {
+    shown = nodes.filter((n) => n.interactive || n.role === 'heading');
+    lines = shown.map(nodeLine);
+  }
+
+  const kept: string[] = [];
+  // Reserve room for the note about omitted elements
+  budget -= 25;
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (cost > budget) {
+      break;
+    }
+    kept.push(line);
+    budget -= cost;
+  }
+  const omitted = nodes.length - kept.length;
+  if (omitted > 0) {
+    kept.push(`… ${omitted} more element(s) not shown; scroll or act on the page and observe again.`);
+  }
+  return [...header, ...kept].join('\n');
+}
+
+// The collector below runs inside the page, after `installAccessibilityHelpers`.
+declare const document: DomDocument;
+declare const window: AccessibilityWindow & { __pwChatRefCounter?: number };
+declare const getComputedStyle: (element: DomElement) => { display: string; visibility: string };
+
+interface CollectArgs {
+  refAttribute: string;
+  maxNodes: number;
+  nameMaxChars: number;
+}
+
+function collectInPage(args: CollectArgs): ObservedNode[] {
+  const INTERACTIVE_ROLES = [
+    'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'listbox', 'option',
+    'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'switch', 'slider', 'spinbutton', 'treeitem',
+  ];
+  const STRUCTURE_ROLES = [
+    'heading', 'dialog', 'alertdialog', 'alert', 'navigation', 'main', 'form', 'table', 'list',
+    'region', 'banner', 'contentinfo', 'search', 'img', 'tablist', 'menu', 'toolbar', 'grid', 'tree',
+  ];
+
+  const clean = (text: string | null | undefined, max: number) => {
+    const collapsed = (text ?? '').replace(/\s+/g, ' ').trim();
+    return collapsed.length > max ? `${collapsed.slice(0, max - 1)}…` : collapsed;
+  };
+
+  const { roleOf, accessibleName } = window.__pwChatAccessibility!;
+
+  const refFor = (el: DomElement): string => {
+    const existing = el.getAttribute(args.refAttribute);
+    if (existing) {
+      return existing;
+    }
+    window.__pwChatRefCounter = (window.__pwChatRefCounter ?? 0) + 1;
+    const ref = `e${window.__pwChatRefCounter}`;
+    el.setAttribute(args.refAttribute, ref);
+    return ref;
+  };
+
+  const nodes: ObservedNode[] = [];
+  const walk = (el: DomElement, depth: number) => {
+    if (nodes.length >= args.maxNodes) {
+      return;
+    }
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || el.getAttribute('aria-hidden') === 'true') {
+      return;
+    }
+    const role = roleOf(el);
+    const interactive = role !== undefined && INTERACTIVE_ROLES.includes(role);
+    const included =
+      role !== undefined &&
+      (interactive || STRUCTURE_ROLES.includes(role)) &&
+      style.visibility !== 'hidden' &&
+      el.getClientRects().length > 0;
+    if (included) {
+      const node: ObservedNode = {
+        ref: refFor(el),
+        role: role!,
+        name: clean(accessibleName(el, role!), args.nameMaxChars),
+        depth,
+        interactive,
+      };
+      if (role === 'heading') {
+        node.level = Number(el.getAttribute('aria-level') ?? el.tagName.slice(1)) || undefined;
+      }
+      if (role === 'checkbox' || role === 'radio' || role === 'switch' || role === 'menuitemcheckbox') {
+        const ariaChecked = el.getAttribute('aria-checked');
+        node.checked = ariaChecked === 'mixed' ? 'mixed' : ariaChecked !== null ? ariaChecked === 'true' : !!el.checked;
+      }
+      if (el.disabled || el.getAttribute('aria-disabled') === 'true') {
+        node.disabled = true;
+      }
+      const expanded = el.getAttribute('aria-expanded');
+      if (expanded !== null) {
+        node.expanded = expanded === 'true';
+      }
+      if (el.getAttribute('aria-selected') === 'true' || (el.tagName === 'OPTION' && el.selected)) {
+        node.selected = true;
+      }
+      if (['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider'].includes(role!) && typeof el.value === 'string' && el.value) {
+        // Shortened outside the page, once secrets are masked
+        node.value = el.type === 'password' ? '••••••' : el.value;
+      }
+      nodes.push(node);
+    }
+    // Options are summarized by their select; other interactive elements rarely nest meaningful children
+    if (role === 'combobox' && el.tagName === 'SELECT') {
+      return;
+    }
+    const children = [...Array.from(el.children), ...Array.from(el.shadowRoot?.children ?? [])];
+    for (const child of children) {
+      walk(child, included ? depth + 1 : depth);
+    }
+  };
+  if (document.body) {
+    walk(document.body, 0);
+  }
+  return nodes;
+}
+
+/**
+ * Masks secrets in field values, then shortens them. Masking must come first:
+ * a secret cut in half no longer matches and its start would stay visible.
+ */
+export function maskNodeValues(nodes: ObservedNode[], secretValues: string[]): ObservedNode[] {
+  return nodes.map((node) => {
+    if (node.value === undefined) {
+      return node;
+    }
+    const value = maskSecrets(node.value, secretValues).replace(/\s+/g, ' ').trim();
+    return { ...node, value: value.length > VALUE_MAX_CHARS ? `${value.slice(0, VALUE_MAX_CHARS - 1)}…` : value };
+  });
+}
+
+/**
+ * Collects visible interactive elements, headings and landmarks in document
+ * order, approximating the accessibility tree. Each element is tagged with a
+ * ref ID that stays the same for as long as the element exists.
+ */
+export async function collectPageNodes(page: playwright.Page, secretValues: string[] = []): Promise<ObservedNode[]> {
+  await page.evaluate(installAccessibilityHelpers);
+  const nodes = await page.evaluate(collectInPage, {
+    refAttribute: REF_ATTRIBUTE,
+    maxNodes: MAX_NODES,
+    nameMaxChars: NAME_MAX_CHARS,
+  });
+  return maskNodeValues(nodes, secretValues);
+}
+
+/** Builds the token-budgeted outline of the current page, with `secretValues` masked. */
+export async function observePage(
+  page: playwright.Page,
+  maxTokens = DEFAULT_OUTLINE_TOKENS,
+  secretValues: string[] = []
+): Promise<string> {
+  const nodes = await collectPageNodes(page, secretValues);
+  let title = '';
+  try {
+    title = await page.title();
+  } catch {
+    // page may be mid-navigation
+  }
+  return formatOutline(nodes, { url: page.url(), title, maxTokens });
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AVAILABLE_TOOLS, ActionPlan } from './actionDsl';
+import { PLAN_FILE_VERSION, parsePlanFile, planFileFormat, serializePlanFile } from './planFile';
+
+const allTools = [...AVAILABLE_TOOLS];
+const plan: ActionPlan = {
+  steps: [
+    { action: 'goto', url: 'https://example.com' },
+    { action: 'click', locator: { role: 'link', name: 'More information' } },
+  ],
+};
+
+describe('planFileFormat', () => {
+  it('detects YAML and defaults to JSON', () => {
+    assert.equal(planFileFormat('login.pwplan.yaml'), 'yaml');
+    assert.equal(planFileFormat('login.pwplan.yml'), 'yaml');
+    assert.equal(planFileFormat('login.pwplan.json'), 'json');
+  });
+});
+
+describe('plan files', () => {
+  it('round-trips a plan through JSON', () => {
+    const text = serializePlanFile(plan, 'json', { name: 'login' });
+    assert.equal(JSON.parse(text).version, PLAN_FILE_VERSION);
+    const parsed = parsePlanFile(text, 'json', allTools);
+    assert.equal(parsed.valid, true);
+    assert.deepEqual(parsed.plan, plan);
+    assert.equal(parsed.metadata.name, 'login');
+  });
+
+  it('round-trips a plan through YAML', () => {
+    const text = serializePlanFile(plan, 'yaml');
+    assert.ok(text.includes('version: 1'));
+    const parsed = parsePlanFile(text, 'yaml', allTools);
+    assert.equal(parsed.valid, true);
+    assert.deepEqual(parsed.plan, plan);
+  });
+
+  it('rejects files without a version', () => {
+    const parsed = parsePlanFile(JSON.stringify({ steps: [] }), 'json', allTools);
+    assert.equal(parsed.valid, false);
+    assert.ok(parsed.errors[0].includes('version'));
+  });
+
+  it('rejects newer file versions', () => {
+    const parsed = parsePlanFile(JSON.stringify({ version: PLAN_FILE_VERSION + 1, steps: [] }), 'json', allTools);
+    assert.equal(parsed.valid, false);
+    assert.ok(parsed.errors[0].includes('Unsupported'));
+  });
+
+  it('reports syntax errors', () => {
+    const parsed = parsePlanFile('{ not json', 'json', allTools);
+    assert.equal(parsed.valid, false);
+    assert.ok(parsed.errors[0].includes('Could not parse'));
+  });
+
+  it('validates steps against the enabled tools', () => {
+    const parsed = parsePlanFile(serializePlanFile(plan, 'json'), 'json', ['goto']);
+    assert.equal(parsed.valid, false);
+    assert.ok(parsed.errors.some((e) => e.includes('not in the enabled tools list')));
+  });
+});
+
+describe('plan JSON Schema', () => {
+  const schemaPath = path.join(__dirname, '..', 'schemas', 'pwplan.schema.json');
+  const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf8'));
+
+  it('lists every available action', () => {
+    assert.deepEqual([...schema.definitions.step.properties.action.enum].sort(), [...AVAILABLE_TOOLS].sort());
+  });
+
+  it('matches the current file version', () => {
+    assert.equal(schema.properties.version.const, PLAN_FILE_VERSION);
+  });
+});
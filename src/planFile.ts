@@ -0,0 +1,90 @@
+import * as YAML from 'yaml';
+import { ActionPlan, ValidationOptions, validateActionPlan } from './actionDsl';
+
+/** Current version of the saved plan file format. */
+export const PLAN_FILE_VERSION = 1;
+
+/** Top-level keys that describe the file rather than the plan. */
+const METADATA_KEYS = ['$schema', 'version', 'name', 'description', 'createdAt'];
+
+export type PlanFileFormat = 'json' | 'yaml';
+
+export interface PlanFileMetadata {
+  name?: string;
+  description?: string;
+  createdAt?: string;
+}
+
+export interface ParsedPlanFile {
+  valid: boolean;
+  errors: string[];
+  plan?: ActionPlan;
+  metadata: PlanFileMetadata;
+}
+
+/** Picks the format from a file name such as `login.pwplan.yaml`. Defaults to JSON. */
+export function planFileFormat(fileName: string): PlanFileFormat {
+  return /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
+}
+
+/**
+ * Serializes a plan with its format version. Plan fields sit at the top level
+ * next to the metadata; editors validate `*.pwplan.json` and `*.pwplan.yaml`
+ * files against `schemas/pwplan.schema.json`.
+ */
+export function serializePlanFile(
+  plan: ActionPlan,
+  format: PlanFileFormat,
+  metadata: PlanFileMetadata = {}
+): string {
+  const file = { version: PLAN_FILE_VERSION, ...metadata, ...plan };
+  return format === 'yaml' ? YAML.stringify(file) : `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/** Parses a saved plan file, checks its version and validates the plan against the enabled tools. */
+export function parsePlanFile(
+  text: string,
+  format: PlanFileFormat,
+  enabledTools: string[],
+  options: ValidationOptions = {}
+): ParsedPlanFile {
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? YAML.parse(text) : JSON.parse(text);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { valid: false, errors: [`Could not parse plan file as ${format.toUpperCase()}: ${msg}`], metadata: {} };
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: ['Plan file must contain an object'], metadata: {} };
+  }
+
+  const obj = raw as Record<string, unknown>;
+  const metadata: PlanFileMetadata = {};
+  for (const key of ['name', 'description', 'createdAt'] as const) {
+    if (typeof obj[key] === 'string') {
+      metadata[key] = obj[key] as string;
+    }
+  }
+
+  if (typeof obj.version !== 'number' || !Number.isInteger(obj.version)) {
+    return { valid: false, errors: ['Plan file requires an integer "version"'], metadata };
+  }
+  if (obj.version > PLAN_FILE_VERSION || obj.version < 1) {
+    return {
+      valid: false,
+      errors: [`Unsupported plan file version ${obj.version}; this extension supports up to version ${PLAN_FILE_VERSION}`],
+      metadata,
+    };
+  }
+
+  const planFields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (!METADATA_KEYS.includes(key)) {
+      planFields[key] = value;
+    }
+  }
+  const validation = validateActionPlan(planFields, enabledTools, options);
+  return { valid: validation.valid, errors: validation.errors, plan: validation.plan, metadata };
+}
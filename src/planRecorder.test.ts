@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AVAILABLE_TOOLS, validateActionPlan } from './actionDsl';
+import { BrowserSession } from './browserSession';
+import { PlanRecorder, RecordedTarget, chooseLocator } from './planRecorder';
+
+const button: RecordedTarget = {
+  role: { role: 'button', name: 'Sign in', count: 1 },
+  text: { value: 'Sign in', count: 1 },
+  css: 'form > button:nth-of-type(1)',
+};
+const email: RecordedTarget = { label: { value: 'Email', count: 1 }, css: '#email' };
+const password: RecordedTarget = { label: { value: 'Password', count: 1 }, css: '#password' };
+
+describe('chooseLocator', () => {
+  it('prefers a test id, then role and name', () => {
+    assert.deepEqual(chooseLocator({ ...button, testId: { value: 'submit', count: 1 } }), { locator: { testId: 'submit' } });
+    assert.deepEqual(chooseLocator(button), { locator: { role: 'button', name: 'Sign in', exact: true } });
+  });
+
+  it('skips candidates that are not unique, empty or too long', () => {
+    const target: RecordedTarget = {
+      testId: { value: 'row', count: 3 },
+      role: { role: 'button', name: '', count: 1 },
+      label: { value: 'x'.repeat(200), count: 1 },
+      placeholder: { value: 'Search', count: 1 },
+      css: 'input',
+    };
+    assert.deepEqual(chooseLocator(target), { locator: { placeholder: 'Search', exact: true } });
+  });
+
+  it('falls back to the CSS selector', () => {
+    assert.deepEqual(chooseLocator({ text: { value: 'Delete', count: 2 }, css: 'li:nth-of-type(2) > a' }), {
+      selector: 'li:nth-of-type(2) > a',
+    });
+    assert.deepEqual(chooseLocator({ role: { role: 'not-a-role', name: 'Go', count: 1 }, css: 'a' }), { selector: 'a' });
+  });
+});
+
+describe('PlanRecorder', () => {
+  it('records a sign-in as a valid plan, keeping only the final typed value', () => {
+    const recorder = new PlanRecorder(new BrowserSession());
+    recorder.add({ kind: 'navigate', url: 'https://shop.example/login' }, 0);
+    recorder.add({ kind: 'fill', target: email, value: 'a' }, 100);
+    recorder.add({ kind: 'fill', target: email, value: 'ann@example.com' }, 200);
+    recorder.add({ kind: 'fill', target: password, value: 'hunter2', password: true }, 300);
+    recorder.add({ kind: 'click', target: button }, 400);
+    recorder.add({ kind: 'navigate', url: 'https://shop.example/account' }, 900);
+
+    assert.deepEqual(recorder.steps, [
+      { action: 'goto', url: 'https://shop.example/login' },
+      { action: 'type', locator: { label: 'Email', exact: true }, value: 'ann@example.com' },
+      { action: 'type', locator: { label: 'Password', exact: true }, value: '${{secrets.PASSWORD}}' },
+      { action: 'click', locator: { role: 'button', name: 'Sign in', exact: true } },
+    ]);
+    assert.equal(validateActionPlan({ steps: recorder.steps }, [...AVAILABLE_TOOLS]).valid, true);
+  });
+
+  it('records navigations the user makes and ignores repeats and non-web pages', () => {
+    const recorder = new PlanRecorder(new BrowserSession());
+    recorder.add({ kind: 'navigate', url: 'about:blank' }, 0);
+    recorder.add({ kind: 'navigate', url: 'https://shop.example/' }, 0);
+    recorder.add({ kind: 'navigate', url: 'https://shop.example/' }, 10);
+    recorder.add({ kind: 'click', target: button }, 100);
+    recorder.add({ kind: 'navigate', url: 'https://shop.example/cart' }, 5000);
+    assert.deepEqual(
+      recorder.steps.map((s) => s.url ?? s.action),
+      ['https://shop.example/', 'click', 'https://shop.example/cart']
+    );
+  });
+
+  it('records selects, checkboxes and key presses', () => {
+    const steps: number[] = [];
+    const recorder = new PlanRecorder(new BrowserSession(), { onStep: (s) => steps.push(s.length) });
+    const size: RecordedTarget = { label: { value: 'Size', count: 1 }, css: '#size' };
+    recorder.add({ kind: 'select', target: size, values: ['M'] });
+    recorder.add({ kind: 'select', target: size, values: ['M', 'L'] });
+    recorder.add({ kind: 'check', target: { label: { value: 'Gift wrap', count: 1 }, css: '#gift' } });
+    recorder.add({ kind: 'press', key: 'Enter', target: email });
+    recorder.add({ kind: 'press', key: 'Escape' });
+
+    assert.deepEqual(recorder.steps, [
+      { action: 'selectOption', locator: { label: 'Size', exact: true }, value: 'M' },
+      { action: 'selectOption', locator: { label: 'Size', exact: true }, values: ['M', 'L'] },
+      { action: 'check', locator: { label: 'Gift wrap', exact: true } },
+      { action: 'press', key: 'Enter', locator: { label: 'Email', exact: true } },
+      { action: 'press', key: 'Escape' },
+    ]);
+    assert.deepEqual(steps, [1, 2, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,359 @@
+import { ARIA_ROLES, ActionStep, LocatorSpec } from './actionDsl';
+import { BrowserSession } from './browserSession';
+import { AccessibilityWindow, DomDocument, DomElement, installAccessibilityHelpers } from './pageAccessibility';
+
+/** Name of the page binding the injected listeners report to. */
+const BINDING_NAME = '__pwChatRecord';
+/** A navigation this soon after a click or key press is taken to be caused by it, not typed by the user. */
+const NAVIGATION_GRACE_MS = 2000;
+/** Longest accessible name or text worth using as a locator. */
+const MAX_LOCATOR_TEXT = 80;
+/** Secret recorded in place of what was typed into password fields. */
+export const RECORDED_PASSWORD_SECRET = 'PASSWORD';
+
+/**
+ * What the page knows about an element the user acted on. Each candidate
+ * comes with the number of elements on the page it matches, so only unique
+ * ones are used.
+ */
+export interface RecordedTarget {
+  testId?: { value: string; count: number };
+  role?: { role: string; name: string; count: number };
+  label?: { value: string; count: number };
+  placeholder?: { value: string; count: number };
+  text?: { value: string; count: number };
+  /** A CSS selector that matches the element, used when nothing better is unique. */
+  css: string;
+}
+
+export type RecordedEvent =
+  | { kind: 'click'; target: RecordedTarget }
+  | { kind: 'fill'; target: RecordedTarget; value: string; password?: boolean }
+  | { kind: 'check' | 'uncheck'; target: RecordedTarget }
+  | { kind: 'select'; target: RecordedTarget; values: string[] }
+  | { kind: 'press'; key: string; target?: RecordedTarget }
+  | { kind: 'navigate'; url: string };
+
+/**
+ * Picks the most robust way to find the element again: a test id, then role
+ * and accessible name, label, placeholder and text, each only when it matches
+ * this element alone. Falls back to the CSS selector.
+ */
+export function chooseLocator(target: RecordedTarget): { locator: LocatorSpec } | { selector: string } {
+  const usable = (candidate: { count: number } | undefined, text?: string) =>
+    candidate !== undefined && candidate.count === 1 && (text === undefined || (text.length > 0 && text.length <= MAX_LOCATOR_TEXT));
+  if (usable(target.testId)) {
+    return { locator: { testId: target.testId!.value } };
+  }
+  const role = target.role;
+  if (role && usable(role, role.name) && (ARIA_ROLES as readonly string[]).includes(role.role)) {
+    return { locator: { role: role.role, name: role.name, exact: true } };
+  }
+  if (usable(target.label, target.label?.value)) {
+    return { locator: { label: target.label!.value, exact: true } };
+  }
+  if (usable(target.placeholder, target.placeholder?.value)) {
+    return { locator: { placeholder: target.placeholder!.value, exact: true } };
+  }
+  if (usable(target.text, target.text?.value)) {
+    return { locator: { text: target.text!.value, exact: true } };
+  }
+  return { selector: target.css };
+}
+
+export interface RecorderOptions {
+  /** Page the recording starts on; it becomes the plan's first `goto`. */
+  startUrl?: string;
+  /** Called after each recorded step, e.g. to show progress. */
+  onStep?: (steps: ActionStep[]) => void;
+  /** Called when the user closes the recording window. */
+  onClose?: () => void;
+}
+
+/**
+ * Records what the user does in a headed browser as plan steps. Listeners
+ * injected into every page report clicks, typing, checkboxes, selects and
+ * the Enter and Escape keys; navigations the user makes are recorded as
+ * `goto`. Only the first tab is recorded.
+ */
+export class PlanRecorder {
+  private readonly recorded: ActionStep[] = [];
+  private lastInteraction = Number.NEGATIVE_INFINITY;
+
+  constructor(
+    private readonly session: BrowserSession,
+    private readonly options: RecorderOptions = {}
+  ) {}
+
+  get steps(): ActionStep[] {
+    return [...this.recorded];
+  }
+
+  async start(): Promise<void> {
+    const page = await this.session.getPage();
+    const context = page.context();
+    await context.exposeBinding(BINDING_NAME, (source, event: RecordedEvent) => {
+      if (source.page === page) {
+        this.add(event);
+      }
+    });
+    await context.addInitScript(installAccessibilityHelpers);
+    await context.addInitScript(recordInPage, { bindingName: BINDING_NAME, maxText: MAX_LOCATOR_TEXT });
+    page.on('framenavigated', (frame) => {
+      if (frame === page.mainFrame()) {
+        this.add({ kind: 'navigate', url: frame.url() });
+      }
+    });
+    page.on('close', () => this.options.onClose?.());
+    if (this.options.startUrl) {
+      this.add({ kind: 'navigate', url: this.options.startUrl });
+      await page.goto(this.options.startUrl);
+    }
+  }
+
+  /** Closes the recording browser and returns the recorded steps. */
+  async stop(): Promise<ActionStep[]> {
+    await this.session.close();
+    return this.steps;
+  }
+
+  /** Turns one recorded event into a step, merging it with the previous step where they describe one action. */
+  add(event: RecordedEvent, now = Date.now()): void {
+    const last = this.recorded[this.recorded.length - 1];
+    if (event.kind === 'navigate') {
+      const caused = now - this.lastInteraction < NAVIGATION_GRACE_MS;
+      if (!/^https?:/.test(event.url) || caused || (last?.action === 'goto' && last.url === event.url)) {
+        return;
+      }
+      this.recorded.push({ action: 'goto', url: event.url });
+    } else if (event.kind === 'fill') {
+      const step: ActionStep = {
+        action: 'type',
+        ...chooseLocator(event.target),
+        value: event.password ? `\${{secrets.${RECORDED_PASSWORD_SECRET}}}` : event.value,
+      };
+      // Typing arrives one input event at a time; keep only the final value
+      if (last?.action === 'type' && sameTarget(last, step)) {
+        this.recorded[this.recorded.length - 1] = step;
+      } else {
+        this.recorded.push(step);
+      }
+    } else {
+      this.lastInteraction = now;
+      switch (event.kind) {
+        case 'click':
+          this.recorded.push({ action: 'click', ...chooseLocator(event.target) });
+          break;
+        case 'check':
+        case 'uncheck':
+          this.recorded.push({ action: event.kind, ...chooseLocator(event.target) });
+          break;
+        case 'select':
+          this.recorded.push(
+            event.values.length === 1
+              ? { action: 'selectOption', ...chooseLocator(event.target), value: event.values[0] }
+              : { action: 'selectOption', ...chooseLocator(event.target), values: event.values }
+          );
+          break;
+        case 'press':
+          this.recorded.push({ action: 'press', key: event.key, ...(event.target ? chooseLocator(event.target) : {}) });
+          break;
+      }
+    }
+    this.options.onStep?.(this.steps);
+  }
+}
+
+function sameTarget(a: ActionStep, b: ActionStep): boolean {
+  return a.selector === b.selector && JSON.stringify(a.locator) === JSON.stringify(b.locator);
+}
+
+// The listeners below run inside the page, after `installAccessibilityHelpers`.
+interface PageEvent {
+  target: DomElement | null;
+  key?: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+}
+
+declare const document: DomDocument;
+declare const window: AccessibilityWindow & {
+  __pwChatRecorderInstalled?: boolean;
+  [bindingName: string]: unknown;
+  addEventListener(type: string, listener: (event: PageEvent) => void, capture: boolean): void;
+};
+declare const CSS: { escape(value: string): string };
+
+interface RecordArgs {
+  bindingName: string;
+  maxText: number;
+}
+
+function recordInPage(args: RecordArgs): void {
+  if (window.__pwChatRecorderInstalled) {
+    return;
+  }
+  window.__pwChatRecorderInstalled = true;
+  const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy'];
+  const CLICKABLE =
+    'a[href],button,input,select,textarea,summary,label,[role=button],[role=link],[role=tab],[role=menuitem],' +
+    '[role=checkbox],[role=radio],[role=switch],[role=option],[data-testid]';
+  const CANDIDATES = 'a[href],button,input,select,textarea,summary,[role],h1,h2,h3,h4,h5,h6';
+  const TEXT_INPUTS = ['text', 'search', 'email', 'url', 'tel', 'password', 'number', 'date', 'time', 'datetime-local', 'month', 'week'];
+
+  const clean = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+  const { roleOf, accessibleName } = window.__pwChatAccessibility!;
+
+  const labelOf = (el: DomElement): string => {
+    if (el.labels && el.labels.length > 0) {
+      return clean(el.labels[0].innerText);
+    }
+    return '';
+  };
+
+  const nameOf = (el: DomElement, role: string): string => clean(accessibleName(el, role));
+
+  const cssPath = (el: DomElement): string => {
+    if (el.id && !/\d{3,}/.test(el.id) && document.querySelectorAll(`#${CSS.escape(el.id)}`).length === 1) {
+      return `#${CSS.escape(el.id)}`;
+    }
+    const parts: string[] = [];
+    let current: DomElement | null = el;
+    while (current && current.nodeType === 1 && current.tagName !== 'HTML') {
+      if (current !== el && current.id && !/\d{3,}/.test(current.id)) {
+        parts.unshift(`#${CSS.escape(current.id)}`);
+        break;
+      }
+      const tagName = current.tagName;
+      const tag = tagName.toLowerCase();
+      const siblings = current.parentElement
+        ? Array.from(current.parentElement.children).filter((s) => s.tagName === tagName)
+        : [];
+      parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+      current = current.parentElement;
+    }
+    return parts.join(' > ');
+  };
+
+  const describe = (el: DomElement) => {
+    const target: Record<string, unknown> = { css: cssPath(el) };
+    const testIdAttribute = TEST_ID_ATTRIBUTES.find((a) => el.getAttribute(a));
+    if (testIdAttribute) {
+      const value = el.getAttribute(testIdAttribute)!;
+      target.testId = { value, count: document.querySelectorAll(`[${testIdAttribute}="${CSS.escape(value)}"]`).length };
+    }
+    const role = roleOf(el);
+    if (role) {
+      const name = nameOf(el, role);
+      if (name && name.length <= args.maxText) {
+        const count = Array.from(document.querySelectorAll(CANDIDATES)).filter(
+          (other) => roleOf(other) === role && nameOf(other, role) === name
+        ).length;
+        target.role = { role, name, count };
+      }
+    }
+    const label = labelOf(el);
+    if (label) {
+      const count = Array.from(document.querySelectorAll('input,select,textarea')).filter(
+        (other) => labelOf(other) === label
+      ).length;
+      target.label = { value: label, count };
+    }
+    const placeholder = el.getAttribute('placeholder');
+    if (placeholder) {
+      target.placeholder = { value: placeholder, count: document.querySelectorAll(`[placeholder="${CSS.escape(placeholder)}"]`).length };
+    }
+    if (!['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName)) {
+      const text = clean(el.innerText);
+      if (text && text.length <= args.maxText) {
+        // Count elements whose own text is exactly this, ignoring the ancestors that merely contain it
+        const count = Array.from(document.querySelectorAll('body *')).filter(
+          (other) => clean(other.innerText) === text && !Array.from(other.children).some((c) => clean(c.innerText) === text)
+        ).length;
+        target.text = { value: text, count };
+      }
+    }
+    return target;
+  };
+
+  const send = (event: Record<string, unknown>) => {
+    const binding = window[args.bindingName];
+    if (typeof binding === 'function') {
+      void binding(event);
+    }
+  };
+
+  const isTextField = (el: DomElement) =>
+    el.tagName === 'TEXTAREA' ||
+    (el.tagName === 'INPUT' && TEXT_INPUTS.includes((el.getAttribute('type') ?? 'text').toLowerCase())) ||
+    el.isContentEditable;
+
+  window.addEventListener(
+    'click',
+    (e) => {
+      const el = e.target?.closest?.(CLICKABLE) ?? e.target;
+      if (!el || el.nodeType !== 1) {
+        return;
+      }
+      // Form fields are recorded from their input and change events instead
+      const inputType = (el.getAttribute('type') ?? 'text').toLowerCase();
+      const isButtonInput = el.tagName === 'INPUT' && ['button', 'submit', 'reset', 'image'].includes(inputType);
+      if (
+        (el.tagName === 'LABEL' && el.control) ||
+        (el.tagName === 'INPUT' && !isButtonInput) ||
+        el.tagName === 'SELECT' ||
+        el.tagName === 'OPTION' ||
+        isTextField(el)
+      ) {
+        return;
+      }
+      send({ kind: 'click', target: describe(el) });
+    },
+    true
+  );
+  window.addEventListener(
+    'input',
+    (e) => {
+      const el = e.target;
+      if (el && isTextField(el)) {
+        const password = el.tagName === 'INPUT' && el.type === 'password';
+        send({ kind: 'fill', target: describe(el), value: el.isContentEditable ? el.innerText : el.value, password });
+      }
+    },
+    true
+  );
+  window.addEventListener(
+    'change',
+    (e) => {
+      const el = e.target;
+      if (!el) {
+        return;
+      }
+      if (el.tagName === 'INPUT' && (el.type === 'checkbox' || el.type === 'radio')) {
+        send({ kind: el.checked ? 'check' : 'uncheck', target: describe(el) });
+      } else if (el.tagName === 'SELECT') {
+        const values = Array.from(el.selectedOptions ?? []).map((o) => o.value);
+        send({ kind: 'select', target: describe(el), values });
+      }
+    },
+    true
+  );
+  window.addEventListener(
+    'keydown',
+    (e) => {
+      if ((e.key !== 'Enter' && e.key !== 'Escape') || e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+      }
+      const el = e.target;
+      const focused = el && el.nodeType === 1 && el.tagName !== 'BODY' ? el : undefined;
+      // Enter on a button or link also clicks it, and the click is what gets recorded
+      if (e.key === 'Enter' && focused && !isTextField(focused) && focused.closest?.(CLICKABLE)) {
+        return;
+      }
+      send({ kind: 'press', key: e.key, target: focused ? describe(focused) : undefined });
+    },
+    true
+  );
+}
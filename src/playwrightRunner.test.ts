@@ -0,0 +1,276 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as playwright from 'playwright';
+import { ActionPlan } from './actionDsl';
+import { BrowserSession } from './browserSession';
+import { CancellationSignal, PlaywrightRunner, STOPPED_BY_USER } from './playwrightRunner';
+
+interface FakePageOptions {
+  url?: string;
+  /** Stands in for `page.goto`; throw to fail the step. */
+  goto?: (url: string) => Promise<void>;
+}
+
+/**
+ * A session whose page only answers what control steps, `goto` and `url`
+ * conditions ask, so no browser is needed.
+ */
+function fakeSession(options: FakePageOptions = {}): BrowserSession {
+  const page = {
+    url: () => options.url ?? 'about:blank',
+    isClosed: () => false,
+    context: () => context,
+    goto: async (url: string) => options.goto?.(url),
+  };
+  const context = {
+    on: () => context,
+    off: () => context,
+    pages: () => [page],
+    unroute: async () => undefined,
+  };
+  const session = {
+    getPage: async () => page as unknown as playwright.Page,
+    switchTo: () => undefined,
+    touch: () => undefined,
+    close: async () => undefined,
+  };
+  return session as unknown as BrowserSession;
+}
+
+/** A `goto` that fails for URLs containing "fail", and for the first `failures` calls to URLs containing "flaky". */
+function scriptedGoto(failures = 0): { goto: (url: string) => Promise<void>; visited: string[]; times: number[] } {
+  const visited: string[] = [];
+  const times: number[] = [];
+  let flakyCalls = 0;
+  const goto = async (url: string) => {
+    visited.push(url);
+    times.push(Date.now());
+    if (url.includes('fail') || (url.includes('flaky') && ++flakyCalls <= failures)) {
+      throw new Error(`Could not load ${url}`);
+    }
+  };
+  return { goto, visited, times };
+}
+
+function cancellationSource(): { signal: CancellationSignal; cancel(): void } {
+  const listeners: (() => unknown)[] = [];
+  const signal = {
+    isCancellationRequested: false,
+    onCancellationRequested(listener: () => unknown) {
+      listeners.push(listener);
+      return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+    },
+  };
+  return {
+    signal,
+    cancel() {
+      signal.isCancellationRequested = true;
+      [...listeners].forEach((listener) => listener());
+    },
+  };
+}
+
+describe('PlaywrightRunner call', () => {
+  it('sets the "with" variables only while the sub-plan runs', async () => {
+    const plan: ActionPlan = {
+      subPlans: {
+        check: [{ action: 'if', condition: { url: '${who}' } }],
+      },
+      steps: [
+        { action: 'call', subPlan: 'check', with: { who: 'inner', extra: 'x' } },
+        { action: 'if', condition: { url: '${who}' } },
+        { action: 'if', condition: { url: '${extra}' } },
+      ],
+    };
+    const runner = new PlaywrightRunner(fakeSession({ url: 'https://example.com/inner' }));
+    const results = await runner.executePlan(plan, { variables: { who: 'outer' }, stopOnFailure: false });
+
+    assert.deepEqual(
+      results.map((r) => [r.path, r.success, r.data ?? r.error]),
+      [
+        ['0', true, 'Ran sub-plan "check"'],
+        ['0.check.0', true, 'Condition held; nothing to run'],
+        ['1', true, 'Condition did not hold; nothing to run'],
+        ['2', false, 'No value is set for ${extra}'],
+      ]
+    );
+  });
+});
+
+describe('PlaywrightRunner forEach', () => {
+  it('runs the steps once per item with the item in its variable', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({
+      steps: [{ action: 'forEach', items: ['a', 'b', 'c'], steps: [{ action: 'goto', url: 'https://a.test/${item}' }] }],
+    });
+
+    assert.deepEqual(page.visited, ['https://a.test/a', 'https://a.test/b', 'https://a.test/c']);
+    assert.deepEqual(
+      results.map((r) => [r.path, r.success]),
+      [
+        ['0', true],
+        ['0[0].0', true],
+        ['0[1].0', true],
+        ['0[2].0', true],
+      ]
+    );
+    assert.equal(results[0].data, 'Visited 3 of 3 item(s)');
+  });
+
+  it('sets the "as" variable only inside the loop', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan(
+      {
+        onFailure: 'continue',
+        steps: [
+          { action: 'forEach', items: ['x', 'y'], as: 'who', steps: [{ action: 'goto', url: 'https://a.test/${who}' }] },
+          { action: 'goto', url: 'https://a.test/${who}' },
+          { action: 'forEach', items: ['z'], as: 'fresh', steps: [] },
+          { action: 'goto', url: 'https://a.test/${fresh}' },
+        ],
+      },
+      { variables: { who: 'outer' } }
+    );
+
+    assert.deepEqual(page.visited, ['https://a.test/x', 'https://a.test/y', 'https://a.test/outer']);
+    assert.equal(results[results.length - 1].error, 'No value is set for ${fresh}');
+  });
+});
+
+describe('PlaywrightRunner retry blocks', () => {
+  it('runs the block again until an attempt succeeds, listing only that attempt', async () => {
+    const page = scriptedGoto(2);
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({
+      steps: [{ action: 'retry', attempts: 4, steps: [{ action: 'goto', url: 'https://a.test/flaky' }] }],
+    });
+
+    assert.equal(page.visited.length, 3);
+    assert.deepEqual(
+      results.map((r) => [r.path, r.success, r.data]),
+      [
+        ['0', true, 'Succeeded on attempt 3 of 4'],
+        ['0.steps.0', true, undefined],
+      ]
+    );
+  });
+
+  it('fails with every attempt summarized once the attempts run out', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({
+      steps: [{ action: 'retry', attempts: 2, steps: [{ action: 'goto', url: 'https://a.test/fail' }] }],
+    });
+
+    assert.equal(page.visited.length, 2);
+    assert.equal(results.length, 1);
+    assert.equal(results[0].success, false);
+    assert.match(results[0].error ?? '', /^Failed after 2 attempts \(attempt 1: goto failed: .*; attempt 2: goto failed: /);
+  });
+});
+
+describe('PlaywrightRunner step retries', () => {
+  it('retries a failing step with doubling backoff until it succeeds', async () => {
+    const page = scriptedGoto(2);
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({ steps: [{ action: 'goto', url: 'https://a.test/flaky', retries: 3, backoffMs: 20 }] });
+
+    assert.equal(results.length, 1);
+    assert.equal(results[0].success, true);
+    assert.equal(results[0].attempts, 3);
+    assert.equal(page.visited.length, 3);
+    assert.ok(page.times[1] - page.times[0] >= 15);
+    assert.ok(page.times[2] - page.times[1] >= 35);
+  });
+
+  it('reports the last error once the retries run out', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({ steps: [{ action: 'goto', url: 'https://a.test/fail', retries: 1, backoffMs: 0 }] });
+
+    assert.equal(results[0].success, false);
+    assert.equal(results[0].attempts, 2);
+    assert.match(results[0].error ?? '', /Could not load https:\/\/a.test\/fail/);
+  });
+
+  it('counts every attempt towards the step limit', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const items = Array.from({ length: 100 }, (_, i) => String(i));
+    const goto = { action: 'goto', url: 'https://a.test/fail', retries: 5, backoffMs: 0 };
+    const results = await runner.executePlan({
+      onFailure: 'continue',
+      steps: [{ action: 'forEach', items, maxItems: 100, steps: [goto, goto] }],
+    });
+
+    assert.ok(page.visited.length <= 1000);
+    assert.ok(results.some((r) => r.error === 'Stopped: the plan ran more than 1000 steps'));
+  });
+
+  it('stops waiting between retries when the run is cancelled', async () => {
+    const page = scriptedGoto();
+    const cancellation = cancellationSource();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    setTimeout(() => cancellation.cancel(), 50);
+    const started = Date.now();
+    const results = await runner.executePlan(
+      { steps: [{ action: 'goto', url: 'https://a.test/fail', retries: 3, backoffMs: 10000 }, { action: 'goto', url: 'https://a.test/' }] },
+      { cancellation: cancellation.signal }
+    );
+
+    assert.ok(Date.now() - started < 5000);
+    assert.equal(page.visited.length, 1);
+    assert.deepEqual(
+      results.map((r) => [r.path, r.skipped, r.error]),
+      [
+        ['0', true, STOPPED_BY_USER],
+        ['1', true, STOPPED_BY_USER],
+      ]
+    );
+  });
+});
+
+describe('PlaywrightRunner run limits', () => {
+  it('stops steps that start after the deadline', async () => {
+    const runner = new PlaywrightRunner(
+      fakeSession({ goto: (url) => new Promise((resolve) => setTimeout(resolve, url.includes('slow') ? 100 : 0)) })
+    );
+    const results = await runner.executePlan({
+      deadlineMs: 50,
+      steps: [{ action: 'goto', url: 'https://a.test/slow' }, { action: 'goto', url: 'https://a.test/' }],
+    });
+
+    assert.deepEqual(
+      results.map((r) => [r.success, r.error]),
+      [
+        [true, undefined],
+        [false, 'Stopped: the run passed its 0.05s deadline'],
+      ]
+    );
+  });
+
+  it('stops at the first failure by default', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({
+      steps: [{ action: 'goto', url: 'https://a.test/fail' }, { action: 'goto', url: 'https://a.test/' }],
+    });
+
+    assert.deepEqual(results.map((r) => r.success), [false]);
+    assert.deepEqual(page.visited, ['https://a.test/fail']);
+  });
+
+  it('runs the remaining steps after a failure with onFailure "continue"', async () => {
+    const page = scriptedGoto();
+    const runner = new PlaywrightRunner(fakeSession(page));
+    const results = await runner.executePlan({
+      onFailure: 'continue',
+      steps: [{ action: 'goto', url: 'https://a.test/fail' }, { action: 'goto', url: 'https://a.test/' }],
+    });
+
+    assert.deepEqual(results.map((r) => r.success), [false, true]);
+    assert.deepEqual(page.visited, ['https://a.test/fail', 'https://a.test/']);
+  });
+});
@@ -1,55 +1,1333 @@
 import * as playwright from 'playwright';
+import { expect } from '@playwright/test';
+import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
-import { ActionPlan, ActionStep } from './actionDsl';
+import {
+  ActionPlan,
+  ActionStep,
+  CONTROL_ACTIONS,
+  Condition,
+  DEFAULT_FOREACH_ITEMS,
+  FailurePolicy,
+  LocatorSpec,
+  MAX_STEP_EXECUTIONS,
+  RouteRule,
+  SAVE_AS_ACTIONS,
+  StepTiming,
+  WaitUntil,
+} from './actionDsl';
+import { BrowserSession } from './browserSession';
+import { ExecutionPolicy, checkStepPolicy, checkUrl } from './policy';
+import { TemplateContext, maskAndTruncate, maskResult, maskSecrets, resolveStep } from './templating';
+import { DataRecord, describeRecords, normalizeFields, rowToRecord, tableToRecords } from './dataExtraction';
+import { DEFAULT_OUTLINE_TOKENS, observePage, refSelector } from './pageObservation';
+import { HealedLocator, describeTarget, healedStep, healingCandidates } from './locatorHealing';
+import { RESPONSE_BODY_LIMIT, ResponseLog, describeRoute, globToRegExp, isTextContentType } from './networkRoutes';
 
 export interface ExecutionResult {
   action: string;
   success: boolean;
   data?: string;
   error?: string;
+  /** Assertion steps: the expected value. */
+  expected?: string;
+  /** Assertion steps: the value found on the page. */
+  actual?: string;
+  /** The step did not run, e.g. because the user skipped it or aborted the plan. */
+  skipped?: boolean;
+  /** The step was stopped by the workspace policy. */
+  policyViolation?: boolean;
+  /** `extractList` and `extractTable`: the extracted records. */
+  records?: DataRecord[];
+  /** The step's target matched nothing and a fallback locator was used instead. */
+  healed?: HealedLocator;
+  /** The step as written with the fallback locator, for saving back into the plan. */
+  healedStep?: ActionStep;
+  /**
+   * Where the step sits in the plan: "2" for the third top-level step,
+   * "2.then.0", "2[1].0", "2.steps.0" or "2.login.0" inside `if`, `forEach`,
+   * `retry` and `call` blocks.
+   */
+  path?: string;
+  /** When the step started, as an ISO timestamp. */
+  startedAt?: string;
+  /** How long the step took, including retries and, for blocks, the steps they ran. */
+  durationMs?: number;
+  /** How often the step ran, when `retries` made it run more than once. */
+  attempts?: number;
+  /** `waitForResponse`: the response that matched. Its body, when it is text, is in `data`. */
+  response?: { url: string; method: string; status: number };
+  /** Index of the tab the step ran in, in the order the tabs opened. */
+  tab?: number;
+  /** Selectors of the frames the step ran in, outermost first; absent for the tab's top-level page. */
+  frames?: string[];
+  /** Dialogs that opened while the step ran, and how they were answered. */
+  dialogs?: DialogRecord[];
+}
+
+export interface DialogRecord {
+  /** "alert", "confirm", "prompt" or "beforeunload". */
+  type: string;
+  message: string;
+  action: 'accepted' | 'dismissed';
+  /** Text entered into an accepted `prompt`. */
+  promptText?: string;
+}
+
+export type StepDecision = 'continue' | 'skip' | 'abort';
+
+export interface RunnerOptions {
+  /** Root folder that workspace-relative paths such as `setInputFiles` files resolve against. */
+  workspaceRoot?: string;
+  policy?: ExecutionPolicy;
+  /** Asks the user to allow a step the policy marks as confirm-required. Without it such steps are blocked. */
+  confirm?: (message: string) => Promise<boolean>;
+  /**
+   * Values for `${{secrets.NAME}}` and `${{vars.NAME}}` placeholders. They are
+   * filled in just before each step runs, and secret values are masked in every result.
+   */
+  templateContext?: TemplateContext;
+  /** Folder for files the run produces, such as screenshots. Defaults to the OS temp folder. */
+  artifactsDir?: string;
+  /** Token budget for page outlines from `observe` steps and agent observations. */
+  observationTokens?: number;
+  /** Try fallback locators when a step's selector or locator matches nothing. */
+  healing?: boolean;
+  /** Workspace timing defaults, used where neither the step nor the plan sets a value. */
+  defaults?: StepTiming;
+  /** Workspace default timeout for `goto`, used where neither the step nor the plan sets a `timeout`. */
+  navigationTimeout?: number;
+  /** Workspace run deadline, used when the plan sets no `deadlineMs`. */
+  deadlineMs?: number;
+  /** Workspace failure policy, used when the plan sets no `onFailure`. Defaults to "stop". */
+  onFailure?: FailurePolicy;
+}
+
+/** Actions that interact with an element and are subject to the selector policy. */
+const INTERACTIVE_ACTIONS = [
+  'clickText', 'type', 'click', 'selectOption', 'check', 'uncheck', 'press', 'hover', 'setInputFiles',
+];
+
+/** Signals that the user stopped the run. `vscode.CancellationToken` fits this shape. */
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => unknown): { dispose(): unknown };
+}
+
+/** Error text for steps that were not run, or were cut short, because the user stopped the run. */
+export const STOPPED_BY_USER = 'Stopped by user';
+
+export interface ExecutePlanOptions {
+  /** Whether a failed step stops the remaining steps; overrides the plan's and the workspace's `onFailure`. */
+  stopOnFailure?: boolean;
+  /** Called before each top-level step; lets the caller pause, skip the step or abort the plan. */
+  beforeStep?: (step: ActionStep, index: number, total: number) => Promise<StepDecision>;
+  /**
+   * Stops the run when cancelled. The browser is closed to cut the current
+   * step short, and that step and the ones after it are reported as skipped.
+   */
+  cancellation?: CancellationSignal;
+  /** Variables the run starts with, such as one row of a batch run's data file. */
+  variables?: Record<string, string>;
+}
+
+/** State shared by the steps of one `executePlan` call. */
+interface RunState {
+  plan: ActionPlan;
+  /** The tab steps act on; `switchTab` and `waitForPopup` change it. */
+  page: playwright.Page;
+  /** Frame selectors set by `switchFrame`, outermost first; empty for the tab's top-level page. */
+  frames: string[];
+  /** Tabs opened during the run that no `waitForPopup` has taken yet, oldest first. */
+  popups: playwright.Page[];
+  /** Dialogs answered since the last step was recorded. */
+  dialogs: DialogRecord[];
+  options: ExecutePlanOptions;
+  /** Where results go; `retry` swaps in a buffer per attempt. */
+  results: ExecutionResult[];
+  /** Run variables set by `saveAs`, `forEach` and `call`. */
+  variables: Record<string, string>;
+  /** Step runs so far, counting every loop iteration and retry attempt. */
+  executions: number;
+  /** Time (ms since the epoch) after which no further step may start. */
+  deadline?: number;
+  /** Routes added by the plan and its `route` steps, removed when the run ends. */
+  routes: InstalledRoute[];
+  /** Recent responses, for `waitForResponse` steps that run after the response came in. */
+  responses: ResponseLog<playwright.Response>;
+}
+
+interface InstalledRoute {
+  rule: RouteRule;
+  handler: (route: playwright.Route) => Promise<void>;
+}
+
+/** Actions that work on the browser context's network rather than the page. */
+const NETWORK_ACTIONS = ['route', 'unroute', 'waitForResponse'];
+/** Actions that pick the tab or frame later steps act on. */
+const TAB_ACTIONS = ['listTabs', 'switchTab', 'waitForPopup', 'switchFrame'];
+
+/** The timing a step runs with, after applying the plan's and the workspace's defaults. */
+interface StepSettings {
+  timeout: number;
+  navigationTimeout: number;
+  retries: number;
+  backoffMs: number;
+  waitUntil: WaitUntil;
+}
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+const DEFAULT_NAVIGATION_TIMEOUT_MS = 30000;
+const DEFAULT_BACKOFF_MS = 1000;
+
+/** How a list of steps ended. */
+interface BlockOutcome {
+  failed: boolean;
+  /** Nothing more may run: the user aborted, the browser closed, the policy stopped the plan or a limit was hit. */
+  halted: boolean;
+}
+
+/** How often a waiting `if` condition is checked again. */
+const CONDITION_POLL_MS = 250;
+
+/** "Step 3" for top-level steps, which users count from 1; nested steps show their path, e.g. "Step 2.then.0". */
+function stepLabel(path: string): string {
+  return /^\d+$/.test(path) ? `Step ${Number(path) + 1}` : `Step ${path}`;
+}
+
+/** Maximum characters of page text included in an observation. */
+const OBSERVATION_TEXT_LIMIT = 3000;
+
+const ACTUAL_VALUE_LIMIT = 200;
+
+/** DOM members used by the extraction code that runs in the page; the extension compiles without the DOM library. */
+interface PageElement {
+  innerText?: string;
+  textContent: string | null;
+  children: ArrayLike<PageElement>;
+  querySelector(selector: string): PageElement | null;
+  querySelectorAll(selector: string): ArrayLike<PageElement>;
+  getAttribute(name: string): string | null;
+}
+
+/** Pages read when `pagination.maxPages` is not set. */
+const DEFAULT_MAX_PAGES = 5;
+/** How long to wait for new content after clicking "next page". */
+const PAGE_CHANGE_TIMEOUT_MS = 10000;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+type AriaRole = Parameters<playwright.Page['getByRole']>[0];
+
+/** Where locators are resolved: a tab, or a frame inside it after `switchFrame`. */
+export type LocatorRoot = playwright.Page | playwright.FrameLocator;
+
+export function resolveLocator(page: LocatorRoot, spec: LocatorSpec): playwright.Locator {
+  const exact = spec.exact ?? false;
+  if (spec.role) {
+    return page.getByRole(spec.role as AriaRole, spec.name !== undefined ? { name: spec.name, exact } : {});
+  }
+  if (spec.label) {
+    return page.getByLabel(spec.label, { exact });
+  }
+  if (spec.placeholder) {
+    return page.getByPlaceholder(spec.placeholder, { exact });
+  }
+  if (spec.testId) {
+    return page.getByTestId(spec.testId);
+  }
+  if (spec.ref) {
+    return page.locator(refSelector(spec.ref));
+  }
+  return page.getByText(spec.text ?? '', { exact });
 }
 
 export class PlaywrightRunner {
-  async executePlan(plan: ActionPlan): Promise<ExecutionResult[]> {
-    const results: ExecutionResult[] = [];
-    let browser: playwright.Browser | null = null;
-    let page: playwright.Page | null = null;
+  constructor(
+    private readonly session: BrowserSession,
+    private readonly options: RunnerOptions = {}
+  ) {}
+
+  async executePlan(plan: ActionPlan, options: ExecutePlanOptions = {}): Promise<ExecutionResult[]> {
+    let page: playwright.Page;
 
     try {
-      browser = await playwright.chromium.launch({ headless: true });
-      const context = await browser.newContext();
-      page = await context.newPage();
-
-      for (const step of plan.steps) {
-        if (step.action === 'closeBrowser') {
-          results.push(await this.executeStep(step, page));
-          // Close the browser and stop further steps
-          break;
+      page = await this.session.getPage();
+    } catch (err) {
+      return [
+        {
+          action: 'browser-init',
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        },
+      ];
+    }
+
+    const state: RunState = {
+      plan,
+      page,
+      frames: [],
+      popups: [],
+      dialogs: [],
+      options,
+      results: [],
+      variables: { ...options.variables },
+      executions: 0,
+      routes: [],
+      responses: new ResponseLog(),
+    };
+    const deadlineMs = plan.deadlineMs ?? this.options.deadlineMs;
+    if (deadlineMs) {
+      state.deadline = Date.now() + deadlineMs;
+    }
+    const stopOnFailure = options.stopOnFailure ?? (plan.onFailure ?? this.options.onFailure ?? 'stop') === 'stop';
+    // Playwright calls cannot be aborted one by one, so closing the browser is what ends a stuck step
+    const listener = options.cancellation?.onCancellationRequested(() => void this.session.close());
+    const context = page.context();
+    const onResponse = (response: playwright.Response) =>
+      state.responses.add(response.url(), response.request().method(), response);
+    context.on('response', onResponse);
+    const onPage = (opened: playwright.Page) => state.popups.push(opened);
+    context.on('page', onPage);
+    const onDialog = (dialog: playwright.Dialog) => void this.answerDialog(dialog, state);
+    context.on('dialog', onDialog);
+    try {
+      if (await this.installPlanRoutes(state)) {
+        await this.runSteps(plan.steps, state, '', stopOnFailure);
+      }
+    } finally {
+      listener?.dispose();
+      context.off('response', onResponse);
+      context.off('page', onPage);
+      context.off('dialog', onDialog);
+      // The next request, and observations in agent mode, continue in the tab the plan ended in
+      this.session.switchTo(state.page);
+      // Routes belong to this run; the next request starts with the real network
+      for (const installed of state.routes) {
+        await context.unroute(installed.rule.url, installed.handler).catch(() => undefined);
+      }
+    }
+    return state.results;
+  }
+
+  /** Answers a dialog as the plan's `dialogs` policy says, and notes it for the step's result. */
+  private async answerDialog(dialog: playwright.Dialog, state: RunState): Promise<void> {
+    const policy = state.plan.dialogs ?? { action: 'dismiss' };
+    const record: DialogRecord = {
+      type: dialog.type(),
+      message: dialog.message(),
+      action: policy.action === 'accept' ? 'accepted' : 'dismissed',
+    };
+    if (policy.action === 'accept' && dialog.type() === 'prompt') {
+      record.promptText = policy.promptText ?? dialog.defaultValue();
+    }
+    state.dialogs.push(record);
+    try {
+      await (policy.action === 'accept' ? dialog.accept(policy.promptText) : dialog.dismiss());
+    } catch {
+      // The page closed while the dialog was open
+    }
+  }
+
+  /** The frame steps act on: the current tab, or the frame `switchFrame` chose inside it. */
+  private scope(state: RunState): LocatorRoot {
+    let root: LocatorRoot = state.page;
+    for (const selector of state.frames) {
+      root = root.frameLocator(selector);
+    }
+    return root;
+  }
+
+  /**
+   * Carries on in the tab that opened the current one when it closed itself,
+   * as sign-in popups do, or else in the first tab still open.
+   */
+  private async recoverClosedTab(state: RunState): Promise<void> {
+    if (!state.page.isClosed()) {
+      return;
+    }
+    const opener = await state.page.opener().catch(() => null);
+    const next = opener && !opener.isClosed() ? opener : state.page.context().pages()[0];
+    if (next) {
+      state.page = next;
+      state.frames = [];
+    }
+  }
+
+  /** Which tab and frame the next step runs in, for its result. */
+  private location(state: RunState): Pick<ExecutionResult, 'tab' | 'frames'> {
+    const tab = state.page.context().pages().indexOf(state.page);
+    return state.frames.length > 0 ? { tab, frames: [...state.frames] } : { tab };
+  }
+
+  /**
+   * Adds the plan's routes before the first step. Returns false, with a
+   * failed result for the route, when one cannot be added; no step runs then.
+   */
+  private async installPlanRoutes(state: RunState): Promise<boolean> {
+    const routes = state.plan.routes ?? [];
+    for (let i = 0; i < routes.length; i++) {
+      const { step, missing } = resolveStep(
+        { action: 'route', rule: routes[i] },
+        this.options.templateContext ?? { secrets: {}, vars: {} }
+      );
+      const error = missing.length > 0 ? `No value is set for ${missing.join(', ')}` : await this.installRoute(step.rule!, state);
+      if (error) {
+        this.record(state, { action: 'route', success: false, error }, `routes.${i}`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Adds a route to the browser context, so it covers every tab. Returns an
+   * error message when the route cannot be added.
+   */
+  private async installRoute(rule: RouteRule, state: RunState): Promise<string | undefined> {
+    let fixture: string | undefined;
+    if (rule.fulfill?.file) {
+      const root = this.options.workspaceRoot;
+      if (!root) {
+        return 'Routes with a fixture "file" require an open workspace folder';
+      }
+      fixture = path.resolve(root, rule.fulfill.file);
+      if (path.relative(root, fixture).startsWith('..')) {
+        return `Fixture "${rule.fulfill.file}" is outside the workspace`;
+      }
+      try {
+        await fs.access(fixture);
+      } catch {
+        return `Fixture "${rule.fulfill.file}" does not exist`;
+      }
+    }
+    const handler = async (route: playwright.Route): Promise<void> => {
+      const request = route.request();
+      try {
+        if (
+          (rule.method && request.method() !== rule.method) ||
+          (rule.resourceTypes && !rule.resourceTypes.includes(request.resourceType()))
+        ) {
+          await route.fallback();
+          return;
+        }
+        if (rule.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
         }
-        results.push(await this.executeStep(step, page));
+        if (rule.abort) {
+          await route.abort('blockedbyclient');
+        } else if (rule.fulfill) {
+          const { status, json, body, contentType, headers } = rule.fulfill;
+          await route.fulfill({ status: status ?? 200, json, body, contentType, headers, path: fixture });
+        } else {
+          // Falling back rather than continuing lets routes added earlier still apply
+          await route.fallback(rule.headers ? { headers: { ...request.headers(), ...rule.headers } } : undefined);
+        }
+      } catch {
+        // The page or the browser closed while the request was held
       }
+    };
+    try {
+      await state.page.context().route(rule.url, handler);
     } catch (err) {
-      results.push({
-        action: 'browser-init',
+      return err instanceof Error ? err.message : String(err);
+    }
+    state.routes.push({ rule, handler });
+    return undefined;
+  }
+
+  private isCancelled(state: RunState): boolean {
+    return state.options.cancellation?.isCancellationRequested ?? false;
+  }
+
+  /**
+   * Waits `ms` without touching the page, which may have closed, and returns
+   * early when the user stops the run.
+   */
+  private async pause(ms: number, state: RunState): Promise<void> {
+    if (this.isCancelled(state)) {
+      return;
+    }
+    let listener: { dispose(): unknown } | undefined;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      listener = state.options.cancellation?.onCancellationRequested(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    listener?.dispose();
+  }
+
+  /** Reports `steps` from `from` on as skipped because the user stopped the run. */
+  private skipRemaining(steps: ActionStep[], from: number, state: RunState, prefix: string): void {
+    for (let i = from; i < steps.length; i++) {
+      state.results.push({
+        action: steps[i].action,
         success: false,
-        error: err instanceof Error ? err.message : String(err),
+        skipped: true,
+        error: STOPPED_BY_USER,
+        path: prefix ? `${prefix}.${i}` : String(i),
       });
-    } finally {
-      if (browser) {
-        try {
-          await browser.close();
-        } catch {
-          // ignore close errors
+    }
+  }
+
+  /** Adds a result for the step at `path`, with its timing when `started` (ms since the epoch) is given. */
+  private record(state: RunState, result: ExecutionResult, path: string, started?: number): void {
+    const secretValues = Object.values(this.options.templateContext?.secrets ?? {});
+    const timing = started !== undefined ? { startedAt: new Date(started).toISOString(), durationMs: Date.now() - started } : {};
+    state.results.push(maskResult({ ...result, path, ...timing }, secretValues));
+  }
+
+  /**
+   * The step's own timing, falling back to the plan's defaults, the
+   * workspace's and the built-in ones. Timeouts never reach past the run deadline.
+   */
+  private settingsFor(step: ActionStep, state: RunState): StepSettings {
+    const plan = state.plan.defaults ?? {};
+    const workspace = this.options.defaults ?? {};
+    const timeout = step.timeout ?? plan.timeout;
+    const settings: StepSettings = {
+      timeout: timeout ?? workspace.timeout ?? DEFAULT_STEP_TIMEOUT_MS,
+      navigationTimeout: timeout ?? this.options.navigationTimeout ?? DEFAULT_NAVIGATION_TIMEOUT_MS,
+      retries: step.retries ?? plan.retries ?? workspace.retries ?? 0,
+      backoffMs: step.backoffMs ?? plan.backoffMs ?? workspace.backoffMs ?? DEFAULT_BACKOFF_MS,
+      waitUntil: step.waitUntil ?? plan.waitUntil ?? workspace.waitUntil ?? 'load',
+    };
+    if (state.deadline !== undefined) {
+      const remaining = Math.max(1, state.deadline - Date.now());
+      settings.timeout = Math.min(settings.timeout, remaining);
+      settings.navigationTimeout = Math.min(settings.navigationTimeout, remaining);
+    }
+    return settings;
+  }
+
+  /**
+   * Runs a list of steps in order. `prefix` is the path of the enclosing
+   * block; an empty prefix marks the plan's top level, where the caller's
+   * `beforeStep` is consulted.
+   */
+  private async runSteps(
+    steps: ActionStep[],
+    state: RunState,
+    prefix: string,
+    stopOnFailure: boolean
+  ): Promise<BlockOutcome> {
+    let failed = false;
+    for (let i = 0; i < steps.length; i++) {
+      const templated = steps[i];
+      const path = prefix ? `${prefix}.${i}` : String(i);
+      if (this.isCancelled(state)) {
+        this.skipRemaining(steps, i, state, prefix);
+        return { failed, halted: true };
+      }
+      if (!prefix && state.options.beforeStep) {
+        const decision = await state.options.beforeStep(templated, i, steps.length);
+        if (decision === 'skip') {
+          state.results.push({ action: templated.action, success: true, skipped: true, data: 'Skipped by user', path });
+          continue;
+        }
+        if (decision === 'abort') {
+          steps.slice(i).forEach((remaining, offset) => {
+            state.results.push({
+              action: remaining.action,
+              success: false,
+              skipped: true,
+              error: 'Aborted by user',
+              path: String(i + offset),
+            });
+          });
+          return { failed, halted: true };
+        }
+      }
+      const outcome = await this.runStep(templated, state, path, stopOnFailure);
+      failed = failed || outcome.failed;
+      if (outcome.halted) {
+        if (this.isCancelled(state)) {
+          this.skipRemaining(steps, i + 1, state, prefix);
         }
+        return { failed, halted: true };
+      }
+      if (outcome.failed && stopOnFailure) {
+        break;
       }
     }
+    return { failed, halted: false };
+  }
 
-    return results;
+  private async runStep(
+    templated: ActionStep,
+    state: RunState,
+    path: string,
+    stopOnFailure: boolean
+  ): Promise<BlockOutcome> {
+    if (++state.executions > MAX_STEP_EXECUTIONS) {
+      this.record(
+        state,
+        { action: templated.action, success: false, error: `Stopped: the plan ran more than ${MAX_STEP_EXECUTIONS} steps` },
+        path
+      );
+      return { failed: true, halted: true };
+    }
+    if (state.deadline !== undefined && Date.now() >= state.deadline) {
+      const limit = state.plan.deadlineMs ?? this.options.deadlineMs ?? 0;
+      this.record(
+        state,
+        { action: templated.action, success: false, error: `Stopped: the run passed its ${limit / 1000}s deadline` },
+        path
+      );
+      return { failed: true, halted: true };
+    }
+    const started = Date.now();
+    const { step, missing } = resolveStep(
+      templated,
+      this.options.templateContext ?? { secrets: {}, vars: {} },
+      state.variables
+    );
+    if (missing.length > 0) {
+      this.record(state, { action: step.action, success: false, error: `No value is set for ${missing.join(', ')}` }, path);
+      return { failed: true, halted: false };
+    }
+
+    await this.recoverClosedTab(state);
+    const root = this.scope(state);
+    this.session.touch();
+    const violation = await this.enforceStepPolicy(step, stepLabel(path), root);
+    if (violation) {
+      this.record(state, violation, path);
+      return { failed: true, halted: true };
+    }
+    if (CONTROL_ACTIONS.includes(step.action)) {
+      return this.runControlStep(step, state, path, stopOnFailure, started);
+    }
+
+    state.responses.startStep();
+    const location = this.location(state);
+    const settings = this.settingsFor(step, state);
+    let result = await this.attemptStep(step, state, settings);
+    let attempts = 1;
+    while (!result.success && attempts <= settings.retries && step.action !== 'closeBrowser' && !this.isCancelled(state)) {
+      // Backoff doubles with each retry, but never runs past the deadline
+      const delay = settings.backoffMs * 2 ** (attempts - 1);
+      if (state.deadline !== undefined && Date.now() + delay >= state.deadline) {
+        break;
+      }
+      // Each attempt counts towards the step limit; the next step reports the stop
+      if (state.executions >= MAX_STEP_EXECUTIONS) {
+        break;
+      }
+      await this.pause(delay, state);
+      if (this.isCancelled(state)) {
+        break;
+      }
+      attempts++;
+      state.executions++;
+      result = await this.attemptStep(step, state, this.settingsFor(step, state));
+    }
+    if (attempts > 1) {
+      result = { ...result, attempts };
+    }
+    if (!result.success && this.options.healing) {
+      result = (await this.healStep(templated, step, stepLabel(path), root, state)) ?? result;
+    }
+    if (this.isCancelled(state)) {
+      // Whatever the step reported, it was cut short by closing the browser
+      this.record(state, { action: step.action, success: false, skipped: true, error: STOPPED_BY_USER }, path, started);
+      return { failed: false, halted: true };
+    }
+    result = { ...result, ...location };
+    if (state.dialogs.length > 0) {
+      result.dialogs = state.dialogs.splice(0);
+    }
+    // A step that leaves the allowed hosts fails, whatever it did itself, including in a tab it switched to
+    const navigationViolation = await this.enforceNavigationPolicy(step, state.page);
+    if (navigationViolation) {
+      this.record(state, navigationViolation, path);
+      return { failed: true, halted: true };
+    }
+    if (result.success && step.saveAs && SAVE_AS_ACTIONS.includes(step.action) && result.data !== undefined) {
+      state.variables[step.saveAs] = result.data;
+    }
+    this.record(state, result, path, started);
+    if (step.action === 'closeBrowser') {
+      // Explicit teardown: close the session and stop further steps
+      await this.session.close();
+      return { failed: false, halted: true };
+    }
+    return { failed: !result.success, halted: false };
   }
 
-  private async executeStep(step: ActionStep, page: playwright.Page): Promise<ExecutionResult> {
+  /**
+   * Runs an `if`, `forEach`, `retry` or `call` block. The block's own result
+   * comes before the results of the steps it ran; it fails only when the
+   * block itself could not run, or when every `retry` attempt failed.
+   */
+  private async runControlStep(
+    step: ActionStep,
+    state: RunState,
+    path: string,
+    stopOnFailure: boolean,
+    started: number
+  ): Promise<BlockOutcome> {
+    const results = state.results;
+    const headerIndex = results.length;
+    results.push({ action: step.action, success: true, path });
+    let header: ExecutionResult;
+    let outcome: BlockOutcome = { failed: false, halted: false };
     try {
+      switch (step.action) {
+        case 'if': {
+          const holds = await this.checkCondition(step.condition!, state);
+          const branchName = holds ? 'then' : 'else';
+          const branch = step[branchName];
+          if (branch) {
+            outcome = await this.runSteps(branch, state, `${path}.${branchName}`, stopOnFailure);
+          }
+          header = {
+            action: step.action,
+            success: true,
+            data: `Condition ${holds ? 'held' : 'did not hold'}; ${branch ? `ran the "${branchName}" steps` : 'nothing to run'}`,
+          };
+          break;
+        }
+        case 'forEach': {
+          const limit = step.maxItems ?? DEFAULT_FOREACH_ITEMS;
+          let values: string[];
+          if (step.items) {
+            values = step.items;
+          } else {
+            const matches = this.locate(this.scope(state), step);
+            values = step.attribute
+              ? await matches.evaluateAll(
+                  (elements, attribute) =>
+                    (elements as unknown as PageElement[]).map((el) => el.getAttribute(attribute) ?? ''),
+                  step.attribute
+                )
+              : await matches.allInnerTexts();
+          }
+          const items = values.slice(0, limit);
+          const name = step.as ?? 'item';
+          const hadPrevious = Object.prototype.hasOwnProperty.call(state.variables, name);
+          const previous = state.variables[name];
+          let visited = 0;
+          try {
+            for (let k = 0; k < items.length; k++) {
+              state.variables[name] = items[k];
+              visited++;
+              const iteration = await this.runSteps(step.steps!, state, `${path}[${k}]`, stopOnFailure);
+              outcome = { failed: outcome.failed || iteration.failed, halted: iteration.halted };
+              if (iteration.halted || (iteration.failed && stopOnFailure)) {
+                break;
+              }
+            }
+          } finally {
+            if (hadPrevious) {
+              state.variables[name] = previous;
+            } else {
+              delete state.variables[name];
+            }
+          }
+          const limited = values.length > limit ? ` (limited by maxItems ${limit})` : '';
+          header = { action: step.action, success: true, data: `Visited ${visited} of ${values.length} item(s)${limited}` };
+          break;
+        }
+        case 'retry':
+          ({ header, outcome } = await this.runRetry(step, state, path));
+          break;
+        case 'call': {
+          const steps = state.plan.subPlans?.[step.subPlan!];
+          if (!steps) {
+            header = { action: step.action, success: false, error: `Unknown sub-plan "${step.subPlan}"` };
+            outcome = { failed: true, halted: false };
+            break;
+          }
+          // Arguments only hold inside the sub-plan; the caller's values come back afterwards
+          const args = step.with ?? {};
+          const saved = Object.keys(args).map((name) => ({
+            name,
+            hadPrevious: Object.prototype.hasOwnProperty.call(state.variables, name),
+            previous: state.variables[name],
+          }));
+          Object.assign(state.variables, args);
+          try {
+            outcome = await this.runSteps(steps, state, `${path}.${step.subPlan}`, stopOnFailure);
+          } finally {
+            for (const { name, hadPrevious, previous } of saved) {
+              if (hadPrevious) {
+                state.variables[name] = previous;
+              } else {
+                delete state.variables[name];
+              }
+            }
+          }
+          header = { action: step.action, success: true, data: `Ran sub-plan "${step.subPlan}"` };
+          break;
+        }
+        default:
+          header = { action: step.action, success: false, error: `Unknown action: ${step.action}` };
+          outcome = { failed: true, halted: false };
+      }
+    } catch (err) {
+      header = { action: step.action, success: false, error: err instanceof Error ? err.message : String(err) };
+      outcome = { failed: true, halted: outcome.halted };
+    }
+    const secretValues = Object.values(this.options.templateContext?.secrets ?? {});
+    const timing = { startedAt: new Date(started).toISOString(), durationMs: Date.now() - started };
+    results[headerIndex] = maskResult({ ...header, path, ...timing }, secretValues);
+    return outcome;
+  }
+
+  /**
+   * Runs the block until one attempt gets through without a failed step.
+   * Results of failed attempts are summarized in the block's own result
+   * rather than listed, so each failure counts once in the verdict.
+   */
+  private async runRetry(
+    step: ActionStep,
+    state: RunState,
+    path: string
+  ): Promise<{ header: ExecutionResult; outcome: BlockOutcome }> {
+    const attempts = step.attempts!;
+    const failures: string[] = [];
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const outer = state.results;
+      const attemptResults: ExecutionResult[] = [];
+      state.results = attemptResults;
+      let outcome: BlockOutcome;
+      try {
+        outcome = await this.runSteps(step.steps!, state, `${path}.steps`, true);
+      } finally {
+        state.results = outer;
+      }
+      if (!outcome.failed || outcome.halted) {
+        outer.push(...attemptResults);
+      }
+      if (!outcome.failed) {
+        return { header: { action: step.action, success: true, data: `Succeeded on attempt ${attempt} of ${attempts}` }, outcome };
+      }
+      const failure = attemptResults.find((r) => !r.success);
+      failures.push(`attempt ${attempt}: ${failure ? `${failure.action} failed: ${failure.error ?? 'unknown error'}` : 'failed'}`);
+      if (outcome.halted || attempt === attempts || this.isCancelled(state)) {
+        const error = outcome.halted || this.isCancelled(state) ? `Stopped during attempt ${attempt}` : `Failed after ${attempts} attempts`;
+        return { header: { action: step.action, success: false, error: `${error} (${failures.join('; ')})` }, outcome };
+      }
+      if (step.delayMs) {
+        await this.pause(step.delayMs, state);
+        if (this.isCancelled(state)) {
+          return {
+            header: { action: step.action, success: false, error: `Stopped after attempt ${attempt} (${failures.join('; ')})` },
+            outcome: { failed: true, halted: true },
+          };
+        }
+      }
+    }
+    // Not reached: the last attempt always returns
+    return { header: { action: step.action, success: false }, outcome: { failed: true, halted: false } };
+  }
+
+  /** Evaluates an `if` condition, waiting up to `waitMs` for it to hold. */
+  private async checkCondition(condition: Condition, state: RunState): Promise<boolean> {
+    const page = state.page;
+    const root = this.scope(state);
+    const check = async (): Promise<boolean> => {
+      if (condition.url !== undefined) {
+        return page.url().includes(condition.url);
+      }
+      const target =
+        condition.text !== undefined
+          ? root.getByText(condition.text, { exact: false })
+          : condition.locator
+            ? resolveLocator(root, condition.locator)
+            : root.locator(condition.selector!);
+      return target.first().isVisible();
+    };
+    const wanted = !condition.not;
+    const deadline = Date.now() + (condition.waitMs ?? 0);
+    let holds = await check();
+    while (holds !== wanted && Date.now() < deadline) {
+      await this.pause(CONDITION_POLL_MS, state);
+      if (this.isCancelled(state)) {
+        break;
+      }
+      holds = await check();
+    }
+    return holds === wanted;
+  }
+
+  /**
+   * Describes the current page for the model as an outline of its interactive
+   * elements, headings and landmarks with ref IDs. Falls back to the visible
+   * text when the outline cannot be built.
+   */
+  async observe(): Promise<string> {
+    const state = await this.session.describe();
+    if (!state.active) {
+      return 'No browser session is open.';
+    }
+    const secretValues = Object.values(this.options.templateContext?.secrets ?? {});
+    let observation: string;
+    try {
+      const page = await this.session.getPage();
+      observation = await observePage(page, this.options.observationTokens ?? DEFAULT_OUTLINE_TOKENS, secretValues);
+    } catch {
+      let text: string;
+      try {
+        const page = await this.session.getPage();
+        const bodyText = await page.locator('body').innerText({ timeout: 5000 });
+        text = maskAndTruncate(bodyText, secretValues, OBSERVATION_TEXT_LIMIT, '\n… (truncated)');
+      } catch (err) {
+        text = `(could not read page text: ${err instanceof Error ? err.message : String(err)})`;
+      }
+      observation = `URL: ${state.url}\nTitle: ${state.title || '(none)'}\nVisible text:\n${text}`;
+    }
+    return maskSecrets(observation, secretValues);
+  }
+
+  /**
+   * Applies the action and selector rules before a step runs. Selector rules
+   * are matched against the element the step resolves to, so they also catch
+   * text, role and label locators. Returns a failed result when the step must not run.
+   */
+  private async enforceStepPolicy(
+    step: ActionStep,
+    label: string,
+    root: LocatorRoot
+  ): Promise<ExecutionResult | undefined> {
+    const policy = this.options.policy;
+    if (!policy) {
+      return undefined;
+    }
+    const { blocked, confirm } = checkStepPolicy(step, policy);
+
+    const element = this.policyTarget(step, root);
+    if (element && (policy.blockedSelectors.length > 0 || policy.confirmSelectors.length > 0)) {
+      try {
+        const matched = await element.evaluate(
+          (el, rules) => ({
+            blocked: rules.blocked.filter((selector) => el.matches(selector)),
+            confirm: rules.confirm.filter((selector) => el.matches(selector)),
+          }),
+          { blocked: policy.blockedSelectors, confirm: policy.confirmSelectors },
+          { timeout: 10000 }
+        );
+        blocked.push(...matched.blocked.map((selector) => `target element matches blocked selector "${selector}"`));
+        confirm.push(...matched.confirm.map((selector) => `target element matches "${selector}"`));
+      } catch {
+        // The element could not be resolved; the step itself will report that
+      }
+    }
+
+    if (blocked.length > 0) {
+      return { action: step.action, success: false, policyViolation: true, error: `Policy violation: ${blocked.join('; ')}` };
+    }
+    if (confirm.length > 0) {
+      const message = `${label} (${step.action}) needs confirmation: ${confirm.join('; ')}. Allow it to run?`;
+      const allowed = this.options.confirm ? await this.options.confirm(message) : false;
+      if (!allowed) {
+        return {
+          action: step.action,
+          success: false,
+          skipped: true,
+          policyViolation: true,
+          error: `Policy: not confirmed (${confirm.join('; ')})`,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /** The element an interactive step acts on, for selector rules. */
+  private policyTarget(step: ActionStep, root: LocatorRoot): playwright.Locator | undefined {
+    if (!INTERACTIVE_ACTIONS.includes(step.action)) {
+      return undefined;
+    }
+    if (step.action === 'clickText') {
+      return root.getByText(step.text!, { exact: false }).first();
+    }
+    if (!step.selector && !step.locator) {
+      return undefined;
+    }
+    return this.target(root, step);
+  }
+
+  /**
+   * Checks where the page ended up after a step, which catches redirects and
+   * links as well as `goto`. Leaves a disallowed page for `about:blank`.
+   */
+  private async enforceNavigationPolicy(
+    step: ActionStep,
+    page: playwright.Page
+  ): Promise<ExecutionResult | undefined> {
+    if (!this.options.policy || page.isClosed()) {
+      return undefined;
+    }
+    const url = page.url();
+    const violation = checkUrl(url, this.options.policy);
+    if (!violation) {
+      return undefined;
+    }
+    try {
+      await page.goto('about:blank');
+    } catch {
+      // ignore; the plan stops either way
+    }
+    return {
+      action: step.action,
+      success: false,
+      policyViolation: true,
+      error: `Policy violation: the page navigated to ${url}, but ${violation}`,
+    };
+  }
+
+  /**
+   * Retries a failed step with fallback locators when its target matched
+   * nothing. A fallback is only used when it matches exactly one visible
+   * element, and it passes the same policy checks as the original. Returns
+   * undefined when no fallback worked, so the original failure stands.
+   */
+  private async healStep(
+    templated: ActionStep,
+    step: ActionStep,
+    label: string,
+    root: LocatorRoot,
+    state: RunState
+  ): Promise<ExecutionResult | undefined> {
+    if (!step.selector && !step.locator) {
+      return undefined;
+    }
+    // Healing an assertion that expects the element to be missing would defeat it
+    if (step.action === 'expectVisible' && step.visible === false) {
+      return undefined;
+    }
+    try {
+      if ((await this.locate(root, step).count()) > 0) {
+        return undefined;
+      }
+    } catch {
+      // An invalid selector matches nothing as well
+    }
+    const context = this.options.templateContext ?? { secrets: {}, vars: {} };
+    for (const candidate of healingCandidates(templated)) {
+      const healed = healedStep(templated, candidate.locator);
+      const { step: resolved } = resolveStep(healed, context, state.variables);
+      try {
+        const matches = resolveLocator(root, resolved.locator!);
+        if ((await matches.count()) !== 1 || !(await matches.isVisible())) {
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      if (await this.enforceStepPolicy(resolved, label, root)) {
+        continue;
+      }
+      const result = await this.attemptStep(resolved, state, this.settingsFor(resolved, state));
+      if (result.success) {
+        return {
+          ...result,
+          healed: { strategy: candidate.strategy, locator: candidate.locator, original: describeTarget(templated) },
+          healedStep: healed,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /** Resolves all elements a step targets through its `locator` or CSS `selector`. */
+  private locate(root: LocatorRoot, step: ActionStep): playwright.Locator {
+    return step.locator ? resolveLocator(root, step.locator) : root.locator(step.selector!);
+  }
+
+  /** Resolves the first element a step targets. */
+  private target(root: LocatorRoot, step: ActionStep): playwright.Locator {
+    return this.locate(root, step).first();
+  }
+
+  /**
+   * Runs a Playwright `expect` check and reports the expected and actual values.
+   * The actual value is read after the check so it reflects the final page state.
+   */
+  private async assert(
+    step: ActionStep,
+    expected: string,
+    describe: (expected: string, actual: string) => string,
+    check: () => Promise<void>,
+    readActual: () => Promise<string>
+  ): Promise<ExecutionResult> {
+    let passed = true;
+    try {
+      await check();
+    } catch {
+      passed = false;
+    }
+    let actual: string;
+    try {
+      actual = maskAndTruncate(await readActual(), Object.values(this.options.templateContext?.secrets ?? {}), ACTUAL_VALUE_LIMIT);
+    } catch {
+      actual = '(element not found)';
+    }
+    if (passed) {
+      return { action: step.action, success: true, expected, actual };
+    }
+    return {
+      action: step.action,
+      success: false,
+      expected,
+      actual,
+      error: `Assertion failed: ${describe(expected, actual)}`,
+    };
+  }
+
+  /** Reads records page by page, following `pagination` until it runs out or a limit is reached. */
+  private async extractRecords(step: ActionStep, state: RunState, timeout: number): Promise<ExecutionResult> {
+    const root = this.scope(state);
+    const maxPages = step.pagination ? step.pagination.maxPages ?? DEFAULT_MAX_PAGES : 1;
+    const records: DataRecord[] = [];
+    let pages = 0;
+    for (;;) {
+      pages++;
+      records.push(...(step.action === 'extractTable' ? await this.readTable(step, root, timeout) : await this.readList(step, root, timeout)));
+      if (step.maxRows !== undefined && records.length >= step.maxRows) {
+        records.length = step.maxRows;
+        break;
+      }
+      if (!step.pagination || pages >= maxPages || !(await this.nextPage(step, state, root, timeout))) {
+        break;
+      }
+    }
+    return { action: step.action, success: true, data: describeRecords(records, pages), records };
+  }
+
+  private async readList(step: ActionStep, root: LocatorRoot, timeout: number): Promise<DataRecord[]> {
+    const fields = normalizeFields(step.fields!, 'extractList');
+    const rows = root.locator(step.rowSelector!);
+    await rows.first().waitFor({ timeout });
+    const values = await rows.evaluateAll(
+      (elements, specs) =>
+        (elements as unknown as PageElement[]).map((row) =>
+          specs.map((spec) => {
+            const el = spec.selector ? row.querySelector(spec.selector) : row;
+            if (!el) {
+              return null;
+            }
+            return spec.attribute ? el.getAttribute(spec.attribute) : el.innerText ?? el.textContent;
+          })
+        ),
+      fields.map(({ selector, attribute }) => ({ selector, attribute }))
+    );
+    return values.map((row) => rowToRecord(row, fields));
+  }
+
+  private async readTable(step: ActionStep, root: LocatorRoot, timeout: number): Promise<DataRecord[]> {
+    const cells = await this.target(root, step).evaluate(
+      (element) => {
+        const table = element as unknown as PageElement;
+        const text = (cell: PageElement) => (cell.innerText ?? cell.textContent ?? '').trim();
+        const rows = Array.from(table.querySelectorAll('tr'));
+        const headerRow = rows.find((row) => row.querySelector('th') && !row.querySelector('td'));
+        return {
+          headers: headerRow ? Array.from(headerRow.children).map(text) : [],
+          rows: rows.filter((row) => row !== headerRow && row.querySelector('td')).map((row) => Array.from(row.children).map(text)),
+        };
+      },
+      undefined,
+      { timeout }
+    );
+    const fields = step.fields ? normalizeFields(step.fields, 'extractTable') : undefined;
+    return tableToRecords(cells.headers, cells.rows, fields);
+  }
+
+  /**
+   * Clicks the "next page" control and waits until the extracted content
+   * changes. Returns false when there is no usable next control or the
+   * content did not change, which ends pagination. Stopping the run ends it too.
+   */
+  private async nextPage(step: ActionStep, state: RunState, root: LocatorRoot, timeout: number): Promise<boolean> {
+    const next = root.locator(step.pagination!.nextSelector).first();
+    if (
+      (await next.count()) === 0 ||
+      !(await next.isVisible()) ||
+      !(await next.isEnabled()) ||
+      (await next.getAttribute('aria-disabled')) === 'true'
+    ) {
+      return false;
+    }
+    const content = step.action === 'extractTable' ? this.target(root, step) : root.locator(step.rowSelector!).first();
+    const readContent = () => content.innerText({ timeout: 1000 }).catch(() => '');
+    const before = await readContent();
+    await next.click({ timeout });
+    const deadline = Date.now() + PAGE_CHANGE_TIMEOUT_MS;
+    while (Date.now() < deadline && !this.isCancelled(state)) {
+      await state.page.waitForLoadState('domcontentloaded').catch(() => undefined);
+      const after = await readContent();
+      if (after && after !== before) {
+        return true;
+      }
+      await this.pause(250, state);
+    }
+    return false;
+  }
+
+  /** Runs a leaf step once, then waits for the load state the step itself asks for. */
+  private async attemptStep(step: ActionStep, state: RunState, settings: StepSettings): Promise<ExecutionResult> {
+    let result: ExecutionResult;
+    if (NETWORK_ACTIONS.includes(step.action)) {
+      result = await this.executeNetworkStep(step, state, settings.timeout);
+    } else if (TAB_ACTIONS.includes(step.action)) {
+      result = await this.executeTabStep(step, state, settings);
+    } else {
+      result = await this.executeStep(step, state, settings);
+    }
+    if (!result.success || !step.waitUntil || step.action === 'goto' || step.action === 'closeBrowser') {
+      return result;
+    }
+    try {
+      // After `switchTab` or `waitForPopup` this is the tab the step switched to
+      await state.page.waitForLoadState(step.waitUntil, { timeout: settings.navigationTimeout });
+      return result;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { ...result, success: false, error: `The page did not reach "${step.waitUntil}": ${msg}` };
+    }
+  }
+
+  /** Runs a `route`, `unroute` or `waitForResponse` step. */
+  private async executeNetworkStep(step: ActionStep, state: RunState, timeout: number): Promise<ExecutionResult> {
+    const context = state.page.context();
+    try {
+      switch (step.action) {
+        case 'route': {
+          const error = await this.installRoute(step.rule!, state);
+          return error
+            ? { action: step.action, success: false, error }
+            : { action: step.action, success: true, data: `Route added: ${describeRoute(step.rule!)}` };
+        }
+        case 'unroute': {
+          const removed = state.routes.filter((installed) => installed.rule.url === step.url);
+          if (removed.length === 0) {
+            return { action: step.action, success: false, error: `No route for "${step.url}" was added in this run` };
+          }
+          for (const installed of removed) {
+            await context.unroute(installed.rule.url, installed.handler);
+          }
+          state.routes = state.routes.filter((installed) => !removed.includes(installed));
+          return { action: step.action, success: true, data: `Removed ${removed.length} route(s) for "${step.url}"` };
+        }
+        case 'waitForResponse': {
+          let response = state.responses.take({ url: step.url!, method: step.method });
+          if (!response) {
+            const pattern = globToRegExp(step.url!);
+            response = await context.waitForEvent('response', {
+              predicate: (r) => pattern.test(r.url()) && (!step.method || r.request().method() === step.method),
+              timeout,
+            });
+            state.responses.markTaken(response);
+          }
+          const info = { url: response.url(), method: response.request().method(), status: response.status() };
+          const contentType = (await response.headerValue('content-type')) ?? undefined;
+          let body: string | undefined;
+          if (isTextContentType(contentType)) {
+            body = await response.text().then(
+              (text) => maskAndTruncate(text, Object.values(this.options.templateContext?.secrets ?? {}), RESPONSE_BODY_LIMIT, '… (truncated)'),
+              () => undefined
+            );
+          }
+          if (step.status !== undefined && info.status !== step.status) {
+            return {
+              action: step.action,
+              success: false,
+              expected: String(step.status),
+              actual: String(info.status),
+              error: `Assertion failed: expected status ${step.status} from ${info.url}, got ${info.status}`,
+              data: body,
+              response: info,
+            };
+          }
+          return { action: step.action, success: true, data: body, response: info };
+        }
+        default:
+          return { action: step.action, success: false, error: `Unknown action: ${step.action}` };
+      }
+    } catch (err) {
+      return { action: step.action, success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /** Runs a `listTabs`, `switchTab`, `waitForPopup` or `switchFrame` step. */
+  private async executeTabStep(step: ActionStep, state: RunState, settings: StepSettings): Promise<ExecutionResult> {
+    const context = state.page.context();
+    const describeTab = async (tab: playwright.Page) =>
+      `tab ${context.pages().indexOf(tab)}: ${(await tab.title().catch(() => '')) || '(no title)'} - ${tab.url()}`;
+    try {
+      switch (step.action) {
+        case 'listTabs': {
+          const lines: string[] = [];
+          for (const tab of context.pages()) {
+            lines.push(`${await describeTab(tab)}${tab === state.page ? ' (current)' : ''}`);
+          }
+          return { action: step.action, success: true, data: lines.join('\n') };
+        }
+        case 'switchTab': {
+          const tabs = context.pages();
+          const tab = step.tab !== undefined ? tabs[step.tab] : tabs.find((t) => t.url().includes(step.url!));
+          if (!tab) {
+            const wanted = step.tab !== undefined ? `No tab ${step.tab}` : `No tab's URL contains "${step.url}"`;
+            return { action: step.action, success: false, error: `${wanted}; ${tabs.length} tab(s) are open` };
+          }
+          state.page = tab;
+          state.frames = [];
+          await tab.bringToFront();
+          return { action: step.action, success: true, data: `Switched to ${await describeTab(tab)}` };
+        }
+        case 'waitForPopup': {
+          // The click that opens the popup usually ran just before, so the tab may already be open
+          let popup = state.popups.shift();
+          if (!popup) {
+            popup = await context.waitForEvent('page', { timeout: settings.timeout });
+            state.popups = state.popups.filter((opened) => opened !== popup);
+          }
+          await popup.waitForLoadState(settings.waitUntil, { timeout: settings.navigationTimeout });
+          state.page = popup;
+          state.frames = [];
+          return { action: step.action, success: true, data: `Switched to ${await describeTab(popup)}` };
+        }
+        case 'switchFrame': {
+          if (!step.selector) {
+            state.frames = [];
+            return { action: step.action, success: true, data: 'Later steps run in the top-level page' };
+          }
+          const element = this.scope(state).locator(step.selector).first();
+          await element.waitFor({ state: 'attached', timeout: settings.timeout });
+          const isFrame = await element.evaluate((el) => ['IFRAME', 'FRAME'].includes((el as unknown as { tagName: string }).tagName));
+          if (!isFrame) {
+            return { action: step.action, success: false, error: `"${step.selector}" is not an iframe` };
+          }
+          state.frames.push(step.selector);
+          return { action: step.action, success: true, data: `Later steps run in frame ${state.frames.join(' > ')}` };
+        }
+        default:
+          return { action: step.action, success: false, error: `Unknown action: ${step.action}` };
+      }
+    } catch (err) {
+      return { action: step.action, success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  private async executeStep(step: ActionStep, state: RunState, settings: StepSettings): Promise<ExecutionResult> {
+    const page = state.page;
+    const root = this.scope(state);
+    const { timeout } = settings;
+    try {
+      if (step.locator?.ref && (await root.locator(refSelector(step.locator.ref)).count()) === 0) {
+        return {
+          action: step.action,
+          success: false,
+          error: `Ref "${step.locator.ref}" is not on the page; it may have changed since it was observed. Run "observe" again for current refs.`,
+        };
+      }
       switch (step.action) {
         case 'goto':
           if (!step.url) {
@@ -64,42 +1342,173 @@ export class PlaywrightRunner {
             const msg = e instanceof Error ? e.message : String(e);
             return { action: step.action, success: false, error: `Invalid URL: "${step.url}" - ${msg}` };
           }
-          await page.goto(step.url, { timeout: 30000 });
+          await page.goto(step.url, { timeout: settings.navigationTimeout, waitUntil: settings.waitUntil });
           return { action: step.action, success: true };
 
         case 'clickText':
-          await page.getByText(step.text!, { exact: false }).first().click({ timeout: 10000 });
+          await root.getByText(step.text!, { exact: false }).first().click({ timeout });
           return { action: step.action, success: true };
 
         case 'type':
-          await page.locator(step.selector!).fill(step.value!, { timeout: 10000 });
+          await this.locate(root, step).fill(step.value!, { timeout });
           return { action: step.action, success: true };
 
         case 'waitForText':
-          await page.getByText(step.text!, { exact: false }).first().waitFor({ timeout: 10000 });
+          await root.getByText(step.text!, { exact: false }).first().waitFor({ timeout });
           return { action: step.action, success: true };
 
         case 'extractText': {
-          const el = page.locator(step.selector!).first();
-          const text = await el.innerText({ timeout: 10000 });
+          const el = this.target(root, step);
+          const text = await el.innerText({ timeout });
           return { action: step.action, success: true, data: text };
         }
 
         case 'snapshotText': {
-          const bodyText = await page.locator('body').innerText({ timeout: 10000 });
+          const bodyText = await root.locator('body').innerText({ timeout });
           return { action: step.action, success: true, data: bodyText };
         }
 
         case 'screenshot': {
           const safeName = path.basename(step.name!).replace(/[^a-zA-Z0-9_.-]/g, '_');
-          const screenshotPath = path.join(os.tmpdir(), `${safeName}.png`);
-          await page.screenshot({ path: screenshotPath, timeout: 10000 });
+          const dir = this.options.artifactsDir ?? os.tmpdir();
+          await fs.mkdir(dir, { recursive: true });
+          const screenshotPath = path.join(dir, `${safeName}.png`);
+          await page.screenshot({ path: screenshotPath, timeout });
           return { action: step.action, success: true, data: screenshotPath };
         }
 
         case 'closeBrowser':
           return { action: step.action, success: true };
 
+        case 'click':
+          await this.target(root, step).click({ timeout });
+          return { action: step.action, success: true };
+
+        case 'selectOption': {
+          const selected = await this.target(root, step).selectOption(step.values ?? step.value!, { timeout });
+          return { action: step.action, success: true, data: selected.join(', ') };
+        }
+
+        case 'check':
+          await this.target(root, step).check({ timeout });
+          return { action: step.action, success: true };
+
+        case 'uncheck':
+          await this.target(root, step).uncheck({ timeout });
+          return { action: step.action, success: true };
+
+        case 'press':
+          if (step.selector || step.locator) {
+            await this.target(root, step).press(step.key!, { timeout });
+          } else {
+            await page.keyboard.press(step.key!);
+          }
+          return { action: step.action, success: true };
+
+        case 'hover':
+          await this.target(root, step).hover({ timeout });
+          return { action: step.action, success: true };
+
+        case 'scrollIntoView':
+          await this.target(root, step).scrollIntoViewIfNeeded({ timeout });
+          return { action: step.action, success: true };
+
+        case 'setInputFiles': {
+          const workspaceRoot = this.options.workspaceRoot;
+          if (!workspaceRoot) {
+            return { action: step.action, success: false, error: '"setInputFiles" requires an open workspace folder' };
+          }
+          const files: string[] = [];
+          for (const file of step.files!) {
+            const resolved = path.resolve(workspaceRoot, file);
+            if (path.relative(workspaceRoot, resolved).startsWith('..')) {
+              return { action: step.action, success: false, error: `File "${file}" is outside the workspace` };
+            }
+            files.push(resolved);
+          }
+          await this.target(root, step).setInputFiles(files, { timeout });
+          return { action: step.action, success: true, data: step.files!.join(', ') };
+        }
+
+        case 'expectText': {
+          const target = step.selector || step.locator ? this.target(root, step) : root.locator('body');
+          return this.assert(
+            step,
+            step.text!,
+            (expected, actual) => `expected text containing "${expected}", got "${actual}"`,
+            () => expect(target).toContainText(step.text!, { timeout }),
+            () => target.innerText({ timeout: 1000 })
+          );
+        }
+
+        case 'expectVisible': {
+          const target = this.target(root, step);
+          const visible = step.visible ?? true;
+          return this.assert(
+            step,
+            visible ? 'visible' : 'hidden',
+            (expected, actual) => `expected element to be ${expected}, but it is ${actual}`,
+            () =>
+              visible
+                ? expect(target).toBeVisible({ timeout })
+                : expect(target).toBeHidden({ timeout }),
+            async () => ((await target.isVisible()) ? 'visible' : 'hidden')
+          );
+        }
+
+        case 'expectUrl':
+          return this.assert(
+            step,
+            step.url!,
+            (expected, actual) => `expected URL containing "${expected}", got "${actual}"`,
+            () => expect(page).toHaveURL(new RegExp(escapeRegExp(step.url!)), { timeout }),
+            async () => page.url()
+          );
+
+        case 'expectTitle':
+          return this.assert(
+            step,
+            step.text!,
+            (expected, actual) => `expected title containing "${expected}", got "${actual}"`,
+            () => expect(page).toHaveTitle(new RegExp(escapeRegExp(step.text!)), { timeout }),
+            () => page.title()
+          );
+
+        case 'expectCount': {
+          const targets = this.locate(root, step);
+          return this.assert(
+            step,
+            String(step.count),
+            (expected, actual) => `expected ${expected} matching element(s), found ${actual}`,
+            () => expect(targets).toHaveCount(step.count!, { timeout }),
+            async () => String(await targets.count())
+          );
+        }
+
+        case 'expectAttribute': {
+          const target = this.target(root, step);
+          return this.assert(
+            step,
+            step.value!,
+            (expected, actual) => `expected attribute "${step.attribute}" to be "${expected}", got "${actual}"`,
+            () => expect(target).toHaveAttribute(step.attribute!, step.value!, { timeout }),
+            async () => (await target.getAttribute(step.attribute!, { timeout: 1000 })) ?? '(attribute missing)'
+          );
+        }
+
+        case 'extractList':
+        case 'extractTable':
+          return await this.extractRecords(step, state, timeout);
+
+        case 'observe': {
+          const outline = await observePage(
+            page,
+            step.maxTokens ?? this.options.observationTokens ?? DEFAULT_OUTLINE_TOKENS,
+            Object.values(this.options.templateContext?.secrets ?? {})
+          );
+          return { action: step.action, success: true, data: outline };
+        }
+
         default:
           return {
             action: step.action,
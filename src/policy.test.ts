@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EMPTY_POLICY, ExecutionPolicy, checkStepPolicy, checkUrl, hostMatches } from './policy';
+import { AVAILABLE_TOOLS, validateActionPlan } from './actionDsl';
+
+function policy(overrides: Partial<ExecutionPolicy>): ExecutionPolicy {
+  return { ...EMPTY_POLICY, ...overrides };
+}
+
+describe('hostMatches', () => {
+  it('matches exact hosts case-insensitively', () => {
+    assert.equal(hostMatches('Example.com', 'example.com'), true);
+    assert.equal(hostMatches('example.org', 'example.com'), false);
+  });
+
+  it('supports wildcards', () => {
+    assert.equal(hostMatches('admin.example.com', '*.example.com'), true);
+    assert.equal(hostMatches('example.com', '*.example.com'), false);
+    assert.equal(hostMatches('evilexample.com', '*.example.com'), false);
+    assert.equal(hostMatches('admin.internal', 'admin.*'), true);
+  });
+});
+
+describe('checkUrl', () => {
+  it('allows any host when no rules are set', () => {
+    assert.equal(checkUrl('https://example.com', EMPTY_POLICY), undefined);
+  });
+
+  it('rejects blocked hosts', () => {
+    const result = checkUrl('https://admin.corp.example/', policy({ blockedHosts: ['admin.*'] }));
+    assert.ok(result?.includes('blocked'));
+  });
+
+  it('rejects hosts outside the allowlist', () => {
+    const p = policy({ allowedHosts: ['staging.example.com'] });
+    assert.equal(checkUrl('https://staging.example.com/cart', p), undefined);
+    assert.ok(checkUrl('https://example.com', p)?.includes('not in the allowed hosts'));
+  });
+
+  it('lets blocked hosts win over allowed ones', () => {
+    const p = policy({ allowedHosts: ['*.example.com'], blockedHosts: ['admin.example.com'] });
+    assert.ok(checkUrl('https://admin.example.com', p));
+  });
+
+  it('ignores URLs without a host', () => {
+    assert.equal(checkUrl('about:blank', policy({ allowedHosts: ['example.com'] })), undefined);
+  });
+});
+
+describe('checkStepPolicy', () => {
+  it('blocks and flags actions', () => {
+    const p = policy({ blockedActions: ['setInputFiles'], confirmActions: ['closeBrowser'] });
+    assert.equal(checkStepPolicy({ action: 'setInputFiles' }, p).blocked.length, 1);
+    assert.equal(checkStepPolicy({ action: 'closeBrowser' }, p).confirm.length, 1);
+  });
+
+  it('matches selectors written like a rule', () => {
+    const p = policy({ blockedSelectors: ['#card-number'], confirmSelectors: ['input[type="password"]'] });
+    assert.equal(checkStepPolicy({ action: 'type', selector: '#card-number', value: '4111' }, p).blocked.length, 1);
+    assert.equal(checkStepPolicy({ action: 'type', selector: 'input[type=password]', value: 'x' }, p).confirm.length, 1);
+  });
+});
+
+describe('validateActionPlan with a policy', () => {
+  it('rejects steps the policy blocks up front', () => {
+    const result = validateActionPlan(
+      {
+        steps: [
+          { action: 'goto', url: 'https://admin.example.com' },
+          { action: 'type', selector: '#card-number', value: '4111' },
+        ],
+      },
+      [...AVAILABLE_TOOLS],
+      { policy: policy({ blockedHosts: ['admin.example.com'], blockedSelectors: ['#card-number'] }) }
+    );
+    assert.equal(result.valid, false);
+    assert.equal(result.errors.length, 2);
+    assert.ok(result.errors.every((e) => e.includes('policy violation')));
+  });
+
+  it('does not reject confirm-required steps', () => {
+    const result = validateActionPlan(
+      { steps: [{ action: 'type', selector: 'input[type=password]', value: 'x' }] },
+      [...AVAILABLE_TOOLS],
+      { policy: policy({ confirmSelectors: ['input[type=password]'] }) }
+    );
+    assert.equal(result.valid, true);
+  });
+});
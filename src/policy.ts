@@ -0,0 +1,112 @@
+import { ActionStep } from './actionDsl';
+
+/**
+ * Workspace-configured limits on what a plan may do. Host patterns match the
+ * URL hostname and may use `*` as a wildcard, e.g. `*.example.com`. Selector
+ * rules are CSS selectors matched against the element a step targets.
+ */
+export interface ExecutionPolicy {
+  /** When non-empty, navigation is limited to these hosts. */
+  allowedHosts: string[];
+  blockedHosts: string[];
+  blockedSelectors: string[];
+  confirmSelectors: string[];
+  blockedActions: string[];
+  confirmActions: string[];
+}
+
+export const EMPTY_POLICY: ExecutionPolicy = {
+  allowedHosts: [],
+  blockedHosts: [],
+  blockedSelectors: [],
+  confirmSelectors: [],
+  blockedActions: [],
+  confirmActions: [],
+};
+
+export interface StepPolicyCheck {
+  /** Reasons the step must not run at all. */
+  blocked: string[];
+  /** Reasons the user has to confirm the step before it runs. */
+  confirm: string[];
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+export function hostMatches(host: string, pattern: string): boolean {
+  return patternToRegExp(pattern).test(host.toLowerCase());
+}
+
+/**
+ * Checks a URL against the host rules. Returns a violation message, or
+ * undefined when the URL is allowed. Non-http(s) URLs such as `about:blank`
+ * have no host and are always allowed.
+ */
+export function checkUrl(url: string, policy: ExecutionPolicy): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return undefined;
+  }
+  const host = parsed.hostname;
+  const blockedBy = policy.blockedHosts.find((p) => hostMatches(host, p));
+  if (blockedBy) {
+    return `host "${host}" is blocked by the pattern "${blockedBy}"`;
+  }
+  if (policy.allowedHosts.length > 0 && !policy.allowedHosts.some((p) => hostMatches(host, p))) {
+    return `host "${host}" is not in the allowed hosts list`;
+  }
+  return undefined;
+}
+
+function normalizeSelector(selector: string): string {
+  return selector.replace(/\s+/g, ' ').replace(/["']/g, '').trim().toLowerCase();
+}
+
+/**
+ * Static checks that can run before execution: blocked or confirm-required
+ * actions, disallowed `goto` hosts and selectors written exactly as a rule.
+ * Element rules are enforced again at runtime against the resolved element.
+ */
+export function checkStepPolicy(step: ActionStep, policy: ExecutionPolicy): StepPolicyCheck {
+  const blocked: string[] = [];
+  const confirm: string[] = [];
+
+  if (policy.blockedActions.includes(step.action)) {
+    blocked.push(`action "${step.action}" is blocked`);
+  } else if (policy.confirmActions.includes(step.action)) {
+    confirm.push(`action "${step.action}" requires confirmation`);
+  }
+
+  if (step.action === 'goto' && step.url) {
+    const urlViolation = checkUrl(step.url, policy);
+    if (urlViolation) {
+      blocked.push(urlViolation);
+    }
+  }
+
+  if (step.selector) {
+    const selector = normalizeSelector(step.selector);
+    const blockedBy = policy.blockedSelectors.find((s) => normalizeSelector(s) === selector);
+    if (blockedBy) {
+      blocked.push(`selector "${step.selector}" is blocked`);
+    }
+    const confirmBy = policy.confirmSelectors.find((s) => normalizeSelector(s) === selector);
+    if (confirmBy) {
+      confirm.push(`selector "${step.selector}" requires confirmation`);
+    }
+  }
+
+  return { blocked, confirm };
+}
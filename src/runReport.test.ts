@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PlanReport, formatReport, getRunVerdict, formatVerdict, planPassed } from './runReport';
+
+describe('getRunVerdict', () => {
+  it('passes when every step succeeded', () => {
+    const verdict = getRunVerdict([
+      { action: 'goto', success: true },
+      { action: 'expectText', success: true, expected: '3', actual: '3' },
+    ]);
+    assert.equal(verdict.verdict, 'PASS');
+    assert.equal(verdict.passedAssertions, 1);
+    assert.equal(formatVerdict(verdict), 'PASS: 2/2 step(s) passed, 1/1 assertion(s) passed');
+  });
+
+  it('fails when an assertion failed', () => {
+    const verdict = getRunVerdict([
+      { action: 'goto', success: true },
+      { action: 'expectCount', success: false, expected: '3', actual: '2' },
+    ]);
+    assert.equal(verdict.verdict, 'FAIL');
+    assert.equal(verdict.failedAssertions, 1);
+    assert.equal(verdict.failedSteps, 1);
+  });
+
+  it('fails when a non-assertion step failed', () => {
+    const verdict = getRunVerdict([{ action: 'clickText', success: false, error: 'Timeout' }]);
+    assert.equal(verdict.verdict, 'FAIL');
+    assert.equal(formatVerdict(verdict), 'FAIL: 0/1 step(s) passed');
+  });
+});
+
+describe('formatReport', () => {
+  const reports: PlanReport[] = [
+    {
+      name: 'Checkout & pay',
+      file: 'checkout.pwplan.json',
+      durationMs: 2500,
+      results: [
+        { action: 'goto', success: true, path: '0', durationMs: 1200 },
+        { action: 'expectText', success: false, path: '1', durationMs: 300, error: 'Text <b> differs', expected: '3', actual: '2' },
+        { action: 'click', success: false, skipped: true, path: '2', error: 'Stopped by user' },
+      ],
+    },
+    { name: 'broken.pwplan.yaml', file: 'broken.pwplan.yaml', durationMs: 0, errors: ['Step 0: unknown action "fly"'], results: [] },
+  ];
+
+  it('writes JUnit XML with a suite per plan and a case per step', () => {
+    const xml = formatReport(reports, 'junit');
+    assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="pw-chat-run" tests="4" failures="1" errors="1" time="2.500">/);
+    assert.match(xml, /<testsuite name="Checkout &amp; pay" file="checkout.pwplan.json" tests="3" failures="1" errors="0" skipped="1" time="2.500">/);
+    assert.match(xml, /<testcase classname="Checkout &amp; pay" name="0 goto" time="1.200"\/>/);
+    assert.match(xml, /<failure message="Text &lt;b&gt; differs">Text &lt;b&gt; differs\nExpected: 3\nActual: {3}2<\/failure>/);
+    assert.match(xml, /<skipped message="Stopped by user"\/>/);
+    assert.match(xml, /<error message="Step 0: unknown action &quot;fly&quot;">/);
+  });
+
+  it('writes JSON and markdown summaries', () => {
+    const json = JSON.parse(formatReport(reports, 'json'));
+    assert.equal(json.passed, 0);
+    assert.equal(json.failed, 2);
+    assert.equal(json.plans[0].verdict.failedAssertions, 1);
+
+    const markdown = formatReport(reports, 'markdown');
+    assert.match(markdown, /0\/2 plan\(s\) passed\./);
+    assert.match(markdown, /## ❌ Checkout & pay/);
+    assert.match(markdown, /\| 1 expectText \| failed \| 300 ms \| Text <b> differs \|/);
+    assert.match(markdown, /- Step 0: unknown action "fly"/);
+  });
+
+  it('passes a plan only when it ran and every step passed', () => {
+    assert.equal(planPassed({ name: 'a', file: 'a', durationMs: 0, results: [{ action: 'goto', success: true }] }), true);
+    assert.equal(planPassed(reports[1]), false);
+  });
+});
@@ -0,0 +1,173 @@
+import { ASSERTION_ACTIONS } from './actionDsl';
+import { ExecutionResult } from './playwrightRunner';
+
+export interface RunVerdict {
+  verdict: 'PASS' | 'FAIL';
+  passedSteps: number;
+  failedSteps: number;
+  passedAssertions: number;
+  failedAssertions: number;
+}
+
+/** A run passes only when every step, including every assertion, succeeded. */
+export function getRunVerdict(results: ExecutionResult[]): RunVerdict {
+  const assertions = results.filter((r) => ASSERTION_ACTIONS.includes(r.action));
+  const failedSteps = results.filter((r) => !r.success).length;
+  const failedAssertions = assertions.filter((r) => !r.success).length;
+  return {
+    verdict: failedSteps === 0 ? 'PASS' : 'FAIL',
+    passedSteps: results.length - failedSteps,
+    failedSteps,
+    passedAssertions: assertions.length - failedAssertions,
+    failedAssertions,
+  };
+}
+
+export function formatVerdict(verdict: RunVerdict): string {
+  const assertions = verdict.passedAssertions + verdict.failedAssertions;
+  const steps = verdict.passedSteps + verdict.failedSteps;
+  let text = `${verdict.verdict}: ${verdict.passedSteps}/${steps} step(s) passed`;
+  if (assertions > 0) {
+    text += `, ${verdict.passedAssertions}/${assertions} assertion(s) passed`;
+  }
+  return text;
+}
+
+export const REPORT_FORMATS = ['json', 'junit', 'markdown'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** One plan file run outside the chat, e.g. by the CLI. */
+export interface PlanReport {
+  /** The plan's `name`, or its file name. */
+  name: string;
+  file: string;
+  /** Why the plan could not run, e.g. validation errors. Such plans have no results and fail. */
+  errors?: string[];
+  results: ExecutionResult[];
+  durationMs: number;
+}
+
+/** A plan report passes when the plan ran and every step passed. */
+export function planPassed(report: PlanReport): boolean {
+  return !report.errors?.length && getRunVerdict(report.results).verdict === 'PASS';
+}
+
+export function formatReport(reports: PlanReport[], format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJsonReport(reports);
+    case 'junit':
+      return formatJUnitReport(reports);
+    case 'markdown':
+      return formatMarkdownReport(reports);
+  }
+}
+
+function stepName(result: ExecutionResult, index: number): string {
+  return `${result.path ?? index} ${result.action}`;
+}
+
+function formatJsonReport(reports: PlanReport[]): string {
+  const plans = reports.map((report) => ({
+    name: report.name,
+    file: report.file,
+    passed: planPassed(report),
+    durationMs: report.durationMs,
+    ...(report.errors?.length ? { errors: report.errors } : { verdict: getRunVerdict(report.results) }),
+    results: report.results,
+  }));
+  const passed = plans.filter((p) => p.passed).length;
+  return `${JSON.stringify({ passed, failed: plans.length - passed, plans }, null, 2)}\n`;
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function seconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+/** JUnit XML as CI servers read it: a test suite per plan and a test case per step. */
+function formatJUnitReport(reports: PlanReport[]): string {
+  const suites = reports.map((report) => {
+    const attrs = (name: string) => `classname="${xmlEscape(report.name)}" name="${xmlEscape(name)}"`;
+    if (report.errors?.length) {
+      const message = report.errors.join('\n');
+      return [
+        `  <testsuite name="${xmlEscape(report.name)}" file="${xmlEscape(report.file)}" tests="1" failures="0" errors="1" skipped="0" time="${seconds(report.durationMs)}">`,
+        `    <testcase ${attrs('validate plan')} time="0.000">`,
+        `      <error message="${xmlEscape(report.errors[0].split('\n')[0])}">${xmlEscape(message)}</error>`,
+        '    </testcase>',
+        '  </testsuite>',
+      ].join('\n');
+    }
+    const cases = report.results.map((result, i) => {
+      const open = `    <testcase ${attrs(stepName(result, i))} time="${seconds(result.durationMs)}"`;
+      if (result.skipped) {
+        return `${open}>\n      <skipped${result.error ? ` message="${xmlEscape(result.error)}"` : ''}/>\n    </testcase>`;
+      }
+      if (!result.success) {
+        const details = [
+          result.error,
+          result.expected !== undefined ? `Expected: ${result.expected}\nActual:   ${result.actual ?? ''}` : undefined,
+        ].filter((part): part is string => part !== undefined);
+        const message = result.error?.split('\n')[0] ?? 'Step failed';
+        return `${open}>\n      <failure message="${xmlEscape(message)}">${xmlEscape(details.join('\n'))}</failure>\n    </testcase>`;
+      }
+      return `${open}/>`;
+    });
+    const skipped = report.results.filter((r) => r.skipped).length;
+    const failures = report.results.filter((r) => !r.success && !r.skipped).length;
+    return [
+      `  <testsuite name="${xmlEscape(report.name)}" file="${xmlEscape(report.file)}" tests="${report.results.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(report.durationMs)}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+  const tests = reports.reduce((n, r) => n + (r.errors?.length ? 1 : r.results.length), 0);
+  const failures = reports.reduce((n, r) => n + r.results.filter((s) => !s.success && !s.skipped).length, 0);
+  const errors = reports.filter((r) => r.errors?.length).length;
+  const time = seconds(reports.reduce((n, r) => n + r.durationMs, 0));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="pw-chat-run" tests="${tests}" failures="${failures}" errors="${errors}" time="${time}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function formatMarkdownReport(reports: PlanReport[]): string {
+  const passed = reports.filter(planPassed).length;
+  const lines = ['# Playwright Chat Runner - Report', '', `${passed}/${reports.length} plan(s) passed.`, ''];
+  for (const report of reports) {
+    lines.push(`## ${planPassed(report) ? '✅' : '❌'} ${report.name}`, '', `File: \`${report.file}\``, '');
+    if (report.errors?.length) {
+      lines.push('The plan did not run:', '', ...report.errors.map((e) => `- ${e}`), '');
+      continue;
+    }
+    lines.push(`**${formatVerdict(getRunVerdict(report.results))}**`, '');
+    lines.push('| Step | Result | Time | Details |', '| --- | --- | --- | --- |');
+    report.results.forEach((result, i) => {
+      const outcome = result.skipped ? 'skipped' : result.success ? 'passed' : 'failed';
+      const details =
+        result.error ??
+        (result.expected !== undefined ? `expected ${result.expected}, got ${result.actual ?? ''}` : result.data ?? '');
+      const time = result.durationMs !== undefined ? `${result.durationMs} ms` : '';
+      lines.push(`| ${markdownCell(stepName(result, i))} | ${outcome} | ${time} | ${markdownCell(details.slice(0, 200))} |`);
+    });
+    lines.push('');
+  }
+  return lines.join('\n');
+}
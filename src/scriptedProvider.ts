@@ -0,0 +1,63 @@
+import { ConversationMessage } from './conversation';
+import { LLMModel, LLMModelInfo, LLMProvider } from './llmProvider';
+
+export const SCRIPTED_MODEL_ID = 'scripted';
+
+/** A canned response, or a function that builds one from the request, e.g. to answer with what the page showed. */
+export type ScriptedResponse = string | ((messages: ConversationMessage[]) => string);
+
+/**
+ * Replays canned responses in order, one per request, so chats and agent runs
+ * can be demonstrated and tested without a model. Throws once the script runs out.
+ */
+export class ScriptedProvider implements LLMProvider {
+  /** Every request received, oldest first. */
+  readonly requests: ConversationMessage[][] = [];
+  private next = 0;
+
+  constructor(
+    private readonly responses: ScriptedResponse[],
+    private readonly maxInputTokens = 128000
+  ) {}
+
+  /** Responses not yet used. */
+  get remaining(): number {
+    return this.responses.length - this.next;
+  }
+
+  async listModels(): Promise<LLMModelInfo[]> {
+    return [{ id: SCRIPTED_MODEL_ID, name: 'Scripted responses' }];
+  }
+
+  async selectModel(): Promise<LLMModel> {
+    return {
+      name: SCRIPTED_MODEL_ID,
+      maxInputTokens: this.maxInputTokens,
+      complete: async (messages) => {
+        this.requests.push(messages);
+        if (this.next >= this.responses.length) {
+          throw new Error(`The script has no response left for request ${this.requests.length}`);
+        }
+        const response = this.responses[this.next++];
+        return typeof response === 'function' ? response(messages) : response;
+      },
+    };
+  }
+}
+
+/**
+ * Reads a script file: a JSON array whose strings are sent as they are and
+ * whose objects, such as plans, are sent as JSON.
+ */
+export function parseScript(text: string): string[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Could not parse the script as JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('A script must be a non-empty JSON array of responses');
+  }
+  return raw.map((response) => (typeof response === 'string' ? response : JSON.stringify(response)));
+}
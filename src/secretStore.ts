@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+
+const NAMES_KEY = 'playwrightChatRunner.secretNames';
+const SECRET_KEY_PREFIX = 'playwrightChatRunner.secret.';
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Secret values for `${{secrets.NAME}}` placeholders, kept in VS Code
+ * SecretStorage. SecretStorage cannot list its keys, so the names are tracked
+ * separately in global state; only names are ever shown to the model.
+ */
+export class SecretStore {
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  listNames(): string[] {
+    return this.context.globalState.get<string[]>(NAMES_KEY, []);
+  }
+
+  /** Loads every stored secret, keyed by name. */
+  async getAll(): Promise<Record<string, string>> {
+    const secrets: Record<string, string> = {};
+    for (const name of this.listNames()) {
+      const value = await this.context.secrets.get(SECRET_KEY_PREFIX + name);
+      if (value !== undefined) {
+        secrets[name] = value;
+      }
+    }
+    return secrets;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    await this.context.secrets.store(SECRET_KEY_PREFIX + name, value);
+    const names = this.listNames();
+    if (!names.includes(name)) {
+      await this.context.globalState.update(NAMES_KEY, [...names, name].sort());
+    }
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.context.secrets.delete(SECRET_KEY_PREFIX + name);
+    await this.context.globalState.update(
+      NAMES_KEY,
+      this.listNames().filter((n) => n !== name)
+    );
+  }
+
+  async promptSet(): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Secret name, used in plans as ${{secrets.NAME}}',
+      placeHolder: 'LOGIN_PASSWORD',
+      validateInput: (value) =>
+        SECRET_NAME_PATTERN.test(value) ? undefined : 'Use letters, digits and underscores, not starting with a digit',
+    });
+    if (!name) {
+      return;
+    }
+    const value = await vscode.window.showInputBox({
+      prompt: `Value for secret ${name}`,
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (value === undefined) {
+      return;
+    }
+    await this.set(name, value);
+    vscode.window.showInformationMessage(`Secret ${name} saved.`);
+  }
+
+  async promptDelete(): Promise<void> {
+    const names = this.listNames();
+    if (names.length === 0) {
+      vscode.window.showInformationMessage('No secrets are stored.');
+      return;
+    }
+    const name = await vscode.window.showQuickPick(names, { placeHolder: 'Secret to delete' });
+    if (!name) {
+      return;
+    }
+    await this.delete(name);
+    vscode.window.showInformationMessage(`Secret ${name} deleted.`);
+  }
+}
@@ -0,0 +1,348 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as vm from 'node:vm';
+import * as ts from 'typescript';
+import { generateSpec, locatorExpression, stringLiteral } from './specGenerator';
+
+describe('stringLiteral', () => {
+  it('escapes quotes, backslashes and newlines', () => {
+    assert.equal(stringLiteral("it's"), "'it\\'s'");
+    assert.equal(stringLiteral('a\\b'), "'a\\\\b'");
+    assert.equal(stringLiteral('line1\nline2'), "'line1\\nline2'");
+  });
+
+  it('reads placeholders from environment variables', () => {
+    assert.equal(stringLiteral('${{vars.BASE_URL}}/a`b'), '`${process.env.BASE_URL}/a\\`b`');
+    assert.equal(stringLiteral('${{ secrets.PASSWORD }}'), '`${process.env.PASSWORD}`');
+  });
+
+  it('reads variable references from the test\'s variables', () => {
+    assert.equal(stringLiteral('${item} in ${{vars.SHOP}}'), '`${item} in ${process.env.SHOP}`');
+  });
+});
+
+describe('locatorExpression', () => {
+  it('builds role locators with name and exact options', () => {
+    assert.equal(
+      locatorExpression({ action: 'click', locator: { role: 'button', name: 'Buy', exact: true } }),
+      "page.getByRole('button', { name: 'Buy', exact: true })"
+    );
+    assert.equal(locatorExpression({ action: 'click', locator: { role: 'main' } }), "page.getByRole('main')");
+  });
+
+  it('builds label, placeholder and test id locators', () => {
+    assert.equal(locatorExpression({ action: 'click', locator: { label: 'Email' } }), "page.getByLabel('Email')");
+    assert.equal(
+      locatorExpression({ action: 'click', locator: { placeholder: 'Search', exact: true } }),
+      "page.getByPlaceholder('Search', { exact: true })"
+    );
+    assert.equal(locatorExpression({ action: 'click', locator: { testId: 'submit' } }), "page.getByTestId('submit')");
+  });
+
+  it('keeps first-match semantics for text and CSS locators', () => {
+    assert.equal(locatorExpression({ action: 'click', locator: { text: 'More' } }), "page.getByText('More').first()");
+    assert.equal(locatorExpression({ action: 'click', selector: '#buy' }), "page.locator('#buy').first()");
+  });
+
+  it('refuses observe refs, which do not exist in a test run', () => {
+    assert.throws(() => locatorExpression({ action: 'click', locator: { ref: 'e7' } }), /click step targets ref "e7"/);
+    assert.throws(
+      () => generateSpec([{ title: 'Sign in', plan: { steps: [{ action: 'click', locator: { ref: 'e7' } }] } }]),
+      /^Error: Cannot export "Sign in": The click step targets ref "e7"/
+    );
+  });
+});
+
+describe('generateSpec', () => {
+  it('generates a test block with idiomatic Playwright calls', () => {
+    const spec = generateSpec([
+      {
+        title: 'Open the about page',
+        plan: {
+          steps: [
+            { action: 'goto', url: 'https://example.com' },
+            { action: 'clickText', text: 'About' },
+            { action: 'type', selector: '#q', value: 'hello' },
+            { action: 'waitForText', text: 'Results' },
+            { action: 'extractText', selector: 'h1' },
+            { action: 'screenshot', name: 'about page' },
+            { action: 'goto', url: 'https://example.com/slow', timeout: 60000, waitUntil: 'networkidle' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(spec.startsWith("import { test, expect } from '@playwright/test';"));
+    assert.ok(spec.includes("test('Open the about page', async ({ page }) => {"));
+    assert.ok(spec.includes("  await page.goto('https://example.com');"));
+    assert.ok(spec.includes("  await page.goto('https://example.com/slow', { timeout: 60000, waitUntil: 'networkidle' });"));
+    assert.ok(spec.includes("  await page.getByText('About').first().click();"));
+    assert.ok(spec.includes("  await page.locator('#q').fill('hello');"));
+    assert.ok(spec.includes("  await page.getByText('Results').first().waitFor();"));
+    assert.ok(spec.includes("  const text1 = await page.locator('h1').first().innerText();"));
+    assert.ok(spec.includes("  await page.screenshot({ path: 'screenshots/about_page.png' });"));
+  });
+
+  it('turns assertions into expect calls', () => {
+    const spec = generateSpec([
+      {
+        title: 'cart',
+        plan: {
+          steps: [
+            { action: 'expectText', selector: '.count', text: '3' },
+            { action: 'expectVisible', locator: { role: 'button', name: 'Checkout' } },
+            { action: 'expectVisible', selector: '.spinner', visible: false },
+            { action: 'expectUrl', url: '/cart?step=1' },
+            { action: 'expectTitle', text: 'Cart' },
+            { action: 'expectCount', selector: '.item', count: 3 },
+            { action: 'expectAttribute', locator: { testId: 'agree' }, attribute: 'aria-checked', value: 'true' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(spec.includes("await expect(page.locator('.count').first()).toContainText('3');"));
+    assert.ok(spec.includes("await expect(page.getByRole('button', { name: 'Checkout' })).toBeVisible();"));
+    assert.ok(spec.includes("await expect(page.locator('.spinner').first()).toBeHidden();"));
+    assert.ok(spec.includes('await expect(page).toHaveURL(/\\/cart\\?step=1/);'));
+    assert.ok(spec.includes('await expect(page).toHaveTitle(/Cart/);'));
+    assert.ok(spec.includes("await expect(page.locator('.item')).toHaveCount(3);"));
+    assert.ok(spec.includes("await expect(page.getByTestId('agree')).toHaveAttribute('aria-checked', 'true');"));
+  });
+
+  it('stops at closeBrowser', () => {
+    const spec = generateSpec([
+      {
+        title: 't',
+        plan: {
+          steps: [
+            { action: 'goto', url: 'https://example.com' },
+            { action: 'closeBrowser' },
+            { action: 'goto', url: 'https://never.example.com' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(!spec.includes('never.example.com'));
+  });
+
+  it('wraps several tests in a describe block', () => {
+    const spec = generateSpec(
+      [
+        { title: 'first', plan: { steps: [{ action: 'goto', url: 'https://a.example.com' }] } },
+        { title: 'second', plan: { steps: [{ action: 'goto', url: 'https://b.example.com' }] } },
+      ],
+      { describe: 'suite' }
+    );
+    assert.ok(spec.includes("test.describe('suite', () => {"));
+    assert.ok(spec.includes("  test('first', async ({ page }) => {"));
+    assert.ok(spec.includes("    await page.goto('https://b.example.com');"));
+    assert.ok(spec.trimEnd().endsWith('});'));
+  });
+
+  it('reads records for extraction steps', () => {
+    const spec = generateSpec([
+      {
+        title: 'extract',
+        plan: {
+          steps: [
+            {
+              action: 'extractList',
+              rowSelector: '.product',
+              fields: { title: 'h2', link: { selector: 'a', attribute: 'href' } },
+              pagination: { nextSelector: '.next' },
+            },
+            { action: 'extractTable', selector: 'table' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(spec.includes("// Pagination via '.next' is not replayed"));
+    assert.ok(spec.includes("const records1 = await page.locator('.product').evaluateAll((rows) =>"));
+    assert.ok(spec.includes("'title': row.querySelector('h2')?.textContent?.trim() ?? null,"));
+    assert.ok(spec.includes("'link': row.querySelector('a')?.getAttribute('href') ?? null,"));
+    assert.ok(spec.includes("const records2 = await page.locator('table').first().evaluate((table) => {"));
+    assert.ok(spec.includes("console.log('extractTable:', records2);"));
+  });
+
+  it('generates control-flow blocks, variables and sub-plan functions', () => {
+    const spec = generateSpec([
+      {
+        title: 'shop',
+        plan: {
+          steps: [
+            { action: 'extractText', selector: '.user', saveAs: 'user' },
+            {
+              action: 'if',
+              condition: { text: 'Accept cookies' },
+              then: [{ action: 'clickText', text: 'Accept cookies' }],
+              else: [{ action: 'expectText', text: 'Hi ${user}' }],
+            },
+            {
+              action: 'forEach',
+              selector: '.product a',
+              attribute: 'href',
+              as: 'link',
+              maxItems: 3,
+              steps: [{ action: 'goto', url: '${link}' }, { action: 'call', subPlan: 'addToCart', with: { source: '${link}' } }],
+            },
+            { action: 'retry', attempts: 3, delayMs: 500, steps: [{ action: 'click', selector: '#checkout' }] },
+          ],
+          subPlans: { addToCart: [{ action: 'click', locator: { role: 'button', name: 'Add' } }] },
+        },
+      },
+    ]);
+    const body = spec.slice(spec.indexOf('{\n') + 2);
+    assert.ok(body.startsWith("  let user = '';\n  let source = '';\n  const runAddToCart = async () => {\n"));
+    assert.ok(spec.includes("    await page.getByRole('button', { name: 'Add' }).click();\n  };"));
+    assert.ok(spec.includes("  user = await page.locator('.user').first().innerText();"));
+    assert.ok(spec.includes("  if (await page.getByText('Accept cookies').first().isVisible()) {"));
+    assert.ok(spec.includes('  } else {\n    await expect(page.locator(\'body\')).toContainText(`Hi ${user}`);\n  }'));
+    assert.ok(
+      spec.includes(
+        "  for (const link of (await page.locator('.product a').evaluateAll((elements) => " +
+          "elements.map((el) => el.getAttribute('href') ?? ''))).slice(0, 3)) {"
+      )
+    );
+    assert.ok(spec.includes('    await page.goto(`${link}`);\n    source = `${link}`;\n    await runAddToCart();\n  }'));
+    assert.ok(spec.includes("  for (let attempt = 1; ; attempt++) {\n    try {\n      await page.locator('#checkout').first().click();\n      break;"));
+    assert.ok(spec.includes('      if (attempt === 3) {\n        throw error;\n      }\n      await page.waitForTimeout(500);'));
+  });
+
+  it('waits for conditions with waitMs', () => {
+    const spec = generateSpec([
+      {
+        title: 'wait',
+        plan: {
+          steps: [
+            { action: 'if', condition: { selector: '.banner', not: true, waitMs: 2000 }, then: [{ action: 'snapshotText' }] },
+            { action: 'if', condition: { url: '/done' }, then: [{ action: 'snapshotText' }] },
+          ],
+        },
+      },
+    ]);
+    assert.ok(
+      spec.includes("if (await page.locator('.banner').first().waitFor({ state: 'hidden', timeout: 2000 }).then(() => true, () => false)) {")
+    );
+    assert.ok(spec.includes("if (page.url().includes('/done')) {"));
+  });
+
+  it('sets up routes and waits for responses started before the triggering step', () => {
+    const spec = generateSpec([
+      {
+        title: 'network',
+        plan: {
+          routes: [
+            { url: '**/api/orders', method: 'GET', fulfill: { status: 500, json: { error: 'down' } }, delayMs: 2000 },
+            { url: '**/*', resourceTypes: ['image'], abort: true },
+          ],
+          steps: [
+            { action: 'route', rule: { url: '**/api/**', headers: { 'x-test': '1' } } },
+            { action: 'click', selector: '#save' },
+            { action: 'waitForResponse', url: '**/api/orders', method: 'POST', status: 201, saveAs: 'order' },
+            { action: 'unroute', url: '**/api/**' },
+            { action: 'waitForResponse', url: '**/api/audit' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(
+      spec.includes(
+        "  await page.context().route('**/api/orders', async (route) => {\n" +
+          "    if (route.request().method() !== 'GET') {\n" +
+          '      return route.fallback();\n' +
+          '    }\n' +
+          '    await new Promise((resolve) => setTimeout(resolve, 2000));\n' +
+          '    await route.fulfill({ status: 500, json: {"error":"down"} });\n' +
+          '  });'
+      )
+    );
+    assert.ok(spec.includes("    if (!['image'].includes(route.request().resourceType())) {"));
+    assert.ok(spec.includes("    await route.abort('blockedbyclient');"));
+    assert.ok(spec.includes("    await route.fallback({ headers: { ...route.request().headers(), ...{ 'x-test': '1' } } });"));
+    assert.ok(
+      spec.includes(
+        "  const response1Promise = page.waitForResponse((response) => /^(?:.*\\/)?api\\/orders$/.test(response.url()) && " +
+          "response.request().method() === 'POST');\n" +
+          "  await page.locator('#save').first().click();\n" +
+          '  const response1 = await response1Promise;\n' +
+          '  expect(response1.status()).toBe(201);\n' +
+          '  order = await response1.text();'
+      )
+    );
+    assert.ok(spec.includes("  const response2Promise = page.waitForResponse('**/api/audit');\n  await page.context().unroute('**/api/**');"));
+    assert.ok(spec.includes('  const response2 = await response2Promise;'));
+  });
+
+  it('follows popups, tabs and frames and answers dialogs', () => {
+    const spec = generateSpec([
+      {
+        title: 'tabs',
+        plan: {
+          dialogs: { action: 'accept', promptText: 'Ann' },
+          steps: [
+            { action: 'click', locator: { role: 'link', name: 'Help' } },
+            { action: 'waitForPopup' },
+            { action: 'switchFrame', selector: 'iframe#chat' },
+            { action: 'type', locator: { label: 'Message' }, value: 'hi' },
+            { action: 'switchTab', url: 'example.com/shop' },
+            { action: 'clickText', text: 'Cart' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(spec.startsWith("import { test, expect, type FrameLocator, type Page } from '@playwright/test';"));
+    assert.ok(
+      spec.includes(
+        '  let frame: Page | FrameLocator = page;\n' +
+          "  page.context().on('dialog', (dialog) => void dialog.accept('Ann'));\n" +
+          '\n' +
+          "  const popup1Promise = page.context().waitForEvent('page');\n" +
+          "  await frame.getByRole('link', { name: 'Help' }).click();\n" +
+          '  page = await popup1Promise;\n' +
+          '  frame = page;\n' +
+          '  await page.waitForLoadState();\n' +
+          "  frame = frame.frameLocator('iframe#chat');\n" +
+          "  await frame.getByLabel('Message').fill('hi');\n" +
+          "  page = page.context().pages().find((tab) => tab.url().includes('example.com/shop'))!;\n" +
+          '  frame = page;\n' +
+          '  await page.bringToFront();\n' +
+          "  await frame.getByText('Cart').first().click();"
+      )
+    );
+  });
+
+  it('skips generated names the plan uses for its own variables', () => {
+    const spec = generateSpec([
+      {
+        title: 'names',
+        plan: {
+          steps: [
+            { action: 'extractText', selector: 'h1', saveAs: 'text1' },
+            { action: 'snapshotText' },
+            { action: 'waitForResponse', url: '**/api', saveAs: 'response1' },
+            { action: 'waitForResponse', url: '**/api' },
+          ],
+        },
+      },
+    ]);
+    assert.ok(spec.includes("const text2 = await page.locator('body').innerText();"));
+    assert.ok(spec.includes('const response2 = await response2Promise;\n  response1 = await response2.text();'));
+    // Compiling the transpiled spec catches duplicate declarations
+    const js = ts.transpileModule(spec, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } }).outputText;
+    assert.doesNotThrow(() => new vm.Script(js));
+  });
+
+  it('keeps locators on the page when the plan never switches frames', () => {
+    const spec = generateSpec([
+      { title: 'tabs', plan: { steps: [{ action: 'switchTab', tab: 1 }, { action: 'listTabs' }, { action: 'click', selector: '#a' }] } },
+    ]);
+    assert.ok(spec.startsWith("import { test, expect } from '@playwright/test';"));
+    assert.ok(
+      spec.includes(
+        '  page = page.context().pages()[1];\n' +
+          '  await page.bringToFront();\n' +
+          "  console.log('listTabs:', page.context().pages().map((tab) => tab.url()));\n" +
+          "  await page.locator('#a').first().click();"
+      )
+    );
+  });
+});
@@ -0,0 +1,582 @@
+import {
+  ActionPlan,
+  ActionStep,
+  CHILD_STEP_KEYS,
+  CONTROL_ACTIONS,
+  Condition,
+  DEFAULT_FOREACH_ITEMS,
+  LocatorSpec,
+  RouteRule,
+} from './actionDsl';
+import { normalizeFields } from './dataExtraction';
+import { globToRegExp } from './networkRoutes';
+import { findPlaceholders, findVariables, replaceReferences } from './templating';
+
+export interface SpecTest {
+  title: string;
+  plan: ActionPlan;
+}
+
+export interface SpecOptions {
+  /** Wraps the tests in a `test.describe` block with this title. */
+  describe?: string;
+}
+
+const INDENT = '  ';
+
+/**
+ * Quotes a value as a single-quoted TypeScript string literal. Values with
+ * `${{secrets.NAME}}` or `${{vars.NAME}}` placeholders become template
+ * literals reading `process.env.NAME`, so secrets never end up in the spec.
+ * `${name}` variable references become references to the test's variables.
+ */
+export function stringLiteral(value: string): string {
+  if (findPlaceholders(value).length > 0 || findVariables(value).length > 0) {
+    return templateLiteral(value);
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `'${escaped}'`;
+}
+
+function templateLiteral(value: string): string {
+  const escape = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+  const parts: string[] = [];
+  let last = 0;
+  replaceReferences(value, (reference, text) => {
+    const index = value.indexOf(text, last);
+    const expression = reference.kind === 'variable' ? reference.name : `process.env.${reference.name}`;
+    parts.push(escape(value.slice(last, index)), `\${${expression}}`);
+    last = index + text.length;
+    return text;
+  });
+  parts.push(escape(value.slice(last)));
+  return `\`${parts.join('')}\``;
+}
+
+function regexLiteral(value: string): string {
+  if (findVariables(value).length > 0) {
+    // Variable values are only known when the test runs, so they are escaped there
+    return `new RegExp(${stringLiteral(value)}.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&'))`;
+  }
+  return `/${value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}/`;
+}
+
+function exactOption(spec: LocatorSpec): string {
+  return spec.exact ? ', { exact: true }' : '';
+}
+
+/**
+ * Builds the locator expression for a step. Role, label, placeholder and test id
+ * locators are expected to be unique; text and CSS locators often are not, so
+ * they keep the runner's "first match" behaviour. `root` is the variable the
+ * locator starts from: `page`, or `frame` in tests that switch frames.
+ * Throws for observe refs, which only exist while a plan runs.
+ */
+export function locatorExpression(step: ActionStep, root = 'page'): string {
+  const spec = step.locator;
+  if (!spec) {
+    return `${root}.locator(${stringLiteral(step.selector ?? '')}).first()`;
+  }
+  if (spec.role) {
+    const options: string[] = [];
+    if (spec.name !== undefined) {
+      options.push(`name: ${stringLiteral(spec.name)}`);
+      if (spec.exact) {
+        options.push('exact: true');
+      }
+    }
+    const optionsText = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+    return `${root}.getByRole(${stringLiteral(spec.role)}${optionsText})`;
+  }
+  if (spec.label) {
+    return `${root}.getByLabel(${stringLiteral(spec.label)}${exactOption(spec)})`;
+  }
+  if (spec.placeholder) {
+    return `${root}.getByPlaceholder(${stringLiteral(spec.placeholder)}${exactOption(spec)})`;
+  }
+  if (spec.testId) {
+    return `${root}.getByTestId(${stringLiteral(spec.testId)})`;
+  }
+  if (spec.ref) {
+    // Refs are assigned by observe steps while the plan runs and do not exist in a test run
+    throw new Error(
+      `The ${step.action} step targets ref "${spec.ref}" from an observe step, which a test run does not have. ` +
+        'Replace it with a role, label, text, test ID or selector locator before exporting.'
+    );
+  }
+  return `${root}.getByText(${stringLiteral(spec.text ?? '')}${exactOption(spec)}).first()`;
+}
+
+function allLocatorExpression(step: ActionStep, root = 'page'): string {
+  return locatorExpression(step, root).replace(/\.first\(\)$/, '');
+}
+
+function safeScreenshotName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? name;
+  return base.replace(/[^a-zA-Z0-9_.-]/g, '_');
+}
+
+function paginationComment(step: ActionStep): string[] {
+  return step.pagination
+    ? [`// Pagination via ${stringLiteral(step.pagination.nextSelector)} is not replayed; only the current page is read`]
+    : [];
+}
+
+function extractListCode(step: ActionStep, name: string, root: string): string[] {
+  const lines = [
+    ...paginationComment(step),
+    `const ${name} = await ${root}.locator(${stringLiteral(step.rowSelector!)}).evaluateAll((rows) =>`,
+    `${INDENT}rows.map((row) => ({`,
+  ];
+  for (const field of normalizeFields(step.fields!, 'extractList')) {
+    const element = field.selector ? `row.querySelector(${stringLiteral(field.selector)})` : 'row';
+    const read = field.attribute
+      ? `${element}?.getAttribute(${stringLiteral(field.attribute)})`
+      : `${element}?.textContent?.trim()`;
+    lines.push(`${INDENT}${INDENT}${stringLiteral(field.name)}: ${read} ?? null,`);
+  }
+  lines.push(`${INDENT}}))`, ');');
+  return lines;
+}
+
+function extractTableCode(step: ActionStep, name: string, root: string): string[] {
+  return [
+    ...paginationComment(step),
+    ...(step.fields ? ['// Reads every column; the field mapping from the plan is applied by the runner only'] : []),
+    `const ${name} = await ${locatorExpression(step, root)}.evaluate((table) => {`,
+    `${INDENT}const rows = Array.from(table.querySelectorAll('tr'));`,
+    `${INDENT}const cells = (row: Element) => Array.from(row.children).map((cell) => (cell.textContent ?? '').trim());`,
+    `${INDENT}const headerRow = rows.find((row) => row.querySelector('th') && !row.querySelector('td'));`,
+    `${INDENT}const headers = headerRow ? cells(headerRow) : [];`,
+    `${INDENT}return rows`,
+    `${INDENT}${INDENT}.filter((row) => row.querySelector('td'))`,
+    `${INDENT}${INDENT}.map((row) => Object.fromEntries(cells(row).map((value, i) => [headers[i] || \`column\${i + 1}\`, value])));`,
+    '});',
+  ];
+}
+
+/** Name of the function a sub-plan becomes, e.g. `runLogin` for "login". */
+function subPlanFunction(name: string): string {
+  return `run${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
+
+/** Variables the test declares up front: every `saveAs` target and `call` `with` name. */
+function declaredVariables(plan: ActionPlan): string[] {
+  const names = new Set<string>();
+  const visit = (steps: ActionStep[]) => {
+    for (const step of steps) {
+      if (step.saveAs) {
+        names.add(step.saveAs);
+      }
+      Object.keys(step.with ?? {}).forEach((name) => names.add(name));
+      for (const key of CHILD_STEP_KEYS) {
+        visit(step[key] ?? []);
+      }
+    }
+  };
+  visit(plan.steps);
+  Object.values(plan.subPlans ?? {}).forEach(visit);
+  return [...names];
+}
+
+/** Boolean expression for an `if` condition, waiting up to `waitMs` where the plan asks to. */
+function conditionExpression(condition: Condition, root: string): string {
+  const timeout = condition.waitMs ? `{ timeout: ${condition.waitMs} }` : '';
+  if (condition.url !== undefined) {
+    const test = `${condition.not ? '!' : ''}url.href.includes(${stringLiteral(condition.url)})`;
+    return timeout
+      ? `await page.waitForURL((url) => ${test}, ${timeout}).then(() => true, () => false)`
+      : `${condition.not ? '!' : ''}page.url().includes(${stringLiteral(condition.url)})`;
+  }
+  const target =
+    condition.text !== undefined
+      ? `${root}.getByText(${stringLiteral(condition.text)}).first()`
+      : `${allLocatorExpression({ action: 'if', selector: condition.selector, locator: condition.locator }, root)}.first()`;
+  if (timeout) {
+    const state = condition.not ? 'hidden' : 'visible';
+    return `await ${target}.waitFor({ state: '${state}', timeout: ${condition.waitMs} }).then(() => true, () => false)`;
+  }
+  return condition.not ? `!(await ${target}.isVisible())` : `await ${target}.isVisible()`;
+}
+
+function forEachSource(step: ActionStep, root: string): string {
+  if (step.items) {
+    return `[${step.items.map(stringLiteral).join(', ')}]`;
+  }
+  const matches = allLocatorExpression(step, root);
+  const limit = step.maxItems ?? DEFAULT_FOREACH_ITEMS;
+  const values = step.attribute
+    ? `await ${matches}.evaluateAll((elements) => elements.map((el) => el.getAttribute(${stringLiteral(step.attribute)}) ?? ''))`
+    : `await ${matches}.allInnerTexts()`;
+  return `(${values}).slice(0, ${limit})`;
+}
+
+/** Code that sets up a route on the page's browser context, so it covers every tab like the runner's routes. */
+function routeCode(rule: RouteRule): string[] {
+  const body: string[] = [];
+  const filters: string[] = [];
+  if (rule.method) {
+    filters.push(`route.request().method() !== ${stringLiteral(rule.method)}`);
+  }
+  if (rule.resourceTypes) {
+    filters.push(`![${rule.resourceTypes.map(stringLiteral).join(', ')}].includes(route.request().resourceType())`);
+  }
+  if (filters.length > 0) {
+    body.push(`if (${filters.join(' || ')}) {`, `${INDENT}return route.fallback();`, '}');
+  }
+  if (rule.delayMs) {
+    body.push(`await new Promise((resolve) => setTimeout(resolve, ${rule.delayMs}));`);
+  }
+  if (rule.abort) {
+    body.push("await route.abort('blockedbyclient');");
+  } else if (rule.fulfill) {
+    const { status, json, body: text, file, contentType, headers } = rule.fulfill;
+    const options = [`status: ${status ?? 200}`];
+    if (json !== undefined) {
+      options.push(`json: ${JSON.stringify(json)}`);
+    }
+    if (text !== undefined) {
+      options.push(`body: ${stringLiteral(text)}`);
+    }
+    if (file) {
+      // Relative to the folder Playwright runs from, usually the workspace root
+      options.push(`path: ${stringLiteral(file)}`);
+    }
+    if (contentType) {
+      options.push(`contentType: ${stringLiteral(contentType)}`);
+    }
+    if (headers) {
+      options.push(`headers: ${headersLiteral(headers)}`);
+    }
+    body.push(`await route.fulfill({ ${options.join(', ')} });`);
+  } else if (rule.headers) {
+    body.push(`await route.fallback({ headers: { ...route.request().headers(), ...${headersLiteral(rule.headers)} } });`);
+  } else {
+    body.push('await route.fallback();');
+  }
+  return [
+    `await page.context().route(${stringLiteral(rule.url)}, async (route) => {`,
+    ...body.map((line) => `${INDENT}${line}`),
+    '});',
+  ];
+}
+
+function headersLiteral(headers: Record<string, string>): string {
+  return `{ ${Object.entries(headers).map(([name, value]) => `${stringLiteral(name)}: ${stringLiteral(value)}`).join(', ')} }`;
+}
+
+/** What `page.waitForResponse` is given: the URL glob, or a predicate when the method matters too. */
+function responseMatcher(step: ActionStep): string {
+  if (!step.method) {
+    return stringLiteral(step.url!);
+  }
+  const urlTest = findVariables(step.url!).length > 0 ? `response.url().includes(${stringLiteral(step.url!)})` : `${globToRegExp(step.url!)}.test(response.url())`;
+  return `(response) => ${urlTest} && response.request().method() === ${stringLiteral(step.method)}`;
+}
+
+interface CodeContext {
+  /**
+   * `extracted` counts text extractions, `records` structured extractions,
+   * `responses` awaited responses and `popups` awaited tabs, so each gets its own variable name.
+   */
+  counters: { extracted: number; records: number; responses: number; popups: number };
+  /** Variables the test declares for the plan, which generated names must not reuse. */
+  declared: Set<string>;
+  /** Variable name for the next `waitForResponse` or `waitForPopup`, whose promise was started before the step ahead of it. */
+  pendingWait?: string;
+  /** What locators start from: `page`, or `frame` when the test switches frames. */
+  root: string;
+  /** Whether the test declares `frame`, which must follow the tab when it changes. */
+  usesFrames: boolean;
+}
+
+/** The next generated variable name for `counter`, e.g. `text2`, skipping names the plan uses itself. */
+function generatedName(prefix: string, counter: keyof CodeContext['counters'], context: CodeContext): string {
+  let name: string;
+  do {
+    context.counters[counter]++;
+    name = `${prefix}${context.counters[counter]}`;
+  } while (context.declared.has(name) || context.declared.has(`${name}Promise`));
+  return name;
+}
+
+/** A fresh promise for what a `waitForResponse` or `waitForPopup` step waits for, with a variable name for it. */
+function waitPromise(step: ActionStep, context: CodeContext): { name: string; promise: string } | undefined {
+  if (step.action === 'waitForResponse') {
+    return { name: generatedName('response', 'responses', context), promise: `page.waitForResponse(${responseMatcher(step)})` };
+  }
+  if (step.action === 'waitForPopup') {
+    // Any new tab, like the runner, not only popups of the current one
+    return { name: generatedName('popup', 'popups', context), promise: "page.context().waitForEvent('page')" };
+  }
+  return undefined;
+}
+
+/** The promise a wait step awaits: the one started ahead of it, or a new one. */
+function takeWaitPromise(step: ActionStep, context: CodeContext): { name: string; promise: string } {
+  const name = context.pendingWait;
+  context.pendingWait = undefined;
+  return name ? { name, promise: `${name}Promise` } : waitPromise(step, context)!;
+}
+
+/**
+ * Code for a list of steps. A `waitForResponse` or `waitForPopup` starts
+ * listening before the step ahead of it, which usually sends the request or
+ * opens the tab, so a quick response or popup is not missed.
+ */
+function stepsToCode(steps: ActionStep[], context: CodeContext): string[] {
+  const lines: string[] = [];
+  steps.forEach((step, i) => {
+    const next = steps[i + 1];
+    // Blocks span several statements, so a wait is only started ahead of plain steps
+    const waiting = next && !CONTROL_ACTIONS.includes(step.action) ? waitPromise(next, context) : undefined;
+    if (waiting) {
+      lines.push(`const ${waiting.name}Promise = ${waiting.promise};`);
+    }
+    lines.push(
+      ...(step.action === 'closeBrowser'
+        ? ['// closeBrowser: the runner stops the whole plan here; the test fixture closes the page itself']
+        : stepToCode(step, context))
+    );
+    context.pendingWait = waiting?.name;
+  });
+  context.pendingWait = undefined;
+  return lines;
+}
+
+/** Lines that make `tab` the current page, resetting the frame to its top-level page. */
+function switchTabCode(tab: string, context: CodeContext): string[] {
+  return [`page = ${tab};`, ...(context.usesFrames ? ['frame = page;'] : [])];
+}
+
+function blockToCode(steps: ActionStep[], context: CodeContext): string[] {
+  return stepsToCode(steps, context).map((line) => `${INDENT}${line}`);
+}
+
+/** Translates one step into lines of test code, with the lines of nested blocks indented. */
+function stepToCode(step: ActionStep, context: CodeContext): string[] {
+  const { root } = context;
+  switch (step.action) {
+    case 'goto': {
+      const options: string[] = [];
+      if (step.timeout !== undefined) {
+        options.push(`timeout: ${step.timeout}`);
+      }
+      if (step.waitUntil) {
+        options.push(`waitUntil: ${stringLiteral(step.waitUntil)}`);
+      }
+      const optionsText = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+      return [`await page.goto(${stringLiteral(step.url!)}${optionsText});`];
+    }
+    case 'clickText':
+      return [`await ${root}.getByText(${stringLiteral(step.text!)}).first().click();`];
+    case 'type':
+      return [`await ${allLocatorExpression(step, root)}.fill(${stringLiteral(step.value!)});`];
+    case 'waitForText':
+      return [`await ${root}.getByText(${stringLiteral(step.text!)}).first().waitFor();`];
+    case 'extractText':
+    case 'snapshotText': {
+      const source = step.action === 'extractText' ? locatorExpression(step, root) : `${root}.locator('body')`;
+      if (step.saveAs) {
+        // Declared at the top of the test so later steps and blocks can read it
+        return [`${step.saveAs} = await ${source}.innerText();`, `console.log(${stringLiteral(`${step.action}:`)}, ${step.saveAs});`];
+      }
+      const name = generatedName('text', 'extracted', context);
+      return [
+        `const ${name} = await ${source}.innerText();`,
+        `console.log(${stringLiteral(`${step.action}:`)}, ${name});`,
+      ];
+    }
+    case 'screenshot':
+      return [`await page.screenshot({ path: ${stringLiteral(`screenshots/${safeScreenshotName(step.name!)}.png`)} });`];
+    case 'click':
+      return [`await ${locatorExpression(step, root)}.click();`];
+    case 'selectOption': {
+      const value = step.values
+        ? `[${step.values.map(stringLiteral).join(', ')}]`
+        : stringLiteral(step.value!);
+      return [`await ${locatorExpression(step, root)}.selectOption(${value});`];
+    }
+    case 'check':
+      return [`await ${locatorExpression(step, root)}.check();`];
+    case 'uncheck':
+      return [`await ${locatorExpression(step, root)}.uncheck();`];
+    case 'press':
+      return step.selector || step.locator
+        ? [`await ${locatorExpression(step, root)}.press(${stringLiteral(step.key!)});`]
+        : [`await page.keyboard.press(${stringLiteral(step.key!)});`];
+    case 'hover':
+      return [`await ${locatorExpression(step, root)}.hover();`];
+    case 'scrollIntoView':
+      return [`await ${locatorExpression(step, root)}.scrollIntoViewIfNeeded();`];
+    case 'setInputFiles': {
+      // Paths stay relative to the workspace root, where Playwright is usually run from
+      const files = step.files!.map(stringLiteral).join(', ');
+      return [`await ${locatorExpression(step, root)}.setInputFiles([${files}]);`];
+    }
+    case 'expectText': {
+      const target = step.selector || step.locator ? locatorExpression(step, root) : `${root}.locator('body')`;
+      return [`await expect(${target}).toContainText(${stringLiteral(step.text!)});`];
+    }
+    case 'expectVisible':
+      return step.visible === false
+        ? [`await expect(${locatorExpression(step, root)}).toBeHidden();`]
+        : [`await expect(${locatorExpression(step, root)}).toBeVisible();`];
+    case 'expectUrl':
+      return [`await expect(page).toHaveURL(${regexLiteral(step.url!)});`];
+    case 'expectTitle':
+      return [`await expect(page).toHaveTitle(${regexLiteral(step.text!)});`];
+    case 'expectCount':
+      return [`await expect(${allLocatorExpression(step, root)}).toHaveCount(${step.count});`];
+    case 'expectAttribute':
+      return [
+        `await expect(${locatorExpression(step, root)}).toHaveAttribute(${stringLiteral(step.attribute!)}, ${stringLiteral(step.value!)});`,
+      ];
+    case 'extractList':
+    case 'extractTable': {
+      const name = generatedName('records', 'records', context);
+      const code = step.action === 'extractList' ? extractListCode(step, name, root) : extractTableCode(step, name, root);
+      return [...code, `console.log(${stringLiteral(`${step.action}:`)}, ${name});`];
+    }
+    case 'observe':
+      return ['// observe: the page outline only guides planning, so the test skips it'];
+    case 'route':
+      return routeCode(step.rule!);
+    case 'unroute':
+      return [`await page.context().unroute(${stringLiteral(step.url!)});`];
+    case 'waitForResponse': {
+      const { name, promise } = takeWaitPromise(step, context);
+      const lines = [`const ${name} = await ${promise};`];
+      if (step.status !== undefined) {
+        lines.push(`expect(${name}.status()).toBe(${step.status});`);
+      }
+      if (step.saveAs) {
+        lines.push(`${step.saveAs} = await ${name}.text();`);
+      }
+      return lines;
+    }
+    case 'listTabs':
+      return [`console.log('listTabs:', page.context().pages().map((tab) => tab.url()));`];
+    case 'switchTab': {
+      const tab =
+        step.tab !== undefined
+          ? `page.context().pages()[${step.tab}]`
+          : `page.context().pages().find((tab) => tab.url().includes(${stringLiteral(step.url!)}))!`;
+      return [...switchTabCode(tab, context), 'await page.bringToFront();'];
+    }
+    case 'waitForPopup': {
+      const { promise } = takeWaitPromise(step, context);
+      return [...switchTabCode(`await ${promise}`, context), 'await page.waitForLoadState();'];
+    }
+    case 'switchFrame':
+      return step.selector ? [`frame = frame.frameLocator(${stringLiteral(step.selector)});`] : ['frame = page;'];
+    case 'if': {
+      const lines = [`if (${conditionExpression(step.condition!, root)}) {`, ...blockToCode(step.then!, context)];
+      if (step.else) {
+        lines.push('} else {', ...blockToCode(step.else, context));
+      }
+      lines.push('}');
+      return lines;
+    }
+    case 'forEach':
+      return [`for (const ${step.as ?? 'item'} of ${forEachSource(step, root)}) {`, ...blockToCode(step.steps!, context), '}'];
+    case 'retry': {
+      const wait = step.delayMs ? [`${INDENT}${INDENT}await page.waitForTimeout(${step.delayMs});`] : [];
+      return [
+        'for (let attempt = 1; ; attempt++) {',
+        `${INDENT}try {`,
+        ...blockToCode(step.steps!, context).map((line) => `${INDENT}${line}`),
+        `${INDENT}${INDENT}break;`,
+        `${INDENT}} catch (error) {`,
+        `${INDENT}${INDENT}if (attempt === ${step.attempts}) {`,
+        `${INDENT}${INDENT}${INDENT}throw error;`,
+        `${INDENT}${INDENT}}`,
+        ...wait,
+        `${INDENT}}`,
+        '}',
+      ];
+    }
+    case 'call':
+      return [
+        ...Object.entries(step.with ?? {}).map(([name, value]) => `${name} = ${stringLiteral(value)};`),
+        `await ${subPlanFunction(step.subPlan!)}();`,
+      ];
+    default:
+      return [`// Unsupported action "${step.action}" was skipped`];
+  }
+}
+
+/** Whether any step of the plan, nested or in a sub-plan, has this action. */
+function usesAction(plan: ActionPlan, action: string): boolean {
+  const visit = (steps: ActionStep[]): boolean =>
+    steps.some((step) => step.action === action || CHILD_STEP_KEYS.some((key) => visit(step[key] ?? [])));
+  return visit(plan.steps) || Object.values(plan.subPlans ?? {}).some(visit);
+}
+
+function testToCode(test: SpecTest, indent: string): string[] {
+  // `page` is reassigned when the plan switches tabs, so later steps act on the new tab
+  const lines: string[] = [`${indent}test(${stringLiteral(test.title)}, async ({ page }) => {`];
+  const usesFrames = usesAction(test.plan, 'switchFrame');
+  const context: CodeContext = {
+    counters: { extracted: 0, records: 0, responses: 0, popups: 0 },
+    declared: new Set(declaredVariables(test.plan)),
+    root: usesFrames ? 'frame' : 'page',
+    usesFrames,
+  };
+  const body: string[] = [...context.declared].map((name) => `let ${name} = '';`);
+  if (usesFrames) {
+    body.push('let frame: Page | FrameLocator = page;');
+  }
+  if (test.plan.dialogs) {
+    const { action, promptText } = test.plan.dialogs;
+    const answer = action === 'accept' ? `dialog.accept(${promptText !== undefined ? stringLiteral(promptText) : ''})` : 'dialog.dismiss()';
+    body.push(`page.context().on('dialog', (dialog) => void ${answer});`);
+  }
+  for (const [name, steps] of Object.entries(test.plan.subPlans ?? {})) {
+    body.push(`const ${subPlanFunction(name)} = async () => {`, ...blockToCode(steps, context), '};');
+  }
+  for (const rule of test.plan.routes ?? []) {
+    body.push(...routeCode(rule));
+  }
+  if (body.length > 0) {
+    body.push('');
+  }
+  // The runner stops after closeBrowser; the test fixture closes the page itself
+  const closeIndex = test.plan.steps.findIndex((step) => step.action === 'closeBrowser');
+  body.push(...stepsToCode(closeIndex === -1 ? test.plan.steps : test.plan.steps.slice(0, closeIndex), context));
+  for (const line of body) {
+    lines.push(line ? `${indent}${INDENT}${line}` : '');
+  }
+  lines.push(`${indent}});`);
+  return lines;
+}
+
+/** Generates a `@playwright/test` spec file with one `test()` block per entry. */
+export function generateSpec(tests: SpecTest[], options: SpecOptions = {}): string {
+  const types = tests.some((test) => usesAction(test.plan, 'switchFrame')) ? ', type FrameLocator, type Page' : '';
+  const lines: string[] = [`import { test, expect${types} } from '@playwright/test';`, ''];
+  const indent = options.describe ? INDENT : '';
+  if (options.describe) {
+    lines.push(`test.describe(${stringLiteral(options.describe)}, () => {`);
+  }
+  tests.forEach((test, i) => {
+    if (i > 0) {
+      lines.push('');
+    }
+    try {
+      lines.push(...testToCode(test, indent));
+    } catch (err) {
+      throw new Error(`Cannot export "${test.title}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  if (options.describe) {
+    lines.push('});');
+  }
+  lines.push('');
+  return lines.join('\n');
+}
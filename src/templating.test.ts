@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  SECRET_MASK,
+  TemplateContext,
+  findMalformedPlaceholders,
+  findPlaceholders,
+  findVariables,
+  maskAndTruncate,
+  maskResult,
+  maskSecrets,
+  resolveStep,
+} from './templating';
+
+const context: TemplateContext = {
+  secrets: { PASSWORD: 'hunter2' },
+  vars: { BASE_URL: 'https://staging.example.com' },
+};
+
+describe('findPlaceholders', () => {
+  it('lists distinct secrets and vars used in a plan', () => {
+    const found = findPlaceholders({
+      steps: [
+        { action: 'goto', url: '${{vars.BASE_URL}}/login' },
+        { action: 'type', selector: '#password', value: '${{ secrets.PASSWORD }}' },
+        { action: 'type', selector: '#confirm', value: '${{secrets.PASSWORD}}' },
+      ],
+    });
+    assert.deepEqual(found, [
+      { kind: 'vars', name: 'BASE_URL' },
+      { kind: 'secrets', name: 'PASSWORD' },
+    ]);
+  });
+});
+
+describe('findMalformedPlaceholders', () => {
+  it('reports unknown namespaces and invalid names', () => {
+    assert.deepEqual(findMalformedPlaceholders(['${{env.HOME}}', '${{secrets.1st}}', '${{vars.OK}}']), [
+      '${{env.HOME}}',
+      '${{secrets.1st}}',
+    ]);
+  });
+});
+
+describe('findVariables', () => {
+  it('lists variable references but not placeholders', () => {
+    assert.deepEqual(findVariables({ url: '${base}/${path}', value: '${{vars.BASE_URL}} ${base}' }), ['base', 'path']);
+  });
+});
+
+describe('resolveStep', () => {
+  it('fills in placeholders without changing the original step', () => {
+    const step = { action: 'type', selector: '#password', value: '${{secrets.PASSWORD}}' };
+    const result = resolveStep(step, context);
+    assert.equal(result.step.value, 'hunter2');
+    assert.deepEqual(result.missing, []);
+    assert.equal(step.value, '${{secrets.PASSWORD}}');
+  });
+
+  it('resolves placeholders inside locators', () => {
+    const result = resolveStep({ action: 'click', locator: { role: 'link', name: 'Open ${{vars.BASE_URL}}' } }, context);
+    assert.equal(result.step.locator?.name, 'Open https://staging.example.com');
+  });
+
+  it('reports placeholders without a value', () => {
+    const result = resolveStep({ action: 'type', selector: '#otp', value: '${{secrets.OTP}}' }, context);
+    assert.deepEqual(result.missing, ['${{secrets.OTP}}']);
+  });
+
+  it('fills in variables and reports unset ones', () => {
+    const result = resolveStep(
+      { action: 'type', selector: '#q', value: '${item} at ${{vars.BASE_URL}} for ${user}' },
+      context,
+      { item: 'Shoes ${user}' }
+    );
+    assert.equal(result.step.value, 'Shoes ${user} at https://staging.example.com for ${user}');
+    assert.deepEqual(result.missing, ['${user}']);
+  });
+
+  it('leaves the steps of blocks to be resolved when they run', () => {
+    const step = {
+      action: 'forEach',
+      items: ['${{vars.BASE_URL}}'],
+      steps: [{ action: 'goto', url: '${item}' }],
+    };
+    const result = resolveStep(step, context);
+    assert.deepEqual(result.step.items, ['https://staging.example.com']);
+    assert.equal(result.step.steps, step.steps);
+    assert.deepEqual(result.missing, []);
+  });
+});
+
+describe('maskSecrets', () => {
+  it('masks every occurrence, longest values first', () => {
+    assert.equal(maskSecrets('pw hunter2 / hunter2x', ['hunter2', 'hunter2x']), `pw ${SECRET_MASK} / ${SECRET_MASK}`);
+  });
+
+  it('ignores empty secret values', () => {
+    assert.equal(maskSecrets('text', ['']), 'text');
+  });
+
+  it('masks a secret that straddles the truncation limit', () => {
+    assert.equal(maskAndTruncate('key: hunter2 and more', ['hunter2'], 8), `key: ${SECRET_MASK.slice(0, 3)}…`);
+    assert.equal(maskAndTruncate('short', ['hunter2'], 8, ' (cut)'), 'short');
+    assert.equal(maskAndTruncate('0123456789', [], 4, ' (cut)'), '0123 (cut)');
+  });
+
+  it('masks result data, errors and assertion values', () => {
+    const masked = maskResult(
+      { action: 'expectText', success: false, expected: 'hunter2', actual: 'hunter2?', error: 'no hunter2' },
+      ['hunter2']
+    );
+    assert.equal(masked.expected, SECRET_MASK);
+    assert.equal(masked.actual, `${SECRET_MASK}?`);
+    assert.equal(masked.error, `no ${SECRET_MASK}`);
+  });
+
+  it('masks response URLs and frame selectors', () => {
+    const masked = maskResult(
+      {
+        action: 'waitForResponse',
+        success: true,
+        response: { url: 'https://api.test/orders?token=hunter2', method: 'GET', status: 200 },
+        frames: ['iframe[src*="hunter2"]'],
+      },
+      ['hunter2']
+    );
+    assert.deepEqual(masked.response, { url: `https://api.test/orders?token=${SECRET_MASK}`, method: 'GET', status: 200 });
+    assert.deepEqual(masked.frames, [`iframe[src*="${SECRET_MASK}"]`]);
+  });
+
+  it('masks string values in extracted records', () => {
+    const masked = maskResult(
+      { action: 'extractList', success: true, records: [{ user: 'admin', token: 'hunter2', count: 2 }] },
+      ['hunter2']
+    );
+    assert.deepEqual(masked.records, [{ user: 'admin', token: SECRET_MASK, count: 2 }]);
+  });
+});
+
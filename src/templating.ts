@@ -0,0 +1,216 @@
+import { ActionStep, CHILD_STEP_KEYS, stepOwnFields } from './actionDsl';
+import { ExecutionResult } from './playwrightRunner';
+
+export type PlaceholderKind = 'secrets' | 'vars';
+
+export interface Placeholder {
+  kind: PlaceholderKind;
+  name: string;
+}
+
+/** Values substituted into `${{secrets.NAME}}` and `${{vars.NAME}}` placeholders. */
+export interface TemplateContext {
+  secrets: Record<string, string>;
+  vars: Record<string, string>;
+}
+
+export const SECRET_MASK = '••••••';
+
+const PLACEHOLDER_PATTERN = /\$\{\{\s*(secrets|vars)\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const VALID_PLACEHOLDER = /^\$\{\{\s*(secrets|vars)\.[A-Za-z_][A-Za-z0-9_]*\s*\}\}$/;
+const ANY_PLACEHOLDER = /\$\{\{[^}]*\}\}/g;
+/** `${name}` references to run variables set by `saveAs`, `forEach` and `call`. */
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+/** Placeholders and variable references together, so substituted values are never scanned again. */
+const REFERENCE_PATTERN = new RegExp(`${PLACEHOLDER_PATTERN.source}|${VARIABLE_PATTERN.source}`, 'g');
+
+export function placeholderText(placeholder: Placeholder): string {
+  return `\${{${placeholder.kind}.${placeholder.name}}}`;
+}
+
+/** Calls `replacer` for each well-formed placeholder in `text` and substitutes its return value. */
+export function replacePlaceholders(text: string, replacer: (placeholder: Placeholder, text: string) => string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, kind: PlaceholderKind, name: string) =>
+    replacer({ kind, name }, match)
+  );
+}
+
+/** A `${name}` reference to a run variable, as opposed to a secrets or vars placeholder. */
+export interface VariableReference {
+  kind: 'variable';
+  name: string;
+}
+
+/** Like `replacePlaceholders`, but also calls `replacer` for `${name}` variable references. */
+export function replaceReferences(
+  text: string,
+  replacer: (reference: Placeholder | VariableReference, text: string) => string
+): string {
+  return text.replace(REFERENCE_PATTERN, (match, kind?: PlaceholderKind, name?: string, variable?: string) =>
+    variable !== undefined ? replacer({ kind: 'variable', name: variable }, match) : replacer({ kind: kind!, name: name! }, match)
+  );
+}
+
+function collectStrings(value: unknown, out: string[]): void {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, out));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach((item) => collectStrings(item, out));
+  }
+}
+
+/** Lists the distinct placeholders used anywhere in a value, such as a step or a whole plan. */
+export function findPlaceholders(value: unknown): Placeholder[] {
+  const strings: string[] = [];
+  collectStrings(value, strings);
+  const seen = new Map<string, Placeholder>();
+  for (const text of strings) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      const placeholder = { kind: match[1] as PlaceholderKind, name: match[2] };
+      seen.set(placeholderText(placeholder), placeholder);
+    }
+  }
+  return [...seen.values()];
+}
+
+/** Reports `${{ ... }}` expressions that are not a valid secrets or vars reference. */
+export function findMalformedPlaceholders(value: unknown): string[] {
+  const strings: string[] = [];
+  collectStrings(value, strings);
+  const malformed: string[] = [];
+  for (const text of strings) {
+    for (const match of text.matchAll(ANY_PLACEHOLDER)) {
+      if (!VALID_PLACEHOLDER.test(match[0])) {
+        malformed.push(match[0]);
+      }
+    }
+  }
+  return malformed;
+}
+
+/** Lists the distinct `${name}` variable references in a value. */
+export function findVariables(value: unknown): string[] {
+  const strings: string[] = [];
+  collectStrings(value, strings);
+  const names = new Set<string>();
+  for (const text of strings) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+function resolveValue(
+  value: unknown,
+  context: TemplateContext,
+  variables: Record<string, string>,
+  missing: Set<string>
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(REFERENCE_PATTERN, (text, kind?: PlaceholderKind, name?: string, variable?: string) => {
+      if (variable !== undefined) {
+        if (!Object.prototype.hasOwnProperty.call(variables, variable)) {
+          missing.add(text);
+          return text;
+        }
+        return variables[variable];
+      }
+      const resolved = context[kind!][name!];
+      if (resolved === undefined) {
+        missing.add(placeholderText({ kind: kind!, name: name! }));
+        return text;
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, context, variables, missing));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      out[key] = resolveValue(item, context, variables, missing);
+    }
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Returns a copy of the step with placeholders and `${name}` variables filled
+ * in, plus any that had no value. Nested steps of control-flow blocks are left
+ * as they are; they are resolved when they run, with the variables of that moment.
+ */
+export function resolveStep(
+  step: ActionStep,
+  context: TemplateContext,
+  variables: Record<string, string> = {}
+): { step: ActionStep; missing: string[] } {
+  const missing = new Set<string>();
+  const resolved = resolveValue(stepOwnFields(step), context, variables, missing) as ActionStep;
+  for (const key of CHILD_STEP_KEYS) {
+    if (step[key] !== undefined) {
+      resolved[key] = step[key];
+    }
+  }
+  return { step: resolved, missing: [...missing] };
+}
+
+/** Replaces every occurrence of a secret value in `text`. Longer secrets are masked first. */
+export function maskSecrets(text: string, secretValues: string[]): string {
+  let masked = text;
+  const values = secretValues.filter((v) => v.length > 0).sort((a, b) => b.length - a.length);
+  for (const value of values) {
+    masked = masked.split(value).join(SECRET_MASK);
+  }
+  return masked;
+}
+
+/**
+ * Masks secrets in `text`, then shortens it to `limit` characters followed by
+ * `suffix`. Masking comes first: a secret cut at the limit would no longer
+ * match, and its start would stay visible.
+ */
+export function maskAndTruncate(text: string, secretValues: string[], limit: number, suffix = '…'): string {
+  const masked = maskSecrets(text, secretValues);
+  return masked.length > limit ? `${masked.slice(0, limit)}${suffix}` : masked;
+}
+
+export function maskResult(result: ExecutionResult, secretValues: string[]): ExecutionResult {
+  if (secretValues.length === 0) {
+    return result;
+  }
+  const masked: ExecutionResult = { ...result };
+  for (const key of ['data', 'error', 'expected', 'actual'] as const) {
+    const value = masked[key];
+    if (value !== undefined) {
+      masked[key] = maskSecrets(value, secretValues);
+    }
+  }
+  if (masked.response) {
+    masked.response = { ...masked.response, url: maskSecrets(masked.response.url, secretValues) };
+  }
+  if (masked.frames) {
+    masked.frames = masked.frames.map((frame) => maskSecrets(frame, secretValues));
+  }
+  if (masked.dialogs) {
+    masked.dialogs = masked.dialogs.map((dialog) => ({
+      ...dialog,
+      message: maskSecrets(dialog.message, secretValues),
+      ...(dialog.promptText !== undefined ? { promptText: maskSecrets(dialog.promptText, secretValues) } : {}),
+    }));
+  }
+  if (masked.records) {
+    masked.records = masked.records.map((record) => {
+      const maskedRecord: typeof record = {};
+      for (const [field, value] of Object.entries(record)) {
+        maskedRecord[field] = typeof value === 'string' ? maskSecrets(value, secretValues) : value;
+      }
+      return maskedRecord;
+    });
+  }
+  return masked;
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { ConversationMessage } from './conversation';
+import { LLMModel, LLMModelInfo, LLMProvider } from './llmProvider';
+import { CancellationSignal } from './playwrightRunner';
+
+/** Models from the VS Code Language Model API, such as the ones GitHub Copilot provides. */
+export class VsCodeLMProvider implements LLMProvider {
+  async listModels(): Promise<LLMModelInfo[]> {
+    if (!vscode.lm) {
+      return [];
+    }
+    const models = await vscode.lm.selectChatModels();
+    return models.map((model) => ({ id: model.id, name: `${model.name} (${model.vendor})` }));
+  }
+
+  async selectModel(modelId?: string): Promise<LLMModel> {
+    // Check if vscode.lm API is available
+    if (!vscode.lm) {
+      throw new Error('VS Code Language Model API is not available in this version of VS Code.');
+    }
+
+    // The picked model first; without one, preferred families, then any Copilot model, then any available model
+    let models = modelId ? await vscode.lm.selectChatModels({ id: modelId }) : [];
+    if (!models || models.length === 0) {
+      models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4o' });
+    }
+    if (!models || models.length === 0) {
+      models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4o-mini' });
+    }
+    if (!models || models.length === 0) {
+      models = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+    }
+    if (!models || models.length === 0) {
+      models = await vscode.lm.selectChatModels();
+    }
+    if (!models || models.length === 0) {
+      throw new Error('No language models available. Please ensure GitHub Copilot is installed and signed in.');
+    }
+    return new VsCodeLMModel(models[0]);
+  }
+}
+
+class VsCodeLMModel implements LLMModel {
+  constructor(private readonly model: vscode.LanguageModelChat) {}
+
+  get name(): string {
+    return `${this.model.vendor}/${this.model.family}`;
+  }
+
+  get maxInputTokens(): number {
+    return this.model.maxInputTokens;
+  }
+
+  async complete(messages: ConversationMessage[], cancellation?: CancellationSignal): Promise<string> {
+    const cts = new vscode.CancellationTokenSource();
+    const listener = cancellation?.onCancellationRequested(() => cts.cancel());
+    if (cancellation?.isCancellationRequested) {
+      cts.cancel();
+    }
+    try {
+      const request = await this.model.sendRequest(
+        messages.map((m) =>
+          m.role === 'user'
+            ? vscode.LanguageModelChatMessage.User(m.content)
+            : vscode.LanguageModelChatMessage.Assistant(m.content)
+        ),
+        {},
+        cts.token
+      );
+      let response = '';
+      for await (const chunk of request.text) {
+        response += chunk;
+      }
+      return response;
+    } finally {
+      listener?.dispose();
+      cts.dispose();
+    }
+  }
+}